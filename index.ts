@@ -56,6 +56,30 @@ export {
   LiveResponse,
   ValidationRequest,
 } from "./lib/liveValidation/operationValidator";
+export {
+  LiveValidationServer,
+  LiveValidationServerOptions,
+} from "./lib/liveValidation/liveValidationServer";
+export {
+  LiveValidationStatistics,
+  LiveValidationStatisticsSnapshot,
+} from "./lib/liveValidation/liveValidationStatistics";
+export {
+  LiveValidationLimiterOption,
+  LiveValidationSkipReason,
+} from "./lib/liveValidation/liveValidationLimiter";
+export {
+  LiveValidationProxy,
+  LiveValidationProxyOptions,
+  LiveValidationProxyRecord,
+} from "./lib/liveValidation/liveValidationProxy";
+export {
+  MockArmService,
+  MockArmServiceOptions,
+  MockRequest,
+  MockResponse,
+} from "./lib/mockServer/mockArmService";
+export { MockServer, MockServerOptions } from "./lib/mockServer/mockServer";
 export { SpecResolver } from "./lib/validators/specResolver";
 
 export { ApiScenarioLoader } from "./lib/apiScenario/apiScenarioLoader";
@@ -65,11 +89,21 @@ export {
   Step,
   StepArmTemplate,
   StepRestCall,
+  RawReport,
+  RawExecution,
 } from "./lib/apiScenario/apiScenarioTypes";
 export { VariableEnv } from "./lib/apiScenario/variableEnv";
 export { ApiScenarioRunner, ApiScenarioRunnerClient } from "./lib/apiScenario/apiScenarioRunner";
 
 export { PostmanCollectionRunnerClient } from "./lib/apiScenario/postmanCollectionRunnerClient";
+export {
+  ApiScenarioRestClient,
+  ApiScenarioRestClientOption,
+} from "./lib/apiScenario/apiScenarioRestClient";
+export {
+  ApiScenarioRestRunner,
+  ApiScenarioRestRunnerOption,
+} from "./lib/apiScenario/apiScenarioRestRunner";
 export {
   PostmanCollectionGenerator,
   PostmanCollectionGeneratorOption,
@@ -104,7 +138,37 @@ export {
   SemanticValidator,
 } from "./lib/swaggerValidator/semanticValidator";
 
-export { TrafficValidationIssue, TrafficValidator } from "./lib/swaggerValidator/trafficValidator";
+export {
+  TrafficValidationIssue,
+  TrafficValidator,
+  TrafficValidatorOption,
+} from "./lib/swaggerValidator/trafficValidator";
+
+export { SarifLog, SarifReportBuilder, SarifResult } from "./lib/report/sarifReport";
+export {
+  OutputFormatter,
+  getOutputFormatter,
+  registerOutputFormatter,
+} from "./lib/report/outputFormatter";
+export { ValidationOutput } from "./lib/report/validationOutput";
+export {
+  ValidationBaseline,
+  ValidationBaselineEntry,
+  compareWithBaseline,
+} from "./lib/report/validationBaseline";
+
+export {
+  SemanticRule,
+  SemanticRuleContext,
+  loadSemanticRules,
+} from "./lib/swaggerValidator/semanticRule";
+
+export {
+  SpecDiffChange,
+  SpecDiffResult,
+  diffSpecs,
+  formatSpecDiffAsMarkdown,
+} from "./lib/specDiff/specDiff";
 
 export { getAutorestConfig } from "./lib/util/getAutorestConfig";
 // Constants
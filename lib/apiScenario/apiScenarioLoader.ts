@@ -30,6 +30,7 @@ import {
 } from "../swagger/swaggerTypes";
 import { traverseSwagger } from "../transform/traverseSwagger";
 import { inversifyGetInstance, TYPES } from "../inversifyUtils";
+import { getPageableNames } from "../util/utils";
 import {
   VariableScope,
   ScenarioDefinition,
@@ -57,6 +58,7 @@ import { jsonPatchApply } from "./diffUtils";
 import { ApiScenarioYamlLoader } from "./apiScenarioYamlLoader";
 import { ApiScenarioRunner } from "./apiScenarioRunner";
 import { VariableEnv } from "./variableEnv";
+import { toAssertionPathArray } from "./responseAssertion";
 import { armDeploymentScriptTemplate } from "./constants";
 
 const variableRegex = /\$\(([A-Za-z_][A-Za-z0-9_]*)\)/;
@@ -304,10 +306,22 @@ export class ApiScenarioLoader implements Loader<ScenarioDefinition> {
       } else {
         throw new Error("Invalid step");
       }
+      if (testStep.type !== "armTemplateDeployment") {
+        for (const assertion of testStep.assertions) {
+          if (assertion.jsonPath !== undefined) {
+            toAssertionPathArray(assertion.jsonPath);
+          }
+        }
+      }
     } catch (error) {
       throw new Error(`Failed to load step ${rawStep.step}: ${(error as any).message}`);
     }
 
+    if (testStep.forEach !== undefined) {
+      // Declared like output variables. The runner sets the item of each iteration.
+      testStep.variables[testStep.forEach.as] = `$(${testStep.forEach.as})`;
+    }
+
     if (ctx.scenario !== undefined) {
       declareOutputVariables(testStep.outputVariables, ctx.scenario);
     } else {
@@ -325,6 +339,8 @@ export class ApiScenarioLoader implements Loader<ScenarioDefinition> {
       ...rawStep,
       statusCode: rawStep.statusCode ?? 200,
       outputVariables: rawStep.outputVariables ?? {},
+      assertions: rawStep.assertions ?? [],
+      when: rawStep.when ?? [],
       ...convertVariables(rawStep.variables),
     };
     return step;
@@ -338,6 +354,8 @@ export class ApiScenarioLoader implements Loader<ScenarioDefinition> {
       type: "armTemplateDeployment",
       step: rawStep.step,
       outputVariables: rawStep.outputVariables ?? {},
+      when: rawStep.when ?? [],
+      forEach: rawStep.forEach,
       armTemplate: "",
       armTemplatePayload: {},
       ...convertVariables(rawStep.variables),
@@ -408,6 +426,8 @@ export class ApiScenarioLoader implements Loader<ScenarioDefinition> {
       type: "armTemplateDeployment",
       step: rawStep.step,
       outputVariables: rawStep.outputVariables ?? {},
+      when: rawStep.when ?? [],
+      forEach: rawStep.forEach,
       armTemplate: rawStep.armTemplate,
       armTemplatePayload: {},
       ...convertVariables(rawStep.variables),
@@ -475,6 +495,11 @@ export class ApiScenarioLoader implements Loader<ScenarioDefinition> {
       resourceUpdate: rawStep.resourceUpdate ?? [],
       requestUpdate: rawStep.requestUpdate ?? [],
       responseUpdate: rawStep.responseUpdate ?? [],
+      assertions: rawStep.assertions ?? [],
+      when: rawStep.when ?? [],
+      forEach: rawStep.forEach,
+      retry: rawStep.retry === undefined ? undefined : { delay: 5, ...rawStep.retry },
+      pageLimit: rawStep.pageLimit,
       ...convertVariables(rawStep.variables),
     };
 
@@ -488,6 +513,12 @@ export class ApiScenarioLoader implements Loader<ScenarioDefinition> {
       await this.loadRestCallOperation(step, ctx);
     }
 
+    if (step.pageLimit !== undefined && !getPageableNames(step.operation)?.nextLinkName) {
+      throw new Error(
+        `Operation ${step.operationId} of step ${step.step} doesn't have next links to follow for pageLimit`
+      );
+    }
+
     if (step.requestUpdate.length > 0) {
       jsonPatchApply(step.requestParameters, step.requestUpdate);
     }
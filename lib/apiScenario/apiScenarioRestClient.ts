@@ -1,7 +1,9 @@
 import { URL } from "url";
 import AbortController from "node-abort-controller";
+import * as jsonPointer from "json-pointer";
 import {
   getDefaultUserAgentValue,
+  HttpOperationResponse,
   ServiceClient,
   ServiceClientOptions,
   TokenCredential,
@@ -15,14 +17,24 @@ import { TokenCredentials as MsRestTokenCredential } from "@azure/ms-rest-js";
 import { ResourceManagementClient } from "@azure/arm-resources";
 import { LROPoller as MsLROPoller } from "@azure/ms-rest-azure-js";
 import { setDefaultOpts } from "../swagger/loader";
-import { ArmTemplate, StepArmTemplate, StepRestCall } from "./apiScenarioTypes";
+import {
+  ArmTemplate,
+  RawExecution,
+  StepArmTemplate,
+  StepRawCall,
+  StepRestCall,
+} from "./apiScenarioTypes";
 import {
   ArmDeploymentTracking,
   ApiScenarioClientRequest,
   ApiScenarioRunnerClient,
   StepEnv,
+  getNextPageLink,
+  shouldRetryStep,
 } from "./apiScenarioRunner";
 import { LROPoller, BaseResult, lroPolicy } from "./lro";
+import { PostmanItemType } from "./postmanItemTypes";
+import { VariableEnv } from "./variableEnv";
 
 export interface ApiScenarioRestClientOption extends ServiceClientOptions {
   endpoint?: string;
@@ -33,8 +45,15 @@ export const delaySeconds = (seconds: number) => {
 };
 
 export class ApiScenarioRestClient extends ServiceClient implements ApiScenarioRunnerClient {
+  /**
+   * Every exchange sent by this client, annotated the same way as the items of the postman
+   * collection, so that ReportGenerator could consume them as a RawReport.
+   */
+  public readonly executions: RawExecution[];
+  public readonly variables: { [key: string]: string };
   private opts: ApiScenarioRestClientOption;
   private credential: TokenCredential;
+  private stepNameSet: Map<string, number>;
 
   public constructor(credential: TokenCredential, opts: ApiScenarioRestClientOption) {
     setDefaultOpts(opts, {
@@ -56,6 +75,9 @@ export class ApiScenarioRestClient extends ServiceClient implements ApiScenarioR
     this.baseUri = opts.endpoint;
     this.opts = opts;
     this.credential = credential;
+    this.executions = [];
+    this.variables = {};
+    this.stepNameSet = new Map<string, number>();
   }
 
   public async createResourceGroup(
@@ -66,11 +88,13 @@ export class ApiScenarioRestClient extends ServiceClient implements ApiScenarioR
     console.log(`Create ResourceGroup: ${resourceGroupName}`);
     const resourcesClient = new ResourceManagementClient(
       await this.getMsRestCredential(),
-      subscriptionId
+      subscriptionId,
+      { baseUri: this.opts.endpoint }
     );
     await resourcesClient.resourceGroups.createOrUpdate(resourceGroupName, {
       location,
     });
+    Object.assign(this.variables, { subscriptionId, resourceGroupName, location });
   }
 
   public async deleteResourceGroup(
@@ -80,7 +104,8 @@ export class ApiScenarioRestClient extends ServiceClient implements ApiScenarioR
     console.log(`Delete ResourceGroup: ${resourceGroupName}`);
     const resourcesClient = new ResourceManagementClient(
       await this.getMsRestCredential(),
-      subscriptionId
+      subscriptionId,
+      { baseUri: this.opts.endpoint }
     );
     const poller = await resourcesClient.resourceGroups.beginDeleteMethod(resourceGroupName);
     await this.fastPollMsLROPoller(poller);
@@ -89,7 +114,7 @@ export class ApiScenarioRestClient extends ServiceClient implements ApiScenarioR
   public async sendExampleRequest(
     req: ApiScenarioClientRequest,
     step: StepRestCall,
-    _stepEnv: StepEnv
+    stepEnv: StepEnv
   ): Promise<void> {
     console.log(`Send request: ${req.method} ${req.path}`);
     console.log(JSON.stringify(req.body, null, 2));
@@ -98,19 +123,45 @@ export class ApiScenarioRestClient extends ServiceClient implements ApiScenarioR
       url.searchParams.set(queryName, req.query[queryName]);
     }
 
+    const itemName = this.getItemName(step.step);
+    const operationId = step.operation.operationId || "";
+    const isLongRunning = step.operation["x-ms-long-running-operation"] === true;
     const initialRequest = {
       url: url.href,
       method: req.method,
       headers: req.headers,
       body: req.body,
     };
-    const sendOperation = async (request: RequestPrepareOptions): Promise<BaseResult> => {
-      const result = await this.sendRequest(request);
-      return {
-        _response: result,
-      };
-    };
-    const result = await sendOperation(initialRequest);
+    const sendInitialRequest = this.sendOperation(
+      isLongRunning
+        ? {
+            type: "LRO",
+            poller_item_name: `${itemName}_poller`,
+            operationId,
+            exampleName: step.exampleFile!,
+            itemName,
+            step: step.step,
+          }
+        : {
+            type: "simple",
+            operationId,
+            exampleName: step.exampleFile!,
+            itemName,
+            step: step.step,
+          }
+    );
+    let result = await sendInitialRequest(initialRequest);
+    for (
+      let attempt = 1;
+      step.retry !== undefined &&
+      attempt <= step.retry.count &&
+      shouldRetryStep(step, this.executions[this.executions.length - 1].response, stepEnv.env);
+      attempt++
+    ) {
+      console.log(`Retry ${attempt}/${step.retry.count} of step ${step.step}`);
+      await delaySeconds(step.retry.delay!);
+      result = await sendInitialRequest(initialRequest);
+    }
     const { _response: initialResponse } = result;
 
     if (initialResponse.status >= 400) {
@@ -119,19 +170,81 @@ export class ApiScenarioRestClient extends ServiceClient implements ApiScenarioR
       );
     }
 
-    if (step.operation["x-ms-long-running-operation"]) {
+    this.outputVariables(step, initialResponse, stepEnv.env);
+
+    if (isLongRunning) {
       const poller = new LROPoller({
         initialRequestOptions: initialRequest,
         initialOperationResult: result,
-        sendOperation,
+        sendOperation: this.sendOperation({ type: "poller", lro_item_name: itemName }),
       });
 
       await this.fastPollMsLROPoller(poller);
+    } else {
+      // Same as the next page item of the postman collection
+      const sendNextPageRequest = this.sendOperation({
+        type: "next-page",
+        page_item_name: itemName,
+        step: step.step,
+      });
+      let nextLink = getNextPageLink(step, parseResponseBody(initialResponse), 1);
+      for (let pageCount = 2; nextLink !== undefined; pageCount++) {
+        console.log(`Get page ${pageCount} of step ${step.step}: ${nextLink}`);
+        const { _response: pageResponse } = await sendNextPageRequest({
+          url: new URL(nextLink, this.opts.endpoint!).href,
+          method: "GET",
+        });
+        if (pageResponse.status >= 400) {
+          throw new Error(`Fail to get next page ${nextLink}:\n${pageResponse.bodyAsText}`);
+        }
+        nextLink = getNextPageLink(step, parseResponseBody(pageResponse), pageCount);
+      }
+    }
+
+    // Same as the generated get items of the postman collection
+    if (step.operation._method === "put" || step.operation._method === "delete") {
+      await this.sendOperation({ type: "generated-get", lro_item_name: itemName, step: step.step })(
+        {
+          url: url.href,
+          method: "GET",
+        }
+      );
     }
+    Object.assign(this.variables, stepEnv.env.toObject());
 
     console.log(initialResponse.bodyAsText);
   }
 
+  public async sendRawRequest(step: StepRawCall, stepEnv: StepEnv): Promise<void> {
+    const url = stepEnv.env.resolveString(step.rawUrl);
+    const requestBody = stepEnv.env.resolveObjectValues(step.requestBody);
+    console.log(`Send raw request: ${step.method} ${url}`);
+    const { _response: response } = await this.sendOperation({
+      type: "raw-call",
+      itemName: this.getItemName(step.step),
+      step: step.step,
+    })({
+      url: new URL(url, this.opts.endpoint!).href,
+      method: step.method,
+      headers: stepEnv.env.resolveObjectValues(step.requestHeaders),
+      // The raw body is sent as recorded instead of being serialized as JSON.
+      body:
+        typeof requestBody !== "string"
+          ? JSON.stringify(requestBody)
+          : requestBody === ""
+          ? undefined
+          : requestBody,
+      disableJsonStringifyOnBody: true,
+    });
+
+    if (response.status >= 400) {
+      throw new Error(`Fail to send request ${step.method} ${url}:\n${response.bodyAsText}`);
+    }
+
+    this.outputVariables(step, response, stepEnv.env);
+    Object.assign(this.variables, stepEnv.env.toObject());
+  }
+
   public async sendArmTemplateDeployment(
     armTemplate: ArmTemplate,
     armDeployment: ArmDeploymentTracking,
@@ -169,6 +282,43 @@ export class ApiScenarioRestClient extends ServiceClient implements ApiScenarioR
     }
   }
 
+  private sendOperation(annotation: PostmanItemType) {
+    return async (request: RequestPrepareOptions): Promise<BaseResult> => {
+      const result = await this.sendRequest(request);
+      this.executions.push(toRawExecution(result, annotation));
+      return {
+        _response: result,
+      };
+    };
+  }
+
+  private outputVariables(
+    step: StepRestCall | StepRawCall,
+    response: HttpOperationResponse,
+    env: VariableEnv
+  ) {
+    const variableNames = Object.keys(step.outputVariables ?? {});
+    if (variableNames.length === 0) {
+      return;
+    }
+    const body = parseResponseBody(response);
+    for (const variableName of variableNames) {
+      const { fromResponse } = step.outputVariables[variableName];
+      if (!jsonPointer.has(body, fromResponse)) {
+        throw new Error(
+          `Failed to get output variable ${variableName}: ${fromResponse} is not found in the response`
+        );
+      }
+      env.output(variableName, jsonPointer.get(body, fromResponse));
+    }
+  }
+
+  private getItemName(stepName: string) {
+    const count = this.stepNameSet.get(stepName);
+    this.stepNameSet.set(stepName, count === undefined ? 0 : count + 1);
+    return count === undefined ? stepName : `${stepName}_${count + 1}`;
+  }
+
   private async getMsRestCredential() {
     const token = await this.credential.getToken(this.opts.credentialScopes!);
     return new MsRestTokenCredential(token!.token);
@@ -189,3 +339,39 @@ export class ApiScenarioRestClient extends ServiceClient implements ApiScenarioR
     }
   }
 }
+
+const parseResponseBody = (response: HttpOperationResponse) =>
+  response.parsedBody ?? JSON.parse(response.bodyAsText || "{}");
+
+const toRawExecution = (
+  response: HttpOperationResponse,
+  annotation: PostmanItemType
+): RawExecution => {
+  const requestHeaders = response.request.headers.rawHeaders();
+  // Currently only mask bearer token header, same as NewmanReportParser.
+  for (const headerName of Object.keys(requestHeaders)) {
+    if (headerName.toLowerCase() === "authorization") {
+      requestHeaders[headerName] = "<bearer token>";
+    }
+  }
+  const requestBody = response.request.body;
+  return {
+    request: {
+      url: response.request.url,
+      method: response.request.method,
+      headers: requestHeaders,
+      body:
+        requestBody === undefined || requestBody === null
+          ? ""
+          : typeof requestBody === "string"
+          ? requestBody
+          : JSON.stringify(requestBody),
+    },
+    response: {
+      statusCode: response.status,
+      headers: response.headers.rawHeaders(),
+      body: response.bodyAsText ?? "",
+    },
+    annotation,
+  };
+};
@@ -0,0 +1,183 @@
+import * as path from "path";
+import { inject, injectable } from "inversify";
+import { TokenCredential } from "@azure/core-http";
+import { ClientSecretCredential, getDefaultAzureCredential } from "@azure/identity";
+import { inversifyGetInstance, TYPES } from "../inversifyUtils";
+import { FileLoader } from "../swagger/fileLoader";
+import { log } from "../util/logging";
+import { printWarning } from "../util/utils";
+import { ReportGenerator, ReportGeneratorOption, ValidationLevel } from "./reportGenerator";
+import { SwaggerAnalyzer, SwaggerAnalyzerOption } from "./swaggerAnalyzer";
+import { BlobUploaderOption } from "./blobUploader";
+import { VariableEnv } from "./variableEnv";
+import { ApiScenarioLoader, ApiScenarioLoaderOption } from "./apiScenarioLoader";
+import { ApiScenarioRunner } from "./apiScenarioRunner";
+import { ApiScenarioRestClient } from "./apiScenarioRestClient";
+import { generateRunId } from "./postmanCollectionRunnerClient";
+import { RawReport } from "./apiScenarioTypes";
+import {
+  defaultNewmanReport,
+  defaultQualityReportFilePath,
+  getFileNameFromPath,
+} from "./defaultNaming";
+import { generateMarkdownReportHeader } from "./markdownReport";
+
+export interface ApiScenarioRestRunnerOption
+  extends ApiScenarioLoaderOption,
+    BlobUploaderOption,
+    SwaggerAnalyzerOption {
+  name: string;
+  fileRoot: string;
+  swaggerFilePaths: string[];
+  scenarioDef: string;
+  env: {};
+  outputFolder: string;
+  markdownReportPath?: string;
+  junitReportPath?: string;
+  baseUrl: string;
+  validationLevel?: ValidationLevel;
+  skipCleanUp?: boolean;
+  runId?: string;
+  verbose?: boolean;
+  /**
+   * Defaults to a client secret credential of tenantId, client_id and client_secret in env, or
+   * DefaultAzureCredential if they are not set.
+   */
+  credential?: TokenCredential;
+}
+
+export interface ApiScenarioRestRunResult {
+  rawReports: RawReport[];
+  // The number of scenarios which failed to run or clean up
+  failedScenarioCount: number;
+}
+
+/**
+ * Runs API scenarios in process through ApiScenarioRestClient instead of newman. The recorded
+ * exchanges go through the same ReportGenerator as newman reports.
+ */
+@injectable()
+export class ApiScenarioRestRunner {
+  private env: VariableEnv;
+  public constructor(
+    @inject(TYPES.opts) private opt: ApiScenarioRestRunnerOption,
+    private apiScenarioLoader: ApiScenarioLoader,
+    private fileLoader: FileLoader,
+    private swaggerAnalyzer: SwaggerAnalyzer
+  ) {
+    this.env = new VariableEnv();
+    this.env.setBatch(this.opt.env);
+  }
+
+  public async run(): Promise<ApiScenarioRestRunResult> {
+    const scenarioDef = await this.apiScenarioLoader.load(this.opt.scenarioDef);
+    this.env.setBatch(scenarioDef.variables);
+    await this.swaggerAnalyzer.initialize();
+    for (const it of scenarioDef.requiredVariables) {
+      if (this.env.get(it) === undefined) {
+        throw new Error(
+          `Missing required variable '${it}', please set variable values in env.json.`
+        );
+      }
+    }
+    const runId = this.opt.runId || generateRunId();
+    if (this.opt.markdownReportPath) {
+      await this.fileLoader.writeFile(this.opt.markdownReportPath, generateMarkdownReportHeader());
+    }
+    const credential = this.opt.credential ?? this.getCredential();
+
+    const rawReports: RawReport[] = [];
+    let failedScenarioCount = 0;
+    let index = 0;
+    for (const scenario of scenarioDef.scenarios) {
+      const testScenarioName = `${getFileNameFromPath(this.opt.scenarioDef)}_${index}`;
+      const client = new ApiScenarioRestClient(credential, { endpoint: this.opt.baseUrl });
+      const runner = new ApiScenarioRunner({
+        jsonLoader: this.apiScenarioLoader.jsonLoader,
+        env: this.env,
+        client,
+      });
+      const started = Date.now();
+      let failed = false;
+      try {
+        await runner.executeScenario(scenario);
+      } catch (e) {
+        log.error(`Scenario ${testScenarioName} failed. ${e.message}`);
+        failed = true;
+      }
+      if (!this.opt.skipCleanUp) {
+        try {
+          await runner.cleanAllScope();
+        } catch (e) {
+          log.error(`Failed to clean up scenario ${testScenarioName}. ${e.message}`);
+          failed = true;
+        }
+      } else {
+        printWarning(
+          `Notice:the resource group '${client.variables.resourceGroupName}' was not cleaned up.`
+        );
+      }
+      const rawReport: RawReport = {
+        executions: client.executions,
+        timings: { started, completed: Date.now() },
+        variables: client.variables,
+        testScenarioName,
+        metadata: { testScenarioFilePath: this.opt.scenarioDef, testScenarioName },
+      };
+      await this.generateReport(rawReport, runId);
+      rawReports.push(rawReport);
+      if (failed) {
+        failedScenarioCount++;
+      }
+      index++;
+    }
+    const operationIdCoverageResult = this.swaggerAnalyzer.calculateOperationCoverage(scenarioDef);
+    console.log(
+      `Operation coverage ${(operationIdCoverageResult.coverage * 100).toFixed(2) + "%"} (${
+        operationIdCoverageResult.coveredOperationNumber
+      }/${operationIdCoverageResult.totalOperationNumber})`
+    );
+    if (operationIdCoverageResult.uncoveredOperationIds.length > 0) {
+      console.log("Uncovered operationIds: ");
+      console.log(operationIdCoverageResult.uncoveredOperationIds);
+    }
+    return { rawReports, failedScenarioCount };
+  }
+
+  private async generateReport(rawReport: RawReport, runId: string) {
+    const opts: ReportGeneratorOption = {
+      newmanReportFilePath: "",
+      swaggerFilePaths: this.opt.swaggerFilePaths,
+      testDefFilePath: this.opt.scenarioDef,
+      checkUnderFileRoot: false,
+      eraseXmsExamples: false,
+      eraseDescription: false,
+      reportOutputFilePath: defaultQualityReportFilePath(
+        path.resolve(
+          this.opt.outputFolder,
+          defaultNewmanReport(this.opt.name, runId, rawReport.testScenarioName!)
+        )
+      ),
+      markdownReportPath: this.opt.markdownReportPath,
+      junitReportPath: this.opt.junitReportPath,
+      enableBlobUploader: this.opt.enableBlobUploader || false,
+      blobConnectionString: this.opt.blobConnectionString || "",
+      runId,
+      testScenarioName: rawReport.testScenarioName,
+      validationLevel: this.opt.validationLevel,
+      verbose: this.opt.verbose,
+    };
+    const reportGenerator = inversifyGetInstance(ReportGenerator, opts);
+    await reportGenerator.generateReport(rawReport);
+  }
+
+  private getCredential(): TokenCredential {
+    const tenantId = this.env.get("tenantId");
+    const clientId = this.env.get("client_id");
+    const clientSecret = this.env.get("client_secret");
+    if (tenantId && clientId && clientSecret) {
+      return new ClientSecretCredential(tenantId, clientId, clientSecret);
+    }
+    return getDefaultAzureCredential();
+  }
+}
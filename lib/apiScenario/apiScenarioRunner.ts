@@ -2,14 +2,20 @@ import { HttpMethods } from "@azure/core-http";
 import { JsonLoader } from "../swagger/jsonLoader";
 import { setDefaultOpts } from "../swagger/loader";
 import { getLazyBuilder } from "../util/lazyBuilder";
+import { getPageableNames } from "../util/utils";
 import {
   ArmTemplate,
+  RawResponse,
   ScenarioDefinition,
   Scenario,
   Step,
   StepArmTemplate,
+  StepCondition,
+  StepForEach,
+  StepRawCall,
   StepRestCall,
 } from "./apiScenarioTypes";
+import { evaluateResponseAssertion } from "./responseAssertion";
 import { VariableEnv } from "./variableEnv";
 
 export interface ApiScenarioRunnerOption {
@@ -68,6 +74,8 @@ export interface ApiScenarioRunnerClient {
     stepEnv: StepEnv
   ): Promise<void>;
 
+  sendRawRequest(step: StepRawCall, stepEnv: StepEnv): Promise<void>;
+
   sendArmTemplateDeployment(
     armTemplate: ArmTemplate,
     armDeployment: ArmDeploymentTracking,
@@ -104,6 +112,79 @@ export const getRandomString = (
   return result;
 };
 
+/**
+ * Whether the request of the step should be resent, according to the retry of the step and the
+ * response of the last attempt.
+ */
+export const shouldRetryStep = (
+  step: StepRestCall,
+  response: RawResponse,
+  env: VariableEnv
+): boolean => {
+  const { statusCode } = response;
+  const retryOnStatusCode =
+    step.retry?.statusCodes !== undefined
+      ? step.retry.statusCodes.includes(statusCode)
+      : Math.floor(statusCode / 200) !== 1 && statusCode !== step.statusCode;
+  return (
+    retryOnStatusCode ||
+    step.assertions.some(
+      (it) => evaluateResponseAssertion(env.resolveObjectValues(it), response).failures.length > 0
+    )
+  );
+};
+
+/**
+ * The next link to get by the step, until there is no next link or pageLimit pages are got.
+ */
+export const getNextPageLink = (
+  step: StepRestCall,
+  responseBody: any,
+  pageCount: number
+): string | undefined => {
+  const nextLinkName = getPageableNames(step.operation)?.nextLinkName;
+  if (step.pageLimit === undefined || pageCount >= step.pageLimit || !nextLinkName) {
+    return undefined;
+  }
+  const nextLink = responseBody?.[nextLinkName];
+  return typeof nextLink === "string" && nextLink !== "" ? nextLink : undefined;
+};
+
+const checkCondition = (condition: StepCondition, value: string | undefined): boolean => {
+  if (condition.exists !== undefined && (value !== undefined) !== condition.exists) {
+    return false;
+  }
+  if (condition.equals !== undefined && String(value) !== String(condition.equals)) {
+    return false;
+  }
+  if (condition.notEquals !== undefined && String(value) === String(condition.notEquals)) {
+    return false;
+  }
+  if (
+    condition.in !== undefined &&
+    (value === undefined || !condition.in.includes(String(value)))
+  ) {
+    return false;
+  }
+  return true;
+};
+
+const toForEachItems = (forEach: StepForEach, value: any): string[] => {
+  let items = value;
+  if (typeof value === "string") {
+    items = value.trim().startsWith("[")
+      ? JSON.parse(value)
+      : value
+          .split(",")
+          .map((it) => it.trim())
+          .filter((it) => it.length > 0);
+  }
+  if (!Array.isArray(items)) {
+    throw new Error(`Variable ${forEach.variable} of forEach is not a list: ${value}`);
+  }
+  return items.map((it) => (typeof it === "string" ? it : JSON.stringify(it)));
+};
+
 export class ApiScenarioRunner {
   private jsonLoader: JsonLoader;
   private client: ApiScenarioRunnerClient;
@@ -226,9 +307,40 @@ export class ApiScenarioRunner {
   }
 
   public async executeStep(step: Step, env: VariableEnv, scope: ScopeTracking) {
+    if (step.forEach === undefined || this.loadMode) {
+      await this.executeStepOnce(step, env, scope);
+      return;
+    }
+    const forEach = step.forEach;
+    const stepEnv = new VariableEnv(env);
+    stepEnv.setBatch(step.variables);
+    const items = toForEachItems(
+      forEach,
+      this.getControlVariable(step, forEach.variable, stepEnv, true)
+    );
+    for (const item of items) {
+      await this.executeStepOnce(
+        { ...step, variables: { ...step.variables, [forEach.as]: item } },
+        env,
+        scope
+      );
+    }
+  }
+
+  private async executeStepOnce(step: Step, env: VariableEnv, scope: ScopeTracking) {
     const stepEnv = new VariableEnv(env);
     stepEnv.setBatch(step.variables);
 
+    if (
+      !this.loadMode &&
+      !step.when.every((it) =>
+        checkCondition(it, this.getControlVariable(step, it.variable, stepEnv, false))
+      )
+    ) {
+      console.log(`Skip step ${step.step}: the when conditions are not met.`);
+      return;
+    }
+
     try {
       switch (step.type) {
         case "restCall":
@@ -237,6 +349,13 @@ export class ApiScenarioRunner {
         case "armTemplateDeployment":
           await this.executeArmTemplateStep(step, stepEnv, scope);
           break;
+        case "rawCall":
+          await this.client.sendRawRequest(step, {
+            env: stepEnv,
+            scope: scope.scope,
+            armDeployments: scope.armDeployments,
+          });
+          break;
       }
     } catch (error) {
       throw new Error(`Failed to execute step ${step.step}: ${(error as any).message}`);
@@ -254,6 +373,21 @@ export class ApiScenarioRunner {
     }
   }
 
+  /**
+   * Value of the variable used by when or forEach of the step. It must be known before the step
+   * runs, which is not the case for the output variables of previous steps if the variables are
+   * resolved later by the client, e.g. in a postman collection.
+   */
+  private getControlVariable(step: Step, name: string, env: VariableEnv, required: boolean) {
+    const value = required ? env.getRequired(name) : env.get(name);
+    if (!this.resolveVariables && value === `{{${name}}}`) {
+      throw new Error(
+        `Variable ${name} used by when or forEach of step ${step.step} is not known until the step runs.`
+      );
+    }
+    return value;
+  }
+
   private async executeRestCallStep(step: StepRestCall, env: VariableEnv, scope: ScopeTracking) {
     const pathEnv = new VariableEnv();
 
@@ -156,8 +156,58 @@ export const ApiScenarioDefinition: Schema & {
             },
           },
         },
+        when: {
+          type: "array",
+          description: "Conditions on variables. The step is skipped unless all conditions are met",
+          items: {
+            $ref: "#/definitions/StepCondition",
+          },
+          minItems: 1,
+        },
+        forEach: {
+          type: "object",
+          description: "Run the step for each item of a list variable",
+          properties: {
+            variable: {
+              $ref: "#/definitions/Name",
+              description:
+                "Name of the list variable. The value is a JSON array or a comma separated string",
+            },
+            as: {
+              $ref: "#/definitions/Name",
+              description: "Name of the step variable which is set to the item",
+            },
+          },
+          required: ["variable", "as"],
+          additionalProperties: false,
+        },
       },
     },
+    StepCondition: {
+      type: "object",
+      properties: {
+        variable: {
+          $ref: "#/definitions/Name",
+        },
+        equals: {
+          type: "string",
+        },
+        notEquals: {
+          type: "string",
+        },
+        in: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+        },
+        exists: {
+          type: "boolean",
+        },
+      },
+      required: ["variable"],
+      additionalProperties: false,
+    },
     StepRestBase: {
       allOf: [
         {
@@ -194,6 +244,42 @@ export const ApiScenarioDefinition: Schema & {
           description: "Expected response code",
           default: 200,
         },
+        assertions: {
+          $ref: "#/definitions/ResponseAssertions",
+        },
+        retry: {
+          type: "object",
+          description:
+            "Resend the request when the status code is one of statusCodes, or any failed status code if statusCodes is not set, or any assertion fails",
+          properties: {
+            count: {
+              type: "integer",
+              minimum: 1,
+              description: "Max number of retries",
+            },
+            delay: {
+              type: "number",
+              minimum: 0,
+              default: 5,
+              description: "Seconds to wait before each retry",
+            },
+            statusCodes: {
+              type: "array",
+              items: {
+                type: "integer",
+              },
+              minItems: 1,
+            },
+          },
+          required: ["count"],
+          additionalProperties: false,
+        },
+        pageLimit: {
+          type: "integer",
+          minimum: 1,
+          description:
+            "Max number of pages to get of the x-ms-pageable operation, by following the next links",
+        },
       },
     },
     StepRestCall: {
@@ -291,7 +377,7 @@ export const ApiScenarioDefinition: Schema & {
           type: "string",
           enum: ["GET", "PUT", "PATCH", "POST", "DELETE", "OPTIONS", "HEAD"],
         },
-        url: {
+        rawUrl: {
           type: "string",
         },
         requestHeaders: {
@@ -307,8 +393,76 @@ export const ApiScenarioDefinition: Schema & {
           default: 200,
         },
         expectedResponse: {},
+        assertions: {
+          $ref: "#/definitions/ResponseAssertions",
+        },
+      },
+      required: ["method", "rawUrl", "requestHeaders", "requestBody"],
+    },
+    ResponseAssertions: {
+      type: "array",
+      description: "Assertions on the response of the step",
+      items: {
+        $ref: "#/definitions/ResponseAssertion",
+      },
+      minItems: 1,
+    },
+    ResponseAssertion: {
+      type: "object",
+      description:
+        "Assert a value in the response body selected by jsonPath, or a response header. All the given comparisons must hold",
+      properties: {
+        jsonPath: {
+          type: "string",
+          description:
+            "JSONPath of the value in the response body, e.g. $.properties.provisioningState",
+        },
+        header: {
+          type: "string",
+          description: "Name of the response header",
+        },
+        equals: {
+          description: "The value should deep equal to this value",
+        },
+        matches: {
+          type: "string",
+          description: "The value should match this regular expression",
+        },
+        exists: {
+          type: "boolean",
+          description: "Whether the value should exist",
+        },
+        greaterThan: {
+          type: "number",
+        },
+        greaterThanOrEqual: {
+          type: "number",
+        },
+        lessThan: {
+          type: "number",
+        },
+        lessThanOrEqual: {
+          type: "number",
+        },
       },
-      required: ["method", "url", "requestHeaders", "requestBody"],
+      oneOf: [
+        {
+          required: ["jsonPath"],
+        },
+        {
+          required: ["header"],
+        },
+      ],
+      anyOf: [
+        { required: ["equals"] },
+        { required: ["matches"] },
+        { required: ["exists"] },
+        { required: ["greaterThan"] },
+        { required: ["greaterThanOrEqual"] },
+        { required: ["lessThan"] },
+        { required: ["lessThanOrEqual"] },
+      ],
+      additionalProperties: false,
     },
     JsonPatchOp: {
       type: "object",
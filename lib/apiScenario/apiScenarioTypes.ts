@@ -43,6 +43,8 @@ type RawStepBase = RawVariableScope & {
   step: string;
   description?: string;
   outputVariables?: OutputVariables;
+  when?: StepCondition[];
+  forEach?: StepForEach;
 };
 
 type StepBase = VariableScope & {
@@ -55,6 +57,9 @@ type RawStepRestBase = RawStepBase & {
   resourceUpdate?: JsonPatchOp[];
   requestUpdate?: JsonPatchOp[];
   responseUpdate?: JsonPatchOp[];
+  assertions?: ResponseAssertion[];
+  retry?: StepRetry;
+  pageLimit?: number;
 };
 
 export type Step = StepRestCall | StepArmTemplate | StepRawCall;
@@ -85,7 +90,7 @@ export type StepRestCall = TransformRaw<
     requestParameters: SwaggerExample["parameters"];
     expectedResponse: SwaggerExample["responses"]["200"]["body"];
   } & StepBase,
-  "exampleFile" | "resourceName" | "description"
+  "exampleFile" | "resourceName" | "description" | "forEach" | "retry" | "pageLimit"
 >;
 
 //#endregion
@@ -120,7 +125,7 @@ export type StepArmTemplate = TransformRaw<
     type: "armTemplateDeployment";
     armTemplatePayload: ArmTemplate;
   } & StepBase,
-  "description"
+  "description" | "forEach"
 >;
 
 export type VariableType = "string" | "secureString";
@@ -196,6 +201,7 @@ export type RawStepRawCall = RawStepBase & {
   requestBody: string;
   statusCode?: number;
   expectedResponse?: string;
+  assertions?: ResponseAssertion[];
 };
 
 export type StepRawCall = TransformRaw<
@@ -203,10 +209,64 @@ export type StepRawCall = TransformRaw<
   {
     type: "rawCall";
   } & StepBase,
-  "expectedResponse" | "description"
+  "expectedResponse" | "description" | "forEach"
 >;
 //#endregion
 
+//#region Step Control
+
+/**
+ * The step is skipped unless the variable meets all the given comparisons.
+ */
+export type StepCondition = {
+  variable: string;
+  equals?: string;
+  notEquals?: string;
+  in?: string[];
+  exists?: boolean;
+};
+
+/**
+ * Runs the step for each item of the list variable, which is a JSON array or a comma separated
+ * string. The item is set to the step variable named by "as".
+ */
+export type StepForEach = {
+  variable: string;
+  as: string;
+};
+
+/**
+ * Resends the request after delay seconds when the status code is one of statusCodes, or any
+ * failed status code if statusCodes is not set, or any assertion of the step fails.
+ */
+export type StepRetry = {
+  count: number;
+  delay?: number;
+  statusCodes?: number[];
+};
+
+//#endregion
+
+//#region Response Assertion
+
+/**
+ * Asserts a value of the response body selected by jsonPath, or a response header. All the given
+ * comparisons must hold.
+ */
+export type ResponseAssertion = {
+  jsonPath?: string;
+  header?: string;
+  equals?: any;
+  matches?: string;
+  exists?: boolean;
+  greaterThan?: number;
+  greaterThanOrEqual?: number;
+  lessThan?: number;
+  lessThanOrEqual?: number;
+};
+
+//#endregion
+
 //#region JsonPatchOp
 
 export type JsonPatchOpAdd = {
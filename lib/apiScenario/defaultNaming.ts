@@ -9,6 +9,14 @@ export const lroPollingUrl = (name: string): string => {
   return `${name.replace(/[\s+\.]/g, "_")}_polling_url`;
 };
 
+export const nextPage = (name: string): string => {
+  return `${name}_next_page`;
+};
+
+export const nextPageLink = (name: string): string => {
+  return `${name.replace(/[\s+\.]/g, "_")}_next_link`;
+};
+
 export const defaultQualityReportFilePath = (newmanReportFilePath: string): string => {
   return newmanReportFilePath.replace(".json", "/report.json");
 };
@@ -2,9 +2,9 @@ import { basename } from "path";
 import { URL } from "url";
 import { HttpMethods } from "@azure/core-http";
 import { injectable } from "inversify";
-import { Loader } from "../../swagger/loader";
 import { RequestTracking, SingleRequestTracking } from "./testScenarioGenerator";
 import { parseRecordingBodyJson, transformRecordingHeaders } from "./dotnetRecordingLoader";
+import { RecordingFormatLoader } from "./testRecordingLoader";
 
 interface RecordingFile {
   interactions: RecordingEntry[];
@@ -12,16 +12,16 @@ interface RecordingFile {
 
 interface RecordingEntry {
   request: {
-    body: string | null;
-    headers: { [headerName: string]: string[] };
+    body: string | Uint8Array | null;
+    headers: { [headerName: string]: string[] | string };
     method: HttpMethods;
     uri: string;
   };
   response: {
     body: {
-      string?: string;
+      string?: string | Uint8Array;
     };
-    headers: { [headerName: string]: string[] };
+    headers: { [headerName: string]: string[] | string };
     status: {
       code: number;
       message: string;
@@ -29,8 +29,18 @@ interface RecordingEntry {
   };
 }
 
+/**
+ * Loads vcrpy cassettes, which are used by Azure CLI and the Python SDK tests. Cassettes could be
+ * serialized in yaml (default) or json.
+ */
 @injectable()
-export class AzureCliRecordingLoader implements Loader<RequestTracking, [RecordingFile, string]> {
+export class AzureCliRecordingLoader implements RecordingFormatLoader {
+  public readonly formatName = "vcrpy";
+
+  public canLoad(content: any): boolean {
+    return Array.isArray(content.interactions);
+  }
+
   public async load([content, filePath]: [RecordingFile, string]): Promise<RequestTracking> {
     const result: RequestTracking = {
       requests: [],
@@ -50,7 +60,7 @@ export class AzureCliRecordingLoader implements Loader<RequestTracking, [Recordi
         headers: transformRecordingHeaders(entry.request.headers),
         query,
         body: parseRecordingBodyJson(entry.request.body),
-        responseBody: parseRecordingBodyJson(entry.response.body.string),
+        responseBody: parseRecordingBodyJson(entry.response.body?.string),
         responseCode: entry.response.status.code,
         responseHeaders,
       };
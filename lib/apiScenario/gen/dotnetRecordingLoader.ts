@@ -2,8 +2,8 @@ import { basename } from "path";
 import { URL } from "url";
 import { HttpMethods } from "@azure/core-http";
 import { injectable } from "inversify";
-import { Loader } from "../../swagger/loader";
 import { RequestTracking, SingleRequestTracking } from "./testScenarioGenerator";
+import { RecordingFormatLoader } from "./testRecordingLoader";
 
 interface RecordingFile {
   Names: { [testName: string]: string[] };
@@ -23,7 +23,13 @@ interface RecordingEntry {
 }
 
 @injectable()
-export class DotnetRecordingLoader implements Loader<RequestTracking, [RecordingFile, string]> {
+export class DotnetRecordingLoader implements RecordingFormatLoader {
+  public readonly formatName = "dotnet";
+
+  public canLoad(content: any): boolean {
+    return Array.isArray(content.Entries);
+  }
+
   public async load([content, filePath]: [RecordingFile, string]): Promise<RequestTracking> {
     const result: RequestTracking = {
       requests: [],
@@ -41,7 +47,7 @@ export class DotnetRecordingLoader implements Loader<RequestTracking, [Recording
         url: url.href,
         headers: transformRecordingHeaders(entry.RequestHeaders),
         query,
-        body: parseRecordingBodyJson(entry.RequestBody) ?? {},
+        body: parseRecordingBodyJson(entry.RequestBody),
         responseBody: parseRecordingBodyJson(entry.ResponseBody),
         responseCode: entry.StatusCode,
         responseHeaders: transformRecordingHeaders(entry.ResponseHeaders),
@@ -50,27 +56,25 @@ export class DotnetRecordingLoader implements Loader<RequestTracking, [Recording
       result.requests.push(request);
     }
 
-    result.requests.sort((a, b) =>
-      new Date(a.responseHeaders.Date) < new Date(b.responseHeaders.Date) ? -1 : 1
-    );
-
-    // for (const entry of result.requests) {
-    //   console.log(`${entry.method}\t${entry.path}`);
-    // }
-
     return result;
   }
 }
 
-export const transformRecordingHeaders = (headers: { [headerName: string]: string[] }) => {
+export const transformRecordingHeaders = (
+  headers: { [headerName: string]: string[] | string } | undefined
+) => {
   const result: { [headerName: string]: string } = {};
-  for (const headerName of Object.keys(headers)) {
-    result[headerName] = headers[headerName].join(" ");
+  for (const headerName of Object.keys(headers ?? {})) {
+    const value = headers![headerName];
+    result[headerName] = Array.isArray(value) ? value.join(" ") : String(value);
   }
   return result;
 };
 
-export const parseRecordingBodyJson = (content: string | undefined | null) => {
+export const parseRecordingBodyJson = (content: string | Uint8Array | undefined | null) => {
+  if (content instanceof Uint8Array) {
+    content = Buffer.from(content).toString("utf8");
+  }
   if (typeof content !== "string" || content.length === 0) {
     return undefined;
   }
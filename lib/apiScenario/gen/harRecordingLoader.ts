@@ -0,0 +1,120 @@
+import { basename } from "path";
+import { URL } from "url";
+import { HttpMethods } from "@azure/core-http";
+import { injectable } from "inversify";
+import { RequestTracking, SingleRequestTracking } from "./testScenarioGenerator";
+import { RecordingFormatLoader } from "./testRecordingLoader";
+
+/**
+ * Subset of the HTTP Archive (HAR) 1.2 format which is needed to rebuild the requests.
+ * http://www.softwareishard.com/blog/har-12-spec/
+ */
+export interface HarFile {
+  log: {
+    version?: string;
+    entries: HarEntry[];
+  };
+}
+
+export interface HarEntry {
+  startedDateTime?: string;
+  request: {
+    method: string;
+    url: string;
+    headers?: HarNameValuePair[];
+    queryString?: HarNameValuePair[];
+    postData?: {
+      mimeType?: string;
+      text?: string;
+    };
+  };
+  response: {
+    status: number;
+    headers?: HarNameValuePair[];
+    content?: {
+      mimeType?: string;
+      text?: string;
+      encoding?: string;
+    };
+  };
+}
+
+export interface HarNameValuePair {
+  name: string;
+  value: string;
+}
+
+/**
+ * Loads HAR files captured by browsers and http proxies. The requests keep the order of the entries.
+ */
+@injectable()
+export class HarRecordingLoader implements RecordingFormatLoader {
+  public readonly formatName = "har";
+
+  public canLoad(content: any): boolean {
+    return Array.isArray(content.log?.entries);
+  }
+
+  public async load([content, filePath]: [HarFile, string]): Promise<RequestTracking> {
+    return {
+      requests: content.log.entries.map(harEntryToRequest),
+      description: basename(filePath).replace(/\.[^/.]+$/, ""),
+    };
+  }
+}
+
+const harEntryToRequest = (entry: HarEntry): SingleRequestTracking => {
+  const { request, response } = entry;
+  const url = new URL(request.url, "https://management.azure.com");
+  const query: { [key: string]: string } = {};
+  if (request.queryString !== undefined) {
+    for (const { name, value } of request.queryString) {
+      query[name] = value;
+    }
+  } else {
+    url.searchParams.forEach((val, key) => (query[key] = val));
+  }
+  return {
+    method: request.method.toUpperCase() as HttpMethods,
+    path: url.pathname,
+    url: url.href,
+    headers: harHeadersToObject(request.headers),
+    query,
+    body: parseHarBody(request.postData?.text, request.postData?.mimeType),
+    responseBody: parseHarBody(
+      response.content?.encoding === "base64" && response.content.text !== undefined
+        ? Buffer.from(response.content.text, "base64").toString("utf8")
+        : response.content?.text,
+      response.content?.mimeType
+    ),
+    responseCode: response.status,
+    responseHeaders: harHeadersToObject(response.headers),
+    timeStart: entry.startedDateTime === undefined ? undefined : new Date(entry.startedDateTime),
+  };
+};
+
+// HTTP/2 pseudo headers, e.g. ":authority", are recorded by browsers but are not real headers.
+const harHeadersToObject = (headers: HarNameValuePair[] | undefined) => {
+  const result: { [headerName: string]: string } = {};
+  for (const { name, value } of headers ?? []) {
+    if (name.startsWith(":")) {
+      continue;
+    }
+    result[name] = result[name] === undefined ? value : `${result[name]}, ${value}`;
+  }
+  return result;
+};
+
+const parseHarBody = (text: string | undefined, mimeType: string | undefined) => {
+  if (text === undefined || text.length === 0) {
+    return undefined;
+  }
+  if (mimeType !== undefined && mimeType.length > 0 && !/json/i.test(mimeType)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
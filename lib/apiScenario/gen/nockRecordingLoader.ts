@@ -0,0 +1,116 @@
+import { basename } from "path";
+import { URL } from "url";
+import { HttpMethods } from "@azure/core-http";
+import { injectable } from "inversify";
+import { RequestTracking, SingleRequestTracking } from "./testScenarioGenerator";
+import { parseRecordingBodyJson } from "./dotnetRecordingLoader";
+import { RecordingFormatLoader } from "./testRecordingLoader";
+
+type RecordingFile = RecordingEntry[];
+
+interface RecordingEntry {
+  scope: string;
+  method: HttpMethods;
+  path: string;
+  body?: unknown;
+  status: number;
+  response?: unknown;
+  reqheaders?: { [headerName: string]: string | string[] };
+  rawHeaders?: string[] | { [headerName: string]: string | string[] };
+  headers?: { [headerName: string]: string | string[] };
+  responseIsBinary?: boolean;
+}
+
+/**
+ * Loads the nock cassettes used by the JS SDK tests, i.e. nock back fixtures or the output of
+ * nock.recorder.rec({ output_objects: true }) saved as json.
+ */
+@injectable()
+export class NockRecordingLoader implements RecordingFormatLoader {
+  public readonly formatName = "nock";
+
+  public canLoad(content: any): boolean {
+    return (
+      Array.isArray(content) &&
+      content.length > 0 &&
+      content.every(
+        (entry: any) =>
+          typeof entry?.scope === "string" &&
+          typeof entry?.method === "string" &&
+          typeof entry?.path === "string"
+      )
+    );
+  }
+
+  public async load([content, filePath]: [RecordingFile, string]): Promise<RequestTracking> {
+    const result: RequestTracking = {
+      requests: [],
+      description: basename(filePath).replace(/\.[^/.]+$/, ""),
+    };
+
+    for (const entry of content) {
+      const url = new URL(entry.path, entry.scope.replace(/:443$/, ""));
+      const query: { [key: string]: string } = {};
+      url.searchParams.forEach((val, key) => (query[key] = val));
+
+      const responseHeaders = transformNockHeaders(entry.rawHeaders ?? entry.headers);
+      const request: SingleRequestTracking = {
+        method: entry.method.toUpperCase() as HttpMethods,
+        path: url.pathname,
+        url: url.href,
+        headers: transformNockHeaders(entry.reqheaders),
+        query,
+        body: parseNockBody(entry.body),
+        responseBody: isEncodedResponse(entry, responseHeaders)
+          ? undefined
+          : parseNockBody(entry.response),
+        responseCode: entry.status,
+        responseHeaders,
+      };
+
+      result.requests.push(request);
+    }
+
+    return result;
+  }
+}
+
+// rawHeaders is a flat list of names and values, e.g. ["Content-Type", "application/json"]
+const transformNockHeaders = (headers: RecordingEntry["rawHeaders"]) => {
+  const result: { [headerName: string]: string } = {};
+  if (Array.isArray(headers)) {
+    for (let i = 0; i + 1 < headers.length; i += 2) {
+      result[headers[i]] = headers[i + 1];
+    }
+  } else if (headers !== undefined) {
+    for (const headerName of Object.keys(headers)) {
+      const value = headers[headerName];
+      result[headerName] = Array.isArray(value) ? value.join(", ") : String(value);
+    }
+  }
+  return result;
+};
+
+const parseNockBody = (body: unknown) => {
+  if (body === null || body === undefined || body === "") {
+    return undefined;
+  }
+  if (typeof body === "string") {
+    return parseRecordingBodyJson(body);
+  }
+  return body;
+};
+
+// Compressed responses are recorded as a list of hex encoded chunks
+const isEncodedResponse = (
+  entry: RecordingEntry,
+  responseHeaders: { [headerName: string]: string }
+) => {
+  if (entry.responseIsBinary) {
+    return true;
+  }
+  const contentEncoding = Object.keys(responseHeaders).find(
+    (headerName) => headerName.toLowerCase() === "content-encoding"
+  );
+  return contentEncoding !== undefined && /gzip|deflate|br/i.test(responseHeaders[contentEncoding]);
+};
@@ -0,0 +1,85 @@
+import { basename } from "path";
+import { URL } from "url";
+import { HttpMethods } from "@azure/core-http";
+import { injectable } from "inversify";
+import { RequestTracking, SingleRequestTracking } from "./testScenarioGenerator";
+import { parseRecordingBodyJson, transformRecordingHeaders } from "./dotnetRecordingLoader";
+import { RecordingFormatLoader } from "./testRecordingLoader";
+
+interface RecordingFile {
+  Entries: RecordingEntry[];
+  Variables?: { [variableName: string]: string };
+}
+
+interface RecordingEntry {
+  RequestUri: string;
+  RequestMethod: HttpMethods;
+  RequestHeaders: { [headerName: string]: string | string[] };
+  RequestBody: unknown;
+  StatusCode: number;
+  ResponseHeaders: { [headerName: string]: string | string[] };
+  ResponseBody: unknown;
+}
+
+/**
+ * Loads the session recordings of the azure-sdk test-proxy
+ * https://github.com/Azure/azure-sdk-tools/tree/main/tools/test-proxy
+ * They look like .NET recordings but the headers are plain strings and the bodies are json values.
+ */
+@injectable()
+export class TestProxyRecordingLoader implements RecordingFormatLoader {
+  public readonly formatName = "test-proxy";
+
+  public canLoad(content: any): boolean {
+    if (!Array.isArray(content.Entries)) {
+      return false;
+    }
+    if (!("Names" in content)) {
+      return true;
+    }
+    return (content.Entries as RecordingEntry[]).some(
+      (entry) =>
+        Object.values(entry.RequestHeaders ?? {}).some((value) => !Array.isArray(value)) ||
+        (entry.ResponseBody !== null && typeof entry.ResponseBody === "object")
+    );
+  }
+
+  public async load([content, filePath]: [RecordingFile, string]): Promise<RequestTracking> {
+    const result: RequestTracking = {
+      requests: [],
+      description: basename(filePath).replace(/\.[^/.]+$/, ""),
+    };
+
+    for (const entry of content.Entries) {
+      const url = new URL(entry.RequestUri, "https://management.azure.com");
+      const query: { [key: string]: string } = {};
+      url.searchParams.forEach((val, key) => (query[key] = val));
+
+      const request: SingleRequestTracking = {
+        method: entry.RequestMethod,
+        path: url.pathname,
+        url: url.href,
+        headers: transformRecordingHeaders(entry.RequestHeaders),
+        query,
+        body: parseTestProxyBody(entry.RequestBody),
+        responseBody: parseTestProxyBody(entry.ResponseBody),
+        responseCode: entry.StatusCode,
+        responseHeaders: transformRecordingHeaders(entry.ResponseHeaders),
+      };
+
+      result.requests.push(request);
+    }
+
+    return result;
+  }
+}
+
+const parseTestProxyBody = (body: unknown) => {
+  if (body === null || body === undefined) {
+    return undefined;
+  }
+  if (typeof body === "string") {
+    return parseRecordingBodyJson(body);
+  }
+  return body;
+};
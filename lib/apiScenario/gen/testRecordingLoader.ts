@@ -4,31 +4,81 @@ import { FileLoader } from "../../swagger/fileLoader";
 import { Loader } from "../../swagger/loader";
 import { AzureCliRecordingLoader } from "./azureCliRecordingLoader";
 import { DotnetRecordingLoader } from "./dotnetRecordingLoader";
+import { HarRecordingLoader } from "./harRecordingLoader";
+import { NockRecordingLoader } from "./nockRecordingLoader";
+import { TestProxyRecordingLoader } from "./testProxyRecordingLoader";
 import { RequestTracking } from "./testScenarioGenerator";
 
+/**
+ * Loader of one recording format. The recording file is parsed as json or yaml before, and the
+ * first registered loader which accepts the parsed content loads it.
+ */
+export interface RecordingFormatLoader extends Loader<RequestTracking, [any, string]> {
+  readonly formatName: string;
+  canLoad(content: any, filePath: string): boolean;
+}
+
 @injectable()
 export class TestRecordingLoader implements Loader<RequestTracking> {
+  private formatLoaders: RecordingFormatLoader[];
+
   public constructor(
     private fileLoader: FileLoader,
-    private dotnetRecordingLoader: DotnetRecordingLoader,
-    private azureCliRecordingLoader: AzureCliRecordingLoader
-  ) {}
+    dotnetRecordingLoader: DotnetRecordingLoader,
+    azureCliRecordingLoader: AzureCliRecordingLoader,
+    testProxyRecordingLoader: TestProxyRecordingLoader,
+    nockRecordingLoader: NockRecordingLoader,
+    harRecordingLoader: HarRecordingLoader
+  ) {
+    // test-proxy recordings also have "Entries" so they need to be checked before .NET ones
+    this.formatLoaders = [
+      testProxyRecordingLoader,
+      dotnetRecordingLoader,
+      azureCliRecordingLoader,
+      nockRecordingLoader,
+      harRecordingLoader,
+    ];
+  }
+
+  /**
+   * Registers a custom recording format. It takes precedence over the built-in formats.
+   */
+  public register(formatLoader: RecordingFormatLoader) {
+    this.formatLoaders.unshift(formatLoader);
+  }
+
+  public getFormatNames(): string[] {
+    return this.formatLoaders.map((loader) => loader.formatName);
+  }
 
   public async load(filePath: string): Promise<RequestTracking> {
     const fileContent = await this.fileLoader.load(filePath);
-    const { content, isJson, isYaml } = this.detectFileType(fileContent, filePath);
-    if (isJson) {
-      if ("Entries" in content) {
-        return this.dotnetRecordingLoader.load([content, filePath]);
-      }
+    const { content } = this.detectFileType(fileContent, filePath);
+    const formatLoader = this.findFormatLoader(content, filePath);
+    if (formatLoader === undefined) {
+      throw new Error(`Unknown recording type for file: ${filePath}`);
     }
-    if (isYaml) {
-      if ("interactions" in content) {
-        return this.azureCliRecordingLoader.load([content, filePath]);
-      }
+    return formatLoader.load([content, filePath]);
+  }
+
+  /**
+   * Whether the file is a recording in any of the registered formats.
+   */
+  public async isRecording(filePath: string): Promise<boolean> {
+    try {
+      const fileContent = await this.fileLoader.load(filePath);
+      const { content } = this.detectFileType(fileContent, filePath);
+      return this.findFormatLoader(content, filePath) !== undefined;
+    } catch {
+      return false;
     }
+  }
 
-    throw new Error(`Unknown recording type for file: ${filePath}`);
+  private findFormatLoader(content: any, filePath: string) {
+    if (content === null || typeof content !== "object") {
+      return undefined;
+    }
+    return this.formatLoaders.find((loader) => loader.canLoad(content, filePath));
   }
 
   private detectFileType(fileContent: string, filePath: string) {
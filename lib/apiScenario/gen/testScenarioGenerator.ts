@@ -1,4 +1,5 @@
 import { join as pathJoin, relative as pathRelative, dirname } from "path";
+import { sortBy } from "lodash";
 import { default as jsonStringify } from "fast-json-stable-stringify";
 import { inject, injectable } from "inversify";
 import { HttpHeaders } from "@azure/core-http";
@@ -165,7 +166,7 @@ export class TestScenarioGenerator {
       lastUpdatedResource: "",
     };
 
-    const records = [...requestTracking.requests];
+    const records = sortByResponseDate(requestTracking.requests);
     let lastOperation: Operation | undefined = undefined;
     while (records.length > 0) {
       const record = records[0];
@@ -534,6 +535,16 @@ const unwantedParams = new Set(["resourceGroupName", "api-version", "subscriptio
 //   return response;
 // };
 
+/**
+ * Orders the calls by the Date header of their responses, since the entries of some recordings are
+ * not in the order they were sent. The recorded order is kept for the calls of the same Date, and
+ * for the whole recording if any Date is missing.
+ */
+const sortByResponseDate = (requests: SingleRequestTracking[]) =>
+  requests.every((it) => !isNaN(Date.parse(it.responseHeaders.Date)))
+    ? sortBy(requests, (it) => Date.parse(it.responseHeaders.Date))
+    : [...requests];
+
 const getParamValue = (record: SingleRequestTracking, param: Parameter) => {
   switch (param.in) {
     case "body":
@@ -25,6 +25,9 @@ export class JUnitReporter {
           } else if (sr.responseDiffResult && sr.responseDiffResult.length > 0) {
             const detail = generateJUnitCaseReport(sr);
             tc.failure(detail, "ValidationError").errorAttachment(sr.exampleFilePath);
+          } else if (sr.assertionResult && sr.assertionResult.length > 0) {
+            const detail = generateJUnitCaseReport(sr);
+            tc.failure(detail, "AssertionError").errorAttachment(sr.exampleFilePath);
           } else {
             tc.standardOutput("This step is completed successfully");
           }
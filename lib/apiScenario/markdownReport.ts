@@ -3,7 +3,13 @@ import path from "path";
 import Handlebars from "handlebars";
 import * as hd from "humanize-duration";
 import moment from "moment";
-import { ResponseDiffItem, RuntimeError, StepResult, TestScenarioResult } from "./reportGenerator";
+import {
+  ResponseAssertionItem,
+  ResponseDiffItem,
+  RuntimeError,
+  StepResult,
+  TestScenarioResult,
+} from "./reportGenerator";
 
 const spaceReg = /(\n|\t|\r)/gi;
 
@@ -93,6 +99,7 @@ interface TestScenarioMarkdownStepResult {
   warningErrorsCount: number;
   runtimeError?: RuntimeError[];
   responseDiffResult?: ResponseDiffItem[];
+  assertionResult?: ResponseAssertionItem[];
 }
 
 interface TestScenarioMarkdownResult {
@@ -136,7 +143,10 @@ const generateJUnitCaseReportView = compileHandlebarsTemplate<TestScenarioMarkdo
 );
 
 const stepIsFatal = (sr: StepResult) => sr.runtimeError && sr.runtimeError.length > 0;
-const stepIsFailed = (sr: StepResult) => sr.responseDiffResult && sr.responseDiffResult.length > 0;
+const failedErrorsCount = (sr: StepResult) =>
+  (sr.responseDiffResult ? sr.responseDiffResult.length : 0) +
+  (sr.assertionResult ? sr.assertionResult.length : 0);
+const stepIsFailed = (sr: StepResult) => failedErrorsCount(sr) > 0;
 
 const asMarkdownStepResult = (sr: StepResult): TestScenarioMarkdownStepResult => {
   let result: ResultState = "succeeded";
@@ -149,7 +159,7 @@ const asMarkdownStepResult = (sr: StepResult): TestScenarioMarkdownStepResult =>
   const r: TestScenarioMarkdownStepResult = {
     result,
     fatalErrorsCount: sr.runtimeError ? sr.runtimeError.length : 0,
-    failedErrorsCount: sr.responseDiffResult ? sr.responseDiffResult.length : 0,
+    failedErrorsCount: failedErrorsCount(sr),
     warningErrorsCount: 0,
     ...sr,
   };
@@ -160,9 +170,7 @@ const asMarkdownResult = (tsr: TestScenarioResult): TestScenarioMarkdownResult =
   const fatalCount = tsr.stepResult.filter(
     (sr) => sr.runtimeError && sr.runtimeError.length > 0
   ).length;
-  const errorCount = tsr.stepResult.filter(
-    (sr) => sr.responseDiffResult && sr.responseDiffResult.length > 0
-  ).length;
+  const errorCount = tsr.stepResult.filter(stepIsFailed).length;
   let resultState: ResultState = "succeeded";
   if (fatalCount > 0) {
     resultState = "fatal";
@@ -19,7 +19,7 @@ import {
 import { inject, injectable } from "inversify";
 import { JsonLoader, JsonLoaderOption } from "../swagger/jsonLoader";
 import { setDefaultOpts } from "../swagger/loader";
-import { printWarning } from "../util/utils";
+import { getPageableNames, printWarning } from "../util/utils";
 import { FileLoader } from "../swagger/fileLoader";
 import { inversifyGetInstance, TYPES } from "../inversifyUtils";
 import { ValidationLevel } from "./reportGenerator";
@@ -28,7 +28,13 @@ import { DataMasker } from "./dataMasker";
 import { NewmanReportAnalyzer, NewmanReportAnalyzerOption } from "./postmanReportAnalyzer";
 import { BlobUploader, BlobUploaderOption } from "./blobUploader";
 import { PostmanTestScript, TestScriptType } from "./postmanTestScript";
-import { ArmTemplate, StepArmTemplate, StepRestCall, ScenarioDefinition } from "./apiScenarioTypes";
+import {
+  ArmTemplate,
+  StepArmTemplate,
+  StepRawCall,
+  StepRestCall,
+  ScenarioDefinition,
+} from "./apiScenarioTypes";
 import {
   ArmDeploymentTracking,
   ApiScenarioClientRequest,
@@ -41,6 +47,8 @@ import {
   generatedGet,
   lroPollingUrl,
   generatedPostmanItem,
+  nextPage,
+  nextPageLink,
   defaultCollectionFileName,
   defaultEnvFileName,
   defaultNewmanReport,
@@ -208,14 +216,7 @@ export class PostmanCollectionRunnerClient implements ApiScenarioRunnerClient {
     this.auth(stepEnv.env);
     const pathEnv = new ReflectiveVariableEnv(":", "");
     const item = new Item();
-    if (!this.stepNameSet.has(step.step!)) {
-      item.name = step.step!;
-      this.stepNameSet.set(step.step, 0);
-    } else {
-      const cnt = this.stepNameSet.get(step.step!)! + 1;
-      item.name = `${step.step}_${cnt}`;
-      this.stepNameSet.set(step.step, cnt);
-    }
+    item.name = this.getItemName(step.step);
     item.request = new Request({
       name: step.exampleFilePath,
       method: step.operation._method as string,
@@ -267,23 +268,28 @@ export class PostmanCollectionRunnerClient implements ApiScenarioRunnerClient {
     item.request.addHeader(contentType);
     item.request.addHeader(authorizationHeader);
 
-    const getOverwriteVariables = () => {
-      if (step.outputVariables !== undefined && Object.keys(step.outputVariables).length > 0) {
-        const ret = new Map<string, string>();
-        for (const k of Object.keys(step.outputVariables)) {
-          ret.set(k, step.outputVariables[k].fromResponse);
-        }
-        return ret;
-      }
-      return undefined;
-    };
     for (const k of Object.keys(step.outputVariables)) {
       stepEnv.env.output(k, `{{${k}}}`);
     }
     const scriptTypes: TestScriptType[] = this.opts.verbose
       ? ["DetailResponseLog", "StatusCodeAssertion"]
       : ["StatusCodeAssertion"];
-    this.addTestScript(item, scriptTypes, getOverwriteVariables());
+    if (step.assertions.length > 0) {
+      scriptTypes.push("ResponseAssertion");
+    }
+    if (step.retry !== undefined) {
+      scriptTypes.push("Retry");
+      item.events.add(
+        new Event({
+          listen: "prerequest",
+          script: {
+            type: "text/javascript",
+            exec: this.postmanTestScript.generateRetryDelayScript(step.retry.delay!),
+          },
+        })
+      );
+    }
+    this.addTestScript(item, scriptTypes, this.getOverwriteVariables(step), undefined, step);
     item.request.url = new Url({
       path: pathEnv.resolveString(step.operation._path._pathTemplate, true),
       host: this.opts.baseUrl,
@@ -298,7 +304,7 @@ export class PostmanCollectionRunnerClient implements ApiScenarioRunnerClient {
         operationId: step.operation.operationId || "",
         exampleName: step.exampleFile!,
         itemName: item.name,
-        step: item.name,
+        step: step.step,
       });
       this.addAsLongRunningOperationItem(item);
     } else {
@@ -307,9 +313,12 @@ export class PostmanCollectionRunnerClient implements ApiScenarioRunnerClient {
         operationId: step.operation.operationId || "",
         exampleName: step.exampleFile!,
         itemName: item.name,
-        step: item.name,
+        step: step.step,
       });
       this.collection.items.add(item);
+      if (step.pageLimit !== undefined) {
+        this.addNextPageItem(item, step);
+      }
     }
     // generate get
     if (step.operation._method === "put" || step.operation._method === "delete") {
@@ -317,13 +326,112 @@ export class PostmanCollectionRunnerClient implements ApiScenarioRunnerClient {
         this.generatedGetOperationItem(
           item.name,
           item.request.url.toString(),
-          item.name,
+          step.step,
           step.operation._method
         )
       );
     }
   }
 
+  public async sendRawRequest(step: StepRawCall, stepEnv: StepEnv): Promise<void> {
+    this.auth(stepEnv.env);
+    const item = new Item();
+    item.name = this.getItemName(step.step);
+    const requestBody = stepEnv.env.resolveObjectValues(step.requestBody);
+    item.request = new Request({
+      method: step.method,
+      url: stepEnv.env.resolveString(step.rawUrl),
+      body: {
+        mode: "raw",
+        raw: typeof requestBody === "string" ? requestBody : JSON.stringify(requestBody, null, 2),
+      } as RequestBodyDefinition,
+    });
+    item.description = typeToDescription({
+      type: "raw-call",
+      itemName: item.name,
+      step: step.step,
+    });
+    for (const [key, value] of Object.entries(step.requestHeaders)) {
+      item.request.addHeader(new Header({ key, value: stepEnv.env.resolveString(value) }));
+    }
+    if (!item.request.headers.has("Authorization")) {
+      item.request.addHeader(new Header({ key: "Authorization", value: `Bearer {{bearerToken}}` }));
+    }
+
+    for (const k of Object.keys(step.outputVariables)) {
+      stepEnv.env.output(k, `{{${k}}}`);
+    }
+    const scriptTypes: TestScriptType[] = ["StatusCodeAssertion"];
+    if (step.assertions.length > 0) {
+      scriptTypes.push("ResponseAssertion");
+    }
+    this.addTestScript(item, scriptTypes, this.getOverwriteVariables(step), undefined, step);
+    this.collection.items.add(item);
+  }
+
+  private getOverwriteVariables(step: StepRestCall | StepRawCall) {
+    if (Object.keys(step.outputVariables).length > 0) {
+      const ret = new Map<string, string>();
+      for (const k of Object.keys(step.outputVariables)) {
+        ret.set(k, step.outputVariables[k].fromResponse);
+      }
+      return ret;
+    }
+    return undefined;
+  }
+
+  private getItemName(stepName: string) {
+    const count = this.stepNameSet.get(stepName);
+    this.stepNameSet.set(stepName, count === undefined ? 0 : count + 1);
+    return count === undefined ? stepName : `${stepName}_${count + 1}`;
+  }
+
+  private addNextPageItem(item: Item, step: StepRestCall) {
+    const nextLinkName = getPageableNames(step.operation)!.nextLinkName!;
+    this.collectionEnv.set(nextPageLink(item.name), "", "string");
+    const nextPageScript = this.postmanTestScript.generateNextPageScript(
+      item.name,
+      nextLinkName,
+      step.pageLimit!
+    );
+    item.events.add(
+      new Event({
+        listen: "test",
+        script: { type: "text/javascript", exec: nextPageScript },
+      })
+    );
+
+    const nextPageItem = new Item({
+      name: generatedPostmanItem(nextPage(item.name)),
+      request: {
+        url: `{{${nextPageLink(item.name)}}}`,
+        method: "get",
+      },
+    });
+    nextPageItem.description = typeToDescription({
+      type: "next-page",
+      page_item_name: item.name,
+      step: step.step,
+    });
+    this.addAuthorizationHeader(nextPageItem);
+    nextPageItem.events.add(
+      new Event({
+        listen: "prerequest",
+        script: {
+          type: "text/javascript",
+          exec: this.postmanTestScript.generateNextPagePrerequestScript(item.name),
+        },
+      })
+    );
+    nextPageItem.events.add(
+      new Event({
+        listen: "test",
+        script: { type: "text/javascript", exec: nextPageScript },
+      })
+    );
+    this.collection.items.add(nextPageItem);
+  }
+
   private addAsLongRunningOperationItem(item: Item, checkStatus: boolean = false) {
     this.collectionEnv.set(`${lroPollingUrl(item.name)}`, "<polling_url>", "string");
     const longRunningEvent = new Event({
@@ -346,7 +454,8 @@ export class PostmanCollectionRunnerClient implements ApiScenarioRunnerClient {
     item: Item,
     types: TestScriptType[] = ["StatusCodeAssertion"],
     overwriteVariables?: Map<string, string>,
-    armTemplate?: ArmTemplate
+    armTemplate?: ArmTemplate,
+    step?: StepRestCall | StepRawCall
   ) {
     if (this.opts.verbose) {
       types.push("DetailResponseLog");
@@ -368,6 +477,8 @@ export class PostmanCollectionRunnerClient implements ApiScenarioRunnerClient {
           types: types,
           variables: overwriteVariables,
           armTemplate,
+          assertions: step?.assertions,
+          step,
         }),
       },
     });
@@ -382,8 +493,8 @@ export class PostmanCollectionRunnerClient implements ApiScenarioRunnerClient {
   ): Promise<void> {
     this.auth(stepEnv.env);
     const item = new Item();
-    item.name = step.step;
-    const path = `/subscriptions/:subscriptionId/resourcegroups/:resourceGroupName/providers/Microsoft.Resources/deployments/${step.step}?api-version=2020-06-01`;
+    item.name = this.getItemName(step.step);
+    const path = `/subscriptions/:subscriptionId/resourcegroups/:resourceGroupName/providers/Microsoft.Resources/deployments/${item.name}?api-version=2020-06-01`;
 
     const subscriptionIdValue = covertToPostmanVariable(stepEnv.env.get("subscriptionId") || "");
     const resourceGroupNameValue = covertToPostmanVariable(
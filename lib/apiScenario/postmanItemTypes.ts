@@ -1,4 +1,12 @@
-export type PostmanItemType = Simple | LRO | Prepare | GeneratedGet | Mock | Poller;
+export type PostmanItemType =
+  | Simple
+  | LRO
+  | RawCall
+  | Prepare
+  | GeneratedGet
+  | Mock
+  | Poller
+  | NextPage;
 
 interface Basic {
   operationId: string;
@@ -18,6 +26,12 @@ type LRO = {
   exampleName: string;
 } & Basic;
 
+interface RawCall {
+  type: "raw-call";
+  itemName: string;
+  step: string;
+}
+
 interface Prepare {
   type: "prepare";
 }
@@ -38,6 +52,12 @@ interface Poller {
   lro_item_name: string;
 }
 
+interface NextPage {
+  type: "next-page";
+  page_item_name: string;
+  step: string;
+}
+
 export const typeToDescription = (itemType: PostmanItemType) => {
   return JSON.stringify(itemType);
 };
@@ -1,4 +1,6 @@
-import { ArmTemplate } from "./apiScenarioTypes";
+import { ArmTemplate, ResponseAssertion, StepRestCall } from "./apiScenarioTypes";
+import { nextPage, nextPageLink } from "./defaultNaming";
+import { toAssertionPathArray } from "./responseAssertion";
 
 interface ScriptTemplate {
   text: string;
@@ -51,15 +53,122 @@ const GetObjectValueByJsonPointer: ScriptTemplate = {
   `,
 };
 
+const ResponseAssertionHelper: ScriptTemplate = {
+  text: `
+  const selectByPathArray = (json, pathArray) => {
+    const descendants = (value, ret) => {
+      ret.push(value);
+      if (typeof value === "object" && value !== null) {
+        Object.values(value).forEach((it) => descendants(it, ret));
+      }
+      return ret;
+    };
+    let values = json === undefined ? [] : [json];
+    for (const token of pathArray) {
+      const key = token.replace(/^(['"])(.*)\\1$/, "$2");
+      const next = [];
+      for (const value of values) {
+        if (typeof value !== "object" || value === null) {
+          continue;
+        }
+        if (token === "..") {
+          next.push(...descendants(value, []));
+        } else if (token === "*") {
+          next.push(...Object.values(value));
+        } else if (key in value) {
+          next.push(value[key]);
+        }
+      }
+      values = next;
+    }
+    return values;
+  };
+
+  const resolveVariables = (value) => {
+    if (typeof value === "string") {
+      return value.replace(/\\$\\(([^)]+)\\)/g, (m, name) => (pm.variables.has(name) ? pm.variables.get(name) : m));
+    }
+    if (typeof value === "object" && value !== null) {
+      const ret = Array.isArray(value) ? [] : {};
+      Object.keys(value).forEach((key) => {
+        ret[key] = resolveVariables(value[key]);
+      });
+      return ret;
+    }
+    return value;
+  };
+
+  const checkResponseAssertion = (rawAssertion, pathArray) => {
+    const assertion = resolveVariables(rawAssertion);
+    let values;
+    if (assertion.header !== undefined) {
+      values = pm.response.headers.has(assertion.header) ? [pm.response.headers.get(assertion.header)] : [];
+    } else {
+      let json;
+      try {
+        json = pm.response.json();
+      } catch (e) {
+        json = undefined;
+      }
+      values = selectByPathArray(json, pathArray);
+    }
+    const exists = values.length > 0;
+    const actual = values.length === 1 ? values[0] : exists ? values : undefined;
+    const target = assertion.header !== undefined ? "header " + assertion.header : assertion.jsonPath;
+    const failures = [];
+    const check = (ok, description) => {
+      if (!ok) {
+        failures.push(description);
+      }
+    };
+    const isNumber = typeof actual === "number";
+    if (assertion.exists !== undefined) {
+      check(exists === assertion.exists, "exists " + assertion.exists);
+    }
+    if ("equals" in assertion) {
+      check(exists && require("lodash").isEqual(actual, assertion.equals), "equals " + JSON.stringify(assertion.equals));
+    }
+    if (assertion.matches !== undefined) {
+      check(exists && new RegExp(assertion.matches).test(String(actual)), "matches /" + assertion.matches + "/");
+    }
+    if (assertion.greaterThan !== undefined) {
+      check(isNumber && actual > assertion.greaterThan, "greaterThan " + assertion.greaterThan);
+    }
+    if (assertion.greaterThanOrEqual !== undefined) {
+      check(isNumber && actual >= assertion.greaterThanOrEqual, "greaterThanOrEqual " + assertion.greaterThanOrEqual);
+    }
+    if (assertion.lessThan !== undefined) {
+      check(isNumber && actual < assertion.lessThan, "lessThan " + assertion.lessThan);
+    }
+    if (assertion.lessThanOrEqual !== undefined) {
+      check(isNumber && actual <= assertion.lessThanOrEqual, "lessThanOrEqual " + assertion.lessThanOrEqual);
+    }
+    return { target, actual, failures };
+  };
+
+  const assertResponse = (assertion, pathArray) => {
+    const result = checkResponseAssertion(assertion, pathArray);
+    if (result.failures.length > 0) {
+      pm.expect.fail("The response assertion failed. Path: " + result.target + ". Expected: " + result.failures.join(", ") + ". Actual: " + JSON.stringify(result.actual));
+    }
+  };
+
+  `,
+};
+
 interface TestScriptParameter {
   name: string;
   types: TestScriptType[];
   variables?: Map<string, string>;
   armTemplate?: ArmTemplate;
+  assertions?: ResponseAssertion[];
+  step?: Pick<StepRestCall, "retry" | "statusCode">;
 }
 
 export type TestScriptType =
   | "StatusCodeAssertion"
+  | "Retry"
+  | "ResponseAssertion"
   | "ResponseDataAssertion"
   | "DetailResponseLog"
   | "OverwriteVariables"
@@ -77,9 +186,18 @@ export class PostmanTestScript {
     if (parameter.types.includes("DetailResponseLog")) {
       ret += DetailResponseLog.text;
     }
+    if (parameter.types.includes("Retry") || parameter.types.includes("ResponseAssertion")) {
+      ret += ResponseAssertionHelper.text;
+    }
+    if (parameter.types.includes("Retry")) {
+      ret += this.generateRetryScript(parameter.step!, parameter.assertions ?? []);
+    }
     if (parameter.types.includes("StatusCodeAssertion")) {
       ret += StatusCodeAssertion.text;
     }
+    if (parameter.types.includes("ResponseAssertion")) {
+      ret += this.generateResponseAssertionScript(parameter.assertions!);
+    }
     if (parameter.types.includes("OverwriteVariables")) {
       ret += this.generateOverWriteVariablesScript(parameter.variables!);
     }
@@ -100,6 +218,105 @@ export class PostmanTestScript {
     return ret;
   }
 
+  /**
+   * Waits before the request is resent by the test script of Retry type.
+   */
+  public generateRetryDelayScript(delaySeconds: number): string {
+    return `if (Number(pm.environment.get(pm.info.requestName + "_retry") || 0) > 0) {
+      setTimeout(() => {}, ${delaySeconds * 1000});
+    }`;
+  }
+
+  /**
+   * Saves the next link to get by the next page item of the page item, until pageLimit pages are
+   * got. The next page item gets the following pages by setting itself as the next request.
+   */
+  public generateNextPageScript(
+    pageItemName: string,
+    nextLinkName: string,
+    pageLimit: number
+  ): string {
+    const linkKey = nextPageLink(pageItemName);
+    return `(function() {
+  const isFirstPage = pm.info.requestName === ${JSON.stringify(pageItemName)};
+  if (!isFirstPage && !pm.environment.get("${linkKey}")) {
+    return;
+  }
+  const pageCount = isFirstPage ? 1 : Number(pm.environment.get("${linkKey}_count")) + 1;
+  let nextLink;
+  try {
+    nextLink = pm.response.json()[${JSON.stringify(nextLinkName)}];
+  } catch (err) {}
+  if (nextLink && pageCount < ${pageLimit}) {
+    pm.environment.set("${linkKey}", nextLink);
+    pm.environment.set("${linkKey}_count", pageCount);
+    if (!isFirstPage) {
+      postman.setNextRequest(pm.info.requestName);
+    }
+  } else {
+    pm.environment.set("${linkKey}", "");
+  }
+})();`;
+  }
+
+  /**
+   * Sends the next page item of the page item to the echo service, if there is no next page.
+   */
+  public generateNextPagePrerequestScript(pageItemName: string): string {
+    return `if (!pm.environment.get("${nextPageLink(pageItemName)}")) {
+  console.log("No next page of ${nextPage(pageItemName)}");
+  pm.request.headers.remove("Authorization");
+  pm.request.url.update("https://postman-echo.com/get");
+}`;
+  }
+
+  // Resends the request by setting itself as the next request, and skips the rest of the test.
+  private generateRetryScript(
+    step: Pick<StepRestCall, "retry" | "statusCode">,
+    assertions: ResponseAssertion[]
+  ): string {
+    const retry = {
+      count: step.retry!.count,
+      statusCodes: step.retry!.statusCodes,
+      statusCode: step.statusCode,
+    };
+    const assertionArgs = assertions.map((it) => [it, this.toPathArray(it)]);
+    return `
+  const retry = ${JSON.stringify(retry)};
+  const retryKey = pm.info.requestName + "_retry";
+  const retryAttempt = Number(pm.environment.get(retryKey) || 0);
+  const retryOnStatusCode = retry.statusCodes !== undefined
+    ? retry.statusCodes.indexOf(pm.response.code) !== -1
+    : Math.floor(pm.response.code / 200) !== 1 && pm.response.code !== retry.statusCode;
+  const retryOnAssertion = ${JSON.stringify(assertionArgs)}.some(
+    (it) => checkResponseAssertion(it[0], it[1]).failures.length > 0
+  );
+  if (retryAttempt < retry.count && (retryOnStatusCode || retryOnAssertion)) {
+    console.log("Retry " + (retryAttempt + 1) + "/" + retry.count + " of " + pm.info.requestName);
+    pm.environment.set(retryKey, retryAttempt + 1);
+    postman.setNextRequest(pm.info.requestName);
+    return;
+  }
+  pm.environment.unset(retryKey);
+  `;
+  }
+
+  private generateResponseAssertionScript(assertions: ResponseAssertion[]): string {
+    let ret = "";
+    for (const assertion of assertions) {
+      ret += `assertResponse(${JSON.stringify(assertion)}, ${JSON.stringify(
+        this.toPathArray(assertion)
+      )});`;
+    }
+    return ret;
+  }
+
+  // The script walks names, indexes, "*" and ".." of the JSONPath, the only tokens accepted by the
+  // loader of API scenarios.
+  private toPathArray(assertion: ResponseAssertion): string[] {
+    return assertion.jsonPath !== undefined ? toAssertionPathArray(assertion.jsonPath) : [];
+  }
+
   private generateARMTemplateOutputScript(armTemplate: ArmTemplate): string {
     let ret = "";
     for (const key of Object.keys(armTemplate.outputs || {})) {
@@ -9,7 +9,8 @@ import {
   getApiVersionFromSwaggerFile,
   getProviderFromFilePath,
 } from "../util/utils";
-import { SeverityString } from "../util/severity";
+import { SeverityString, severityStringFromValue } from "../util/severity";
+import { getOavErrorDefinition } from "../util/errorDefinitions";
 import { FileLoader } from "../swagger/fileLoader";
 import { TYPES } from "../inversifyUtils";
 import { SwaggerExample } from "../swagger/swaggerTypes";
@@ -23,6 +24,7 @@ import {
   RawExecution,
   ScenarioDefinition,
   Step,
+  StepRawCall,
   StepRestCall,
 } from "./apiScenarioTypes";
 import { VariableEnv } from "./variableEnv";
@@ -30,6 +32,8 @@ import { getJsonPatchDiff } from "./diffUtils";
 import { BlobUploader, BlobUploaderOption } from "./blobUploader";
 import { generateMarkdownReport } from "./markdownReport";
 import { JUnitReporter } from "./junitReport";
+import { evaluateResponseAssertion } from "./responseAssertion";
+import { ResourceCall, ResourceLifecycleAnalyzer } from "./resourceLifecycleAnalyzer";
 
 interface GeneratedExample {
   exampleFilePath: string;
@@ -69,6 +73,7 @@ export interface StepResult {
   operationId: string;
   runtimeError?: RuntimeError[];
   responseDiffResult?: ResponseDiffItem[];
+  assertionResult?: ResponseAssertionItem[];
   liveValidationResult?: any;
   stepValidationResult?: any;
   correlationId?: string;
@@ -90,6 +95,10 @@ export interface ResponseDiffItem {
   detail: string;
 }
 
+export interface ResponseAssertionItem extends ResponseDiffItem {
+  actual: any;
+}
+
 export type ValidationLevel = "validate-request" | "validate-request-response";
 
 export interface ReportGeneratorOption
@@ -124,7 +133,8 @@ export class ReportGenerator {
     private blobUploader: BlobUploader,
     private dataMasker: DataMasker,
     private swaggerAnalyzer: SwaggerAnalyzer,
-    private junitReporter: JUnitReporter
+    private junitReporter: JUnitReporter,
+    private resourceLifecycleAnalyzer: ResourceLifecycleAnalyzer
   ) {
     setDefaultOpts(this.opts, {
       newmanReportFilePath: "",
@@ -162,23 +172,31 @@ export class ReportGenerator {
     this.testDefFile = undefined;
   }
 
-  public async initialize() {
-    this.rawReport = await this.postmanReportParser.generateRawReport(
-      this.opts.newmanReportFilePath
-    );
+  /**
+   * Uses the given raw report, e.g. recorded by ApiScenarioRestClient, or parses the newman report.
+   */
+  public async initialize(rawReport?: RawReport) {
+    this.rawReport =
+      rawReport ??
+      (await this.postmanReportParser.generateRawReport(this.opts.newmanReportFilePath));
   }
 
   public async generateTestScenarioResult(rawReport: RawReport) {
-    await this.initialize();
+    await this.initialize(rawReport);
     const variables = rawReport.variables;
     this.swaggerExampleQualityResult.startTime = new Date(rawReport.timings.started).toISOString();
     this.swaggerExampleQualityResult.endTime = new Date(rawReport.timings.completed).toISOString();
     this.swaggerExampleQualityResult.subscriptionId = variables.subscriptionId;
-    for (const it of rawReport.executions) {
+    const resourceCalls: ResourceCall[] = [];
+    for (const [idx, it] of rawReport.executions.entries()) {
       if (it.annotation === undefined) {
         continue;
       }
       if (it.annotation.type === "simple" || it.annotation.type === "LRO") {
+        // Only the last attempt of a retried step is reported.
+        if (this.isRetried(it, rawReport.executions.slice(idx + 1))) {
+          continue;
+        }
         const runtimeError = [];
         const generatedExample = this.generateExample(it, variables, rawReport);
         const matchedStep = this.getMatchedStep(it.annotation.step) as StepRestCall;
@@ -191,6 +209,15 @@ export class ReportGenerator {
         if (matchedStep === undefined) {
           continue;
         }
+        resourceCalls.push({
+          source: it.annotation.step,
+          url: it.request.url,
+          method: it.request.method,
+          statusCode: it.response.statusCode,
+          requestBody: generatedExample.example.parameters.parameters,
+          responseBody: generatedExample.example.responses[it.response.statusCode]?.body,
+          operation: matchedStep.operation,
+        });
         // validate real payload.
         const roundtripErrors = (
           await this.exampleQualityValidator.validateExternalExamples([
@@ -206,19 +233,71 @@ export class ReportGenerator {
           this.opts.validationLevel === "validate-request-response"
             ? await this.exampleResponseDiff(generatedExample, matchedStep)
             : [];
+        const assertionResult = this.responseAssertion(it, matchedStep);
         this.swaggerExampleQualityResult.stepResult.push({
           exampleFilePath: generatedExample.exampleFilePath,
           operationId: it.annotation.operationId,
           runtimeError,
           responseDiffResult: responseDiffResult,
+          assertionResult,
           stepValidationResult: roundtripErrors,
           correlationId: correlationId,
           statusCode: it.response.statusCode,
           stepName: it.annotation.step,
         });
         this.recording.set(correlationId, it);
+      } else if (it.annotation.type === "raw-call") {
+        const matchedStep = this.getMatchedStep(it.annotation.step);
+        if (matchedStep?.type !== "rawCall") {
+          continue;
+        }
+        const runtimeError = [];
+        if (
+          Math.floor(it.response.statusCode / 200) !== 1 &&
+          it.response.statusCode !== matchedStep.statusCode
+        ) {
+          runtimeError.push(this.getRuntimeError(it));
+        }
+        // Raw calls are not bound to any operation, so only the assertions are checked.
+        const correlationId = it.response.headers["x-ms-correlation-request-id"];
+        this.swaggerExampleQualityResult.stepResult.push({
+          operationId: "",
+          runtimeError,
+          responseDiffResult: [],
+          assertionResult: this.responseAssertion(it, matchedStep),
+          stepValidationResult: [],
+          correlationId: correlationId,
+          statusCode: it.response.statusCode,
+          stepName: it.annotation.step,
+        });
+        this.recording.set(correlationId, it);
       }
     }
+    await this.addResourceLifecycleResult(resourceCalls);
+  }
+
+  /**
+   * The issues across the steps of a resource are reported with the GET step.
+   */
+  private async addResourceLifecycleResult(resourceCalls: ResourceCall[]) {
+    for (const issue of await this.resourceLifecycleAnalyzer.analyze(resourceCalls)) {
+      const stepResult = _.findLast(
+        this.swaggerExampleQualityResult.stepResult,
+        (it) => it.stepName === _.last(issue.sources)
+      );
+      const pointer = issue.error.pathsInPayload[0] ?? "";
+      stepResult?.stepValidationResult.push({
+        id: getOavErrorDefinition(issue.error.code)?.id,
+        severity: severityStringFromValue(issue.error.severity),
+        code: issue.error.code,
+        jsonPath: `/${stepResult.statusCode}/body${pointer}`,
+        message: issue.error.message,
+        detail: this.dataMasker.jsonStringify({
+          resourceId: issue.resourceId,
+          steps: issue.sources,
+        }),
+      });
+    }
   }
 
   public async generateExampleQualityReport() {
@@ -345,6 +424,33 @@ export class ReportGenerator {
     return res;
   }
 
+  private responseAssertion(
+    it: RawExecution,
+    matchedStep: StepRestCall | StepRawCall
+  ): ResponseAssertionItem[] {
+    const env = new VariableEnv();
+    env.setBatch(this.rawReport!.variables);
+    return (matchedStep.assertions ?? [])
+      .map((assertion) =>
+        evaluateResponseAssertion(env.resolveObjectValues(assertion), it.response)
+      )
+      .filter((result) => result.failures.length > 0)
+      .map((result) => {
+        const actual =
+          result.actual === undefined ? "undefined" : this.dataMasker.jsonStringify(result.actual);
+        return {
+          code: "RESPONSE_ASSERTION_FAILED",
+          jsonPath: result.target,
+          severity: "Error",
+          message: `The response assertion failed. Path: ${
+            result.target
+          }. Expected: ${result.failures.join(", ")}. Actual: ${actual}`,
+          detail: this.dataMasker.jsonStringify(result.assertion),
+          actual: result.actual,
+        };
+      });
+  }
+
   private async responseDiff(
     resp: any,
     expectedResp: any,
@@ -447,6 +553,14 @@ export class ReportGenerator {
     }
     return undefined;
   }
+  private isRetried(it: RawExecution, laterExecutions: RawExecution[]) {
+    return laterExecutions.some(
+      (execution) =>
+        execution.annotation?.type === it.annotation.type &&
+        execution.annotation?.itemName === it.annotation.itemName
+    );
+  }
+
   private findGeneratedGetExecution(it: RawExecution, rawReport: RawReport) {
     if (it.annotation.type === "LRO") {
       const finalGet = rawReport.executions.filter(
@@ -473,11 +587,11 @@ export class ReportGenerator {
     return ret;
   }
 
-  public async generateReport() {
+  public async generateReport(rawReport?: RawReport) {
     if (this.opts.testDefFilePath !== undefined) {
       this.testDefFile = await this.testResourceLoader.load(this.opts.testDefFilePath);
     }
-    await this.initialize();
+    await this.initialize(rawReport);
     await this.generateTestScenarioResult(this.rawReport!);
     await this.generateExampleQualityReport();
     await this.generateMarkdownQualityReport();
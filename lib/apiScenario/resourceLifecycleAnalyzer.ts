@@ -0,0 +1,187 @@
+import { URL } from "url";
+import { HttpMethods } from "@azure/core-http";
+import { injectable } from "inversify";
+import * as jsonPointer from "json-pointer";
+import { LiveValidationIssue } from "../liveValidation/liveValidator";
+import { issueFromErrorCode } from "../liveValidation/operationValidator";
+import { JsonLoader } from "../swagger/jsonLoader";
+import { Operation } from "../swagger/swaggerTypes";
+import { JsonPatchOpReplace } from "./apiScenarioTypes";
+import { ArmUrlParser } from "./armUrlParser";
+import { BodyTransformer } from "./bodyTransformer";
+import { getJsonPatchDiff } from "./diffUtils";
+
+export interface ResourceCall {
+  // Where the call is recorded, e.g. the payload file path or the step name
+  source: string;
+  url: string;
+  method: string;
+  statusCode: number;
+  requestBody?: any;
+  responseBody?: any;
+  operation?: Operation;
+}
+
+export interface ResourceLifecycleIssue {
+  resourceId: string;
+  // The sources of the calls which the issue is found across, the last one is the GET call
+  sources: string[];
+  error: LiveValidationIssue;
+}
+
+interface ResourceState {
+  put?: ResourceCall;
+  delete?: ResourceCall;
+}
+
+/**
+ * Follows the ARM resources through the recorded calls, in the order of the calls, to find the
+ * issues which no single call tells: the GET after a PUT should return what is set by the PUT,
+ * and the GET after a successful DELETE should not find the resource.
+ */
+@injectable()
+export class ResourceLifecycleAnalyzer {
+  public constructor(
+    private jsonLoader: JsonLoader,
+    private armUrlParser: ArmUrlParser,
+    private bodyTransformer: BodyTransformer
+  ) {}
+
+  public async analyze(calls: ResourceCall[]): Promise<ResourceLifecycleIssue[]> {
+    const result: ResourceLifecycleIssue[] = [];
+    const states = new Map<string, ResourceState>();
+    for (const call of calls) {
+      const resourceId = this.getResourceId(call);
+      if (resourceId === undefined) {
+        continue;
+      }
+      let state = states.get(resourceId);
+      if (state === undefined) {
+        state = {};
+        states.set(resourceId, state);
+      }
+      const succeeded = call.statusCode >= 200 && call.statusCode < 300;
+      switch (call.method.toUpperCase()) {
+        case "PUT":
+          if (succeeded) {
+            state.put = call;
+            state.delete = undefined;
+          }
+          break;
+        case "PATCH":
+          // The PUT request is not the whole state of the resource any more
+          if (succeeded) {
+            state.put = undefined;
+          }
+          break;
+        case "DELETE":
+          if (succeeded) {
+            state.put = undefined;
+            state.delete = call;
+          }
+          break;
+        case "GET":
+          if (call.statusCode !== 200) {
+            break;
+          }
+          if (state.delete !== undefined) {
+            if (!isDeleting(call.responseBody)) {
+              result.push({
+                resourceId,
+                sources: [state.delete.source, call.source],
+                error: issueFromErrorCode(
+                  "RESOURCE_EXISTS_AFTER_DELETE",
+                  { resourceId },
+                  call.operation?.responses
+                ),
+              });
+            }
+            state.delete = undefined;
+          } else if (state.put !== undefined) {
+            result.push(...(await this.getRoundtripIssues(resourceId, state.put, call)));
+            state.put = undefined;
+          }
+          break;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * The read-only properties returned by GET are removed before it is compared with the PUT
+   * request, only the properties of different values are reported.
+   */
+  private async getRoundtripIssues(
+    resourceId: string,
+    put: ResourceCall,
+    get: ResourceCall
+  ): Promise<ResourceLifecycleIssue[]> {
+    const schema = get.operation?.responses["200"]?.schema;
+    if (schema === undefined || !isObject(put.requestBody) || !isObject(get.responseBody)) {
+      return [];
+    }
+    const resource = await this.bodyTransformer.resourceToRequest(
+      get.responseBody,
+      this.jsonLoader.resolveRefObj(schema)
+    );
+    return getJsonPatchDiff(put.requestBody, resource, {
+      includeOldValue: true,
+      minimizeDiff: false,
+    })
+      .filter((it): it is JsonPatchOpReplace => "replace" in it)
+      .map((it) => {
+        const jsonPath = pointerToJsonPath(it.replace);
+        return {
+          resourceId,
+          sources: [put.source, get.source],
+          error: {
+            ...issueFromErrorCode(
+              "ROUNDTRIP_INCONSISTENT_PROPERTY",
+              {
+                path: jsonPath,
+                oldValue: JSON.stringify(it.oldValue),
+                value: JSON.stringify(it.value),
+              },
+              get.operation!.responses
+            ),
+            jsonPathsInPayload: [jsonPath],
+            pathsInPayload: [it.replace],
+          },
+        };
+      });
+  }
+
+  /**
+   * The resource id is the lower cased path of the resource, or undefined for the calls on a
+   * collection or action.
+   */
+  private getResourceId(call: ResourceCall): string | undefined {
+    const method = call.method.toUpperCase();
+    if (!["PUT", "PATCH", "DELETE", "GET"].includes(method)) {
+      return undefined;
+    }
+    try {
+      const path = decodeURIComponent(new URL(call.url).pathname);
+      const armInfo = this.armUrlParser.parseArmApiInfo(path, method as HttpMethods);
+      if (armInfo.methodType === "GetCollection") {
+        return undefined;
+      }
+      return armInfo.resourceUri.replace(/\/+$/, "").toLowerCase();
+    } catch (e) {
+      return undefined;
+    }
+  }
+}
+
+const isObject = (value: any) => typeof value === "object" && value !== null;
+
+// The resource could still be returned while it's being deleted
+const isDeleting = (body: any) =>
+  isObject(body) && body.properties?.provisioningState?.toLowerCase?.() === "deleting";
+
+const pointerToJsonPath = (pointer: string) =>
+  "$" +
+  jsonPointer
+    .parse(pointer)
+    .map((key) => (/^\d+$/.test(key) ? `[${key}]` : `.${key}`))
+    .join("");
@@ -0,0 +1,106 @@
+import * as _ from "lodash";
+import { JSONPath } from "jsonpath-plus";
+import { jsonPathToArray } from "../util/jsonUtils";
+import { RawResponse, ResponseAssertion } from "./apiScenarioTypes";
+
+export interface ResponseAssertionResult {
+  assertion: ResponseAssertion;
+  target: string;
+  exists: boolean;
+  actual: any;
+  // The failed comparisons, e.g. 'equals "Succeeded"'. Empty if the assertion holds.
+  failures: string[];
+}
+
+/**
+ * Splits the JSONPath of an assertion into names, indexes, "*" and "..", the tokens the postman
+ * test script could walk. Filters, script expressions, slices and unions are rejected, so the
+ * assertion is evaluated the same by the test script and by jsonpath-plus in the report.
+ */
+export const toAssertionPathArray = (jsonPath: string): string[] => {
+  const pathArray = jsonPathToArray(jsonPath);
+  for (const token of pathArray) {
+    const isQuoted = /^(['"]).*\1$/.test(token);
+    if (/^[?(@^~]/.test(token) || /^-?\d*:/.test(token) || (!isQuoted && token.includes(","))) {
+      throw new Error(`Unsupported JSONPath token ${token} in response assertion: ${jsonPath}`);
+    }
+  }
+  return pathArray[0] === "$" ? pathArray.slice(1) : pathArray;
+};
+
+export const getAssertionTarget = (assertion: ResponseAssertion): string =>
+  assertion.header !== undefined ? `header ${assertion.header}` : assertion.jsonPath!;
+
+/**
+ * Selects the values of the assertion target. Header names are case insensitive. A JSONPath
+ * which selects a single value is compared with that value, otherwise with the array of values.
+ */
+const selectValues = (assertion: ResponseAssertion, response: RawResponse): any[] => {
+  if (assertion.header !== undefined) {
+    const name = Object.keys(response.headers ?? {}).find(
+      (it) => it.toLowerCase() === assertion.header!.toLowerCase()
+    );
+    return name === undefined ? [] : [response.headers[name]];
+  }
+  let body: any;
+  try {
+    body = typeof response.body === "string" ? JSON.parse(response.body) : response.body;
+  } catch (e) {
+    return [];
+  }
+  if (body === undefined) {
+    return [];
+  }
+  return JSONPath({ path: assertion.jsonPath!, json: body, wrap: true });
+};
+
+export const evaluateResponseAssertion = (
+  assertion: ResponseAssertion,
+  response: RawResponse
+): ResponseAssertionResult => {
+  const values = selectValues(assertion, response);
+  const exists = values.length > 0;
+  const actual = values.length === 1 ? values[0] : exists ? values : undefined;
+  const failures: string[] = [];
+  const check = (ok: boolean, description: string) => {
+    if (!ok) {
+      failures.push(description);
+    }
+  };
+  const isNumber = typeof actual === "number";
+
+  if (assertion.exists !== undefined) {
+    check(exists === assertion.exists, `exists ${assertion.exists}`);
+  }
+  if ("equals" in assertion) {
+    check(
+      exists && _.isEqual(actual, assertion.equals),
+      `equals ${JSON.stringify(assertion.equals)}`
+    );
+  }
+  if (assertion.matches !== undefined) {
+    check(
+      exists && new RegExp(assertion.matches).test(String(actual)),
+      `matches /${assertion.matches}/`
+    );
+  }
+  if (assertion.greaterThan !== undefined) {
+    check(isNumber && actual > assertion.greaterThan, `greaterThan ${assertion.greaterThan}`);
+  }
+  if (assertion.greaterThanOrEqual !== undefined) {
+    check(
+      isNumber && actual >= assertion.greaterThanOrEqual,
+      `greaterThanOrEqual ${assertion.greaterThanOrEqual}`
+    );
+  }
+  if (assertion.lessThan !== undefined) {
+    check(isNumber && actual < assertion.lessThan, `lessThan ${assertion.lessThan}`);
+  }
+  if (assertion.lessThanOrEqual !== undefined) {
+    check(
+      isNumber && actual <= assertion.lessThanOrEqual,
+      `lessThanOrEqual ${assertion.lessThanOrEqual}`
+    );
+  }
+  return { assertion, target: getAssertionTarget(assertion), exists, actual, failures };
+};
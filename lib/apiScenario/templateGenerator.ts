@@ -2,7 +2,7 @@ import { escapeRegExp } from "lodash";
 import { injectable } from "inversify";
 import { cloneDeep } from "@azure-tools/openapi-tools-common";
 import { JsonLoader } from "../swagger/jsonLoader";
-import { ArmTemplate, StepRestCall, StepArmTemplate } from "./apiScenarioTypes";
+import { ArmTemplate, StepRestCall, StepArmTemplate, StepRawCall } from "./apiScenarioTypes";
 import { VariableEnv } from "./variableEnv";
 import {
   ApiScenarioRunnerClient,
@@ -40,6 +40,12 @@ export class TemplateGenerator implements ApiScenarioRunnerClient {
     }
   }
 
+  public async sendRawRequest(step: StepRawCall, stepEnv: StepEnv): Promise<void> {
+    for (const variableName of Object.keys(step.outputVariables)) {
+      stepEnv.env.output(variableName, `$(${variableName})`);
+    }
+  }
+
   public async sendArmTemplateDeployment(
     _armTemplate: ArmTemplate,
     _armDeployment: ArmDeploymentTracking,
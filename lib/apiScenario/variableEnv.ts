@@ -70,6 +70,20 @@ export class VariableEnv {
     }
   }
 
+  /**
+   * Values of all the variables, including the ones inherited from the base env.
+   */
+  public toObject(): { [key: string]: string } {
+    const result: { [key: string]: string } = { ...this.baseEnv?.toObject() };
+    for (const key of Object.keys(this.data)) {
+      const val = this.get(key);
+      if (val !== undefined) {
+        result[key] = val;
+      }
+    }
+    return result;
+  }
+
   public resolve() {
     for (const key of Object.keys(this.data)) {
       this.set(key, this.getRequired(key));
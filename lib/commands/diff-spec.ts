@@ -0,0 +1,45 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as fs from "fs-extra";
+import * as yargs from "yargs";
+
+import { cliSuppressExceptions } from "../cliSuppressExceptions";
+import { diffSpecs, formatSpecDiffAsMarkdown, hasBreakingChanges } from "../specDiff/specDiff";
+import { log } from "../util/logging";
+
+export const command = "diff-spec <old-spec-path> <new-spec-path>";
+
+export const describe =
+  "Compares two versions of a swagger spec and reports the breaking and non-breaking changes.";
+
+export const builder: yargs.CommandBuilder = {
+  format: {
+    describe: "Output format of the changes.",
+    choices: ["json", "markdown"],
+    default: "json",
+  },
+  output: {
+    alias: "o",
+    describe: "File to write the changes to, instead of the console.",
+    string: true,
+  },
+};
+
+export async function handler(argv: yargs.Arguments): Promise<void> {
+  await cliSuppressExceptions(async () => {
+    log.debug(argv.toString());
+    const result = await diffSpecs(argv.oldSpecPath, argv.newSpecPath);
+    const content =
+      argv.format === "markdown"
+        ? formatSpecDiffAsMarkdown(result)
+        : JSON.stringify(result, null, 2);
+    if (argv.output !== undefined) {
+      await fs.outputFile(argv.output, content);
+    } else {
+      // eslint-disable-next-line no-console
+      console.log(content);
+    }
+    return hasBreakingChanges(result) ? 1 : 0;
+  });
+}
@@ -12,8 +12,8 @@ import * as validate from "../validate";
 export const command = "extract-xmsexamples <spec-path> <recordings>";
 
 export const describe =
-  "Extracts the x-ms-examples for a given swagger from the .NET session recordings and saves " +
-  "them in a file.";
+  "Extracts the x-ms-examples for a given swagger from the session recordings (.NET, test-proxy, " +
+  "vcrpy, nock or HAR) and saves them in a file.";
 
 export const builder: yargs.CommandBuilder = {
   d: {
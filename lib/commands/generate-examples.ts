@@ -8,6 +8,8 @@ import * as yargs from "yargs";
 import { cliSuppressExceptions } from "../cliSuppressExceptions";
 import { log } from "../util/logging";
 import * as validate from "../validate";
+import { loadMockDataProviders } from "../generator/mockDataProvider";
+import { loadExampleRules } from "../generator/exampleRule";
 
 export const command = "generate-examples [spec-path]";
 
@@ -34,15 +36,47 @@ export const builder: yargs.CommandBuilder = {
     describe: "the readme tag name.",
     string: true,
   },
+  seed: {
+    describe: "seed of the mocked values. The same seed generates the same examples on every run.",
+    number: true,
+  },
+  mockDataProviders: {
+    describe: "path of a js module exporting custom mock data providers.",
+    string: true,
+  },
+  rules: {
+    describe:
+      "example rules split by comma. Built-in rules: MaximumSet, MinimumSet, EachEnumValue, " +
+      "EachDiscriminatorSubtype, BoundaryValues. Default: MaximumSet,MinimumSet.",
+    string: true,
+  },
+  ruleConfig: {
+    describe:
+      "path of a js module exporting custom example rules as { [ruleName]: RuleValidator }.",
+    string: true,
+  },
 };
 
 export async function handler(argv: yargs.Arguments): Promise<void> {
   await cliSuppressExceptions(async () => {
     log.debug(argv.toString());
     const specPath = argv.specPath;
+    if (argv.ruleConfig) {
+      loadExampleRules(argv.ruleConfig as string);
+    }
     const vOptions = {
       consoleLogLevel: argv.logLevel,
       logFilepath: argv.f,
+      seed: argv.seed as number | undefined,
+      mockDataProviders: argv.mockDataProviders
+        ? loadMockDataProviders(argv.mockDataProviders as string)
+        : undefined,
+      rules: argv.rules
+        ? (argv.rules as string)
+            .split(",")
+            .map((rule) => rule.trim())
+            .filter((rule) => rule.length > 0)
+        : undefined,
     };
     await validate.generateExamples(
       specPath,
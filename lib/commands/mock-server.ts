@@ -0,0 +1,87 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as path from "path";
+import { glob } from "glob";
+import * as yargs from "yargs";
+
+import { cliSuppressExceptions } from "../cliSuppressExceptions";
+import { MockArmService } from "../mockServer/mockArmService";
+import { MockServer } from "../mockServer/mockServer";
+import { DefaultConfig } from "../util/constants";
+import { log } from "../util/logging";
+
+export const command = "mock-server <directory>";
+
+export const describe =
+  "Start a local mock ARM service which serves the examples of the specs and keeps the state of the created resources.";
+
+export const builder: yargs.CommandBuilder = {
+  directory: {
+    alias: "d",
+    describe: "The root directory of the specs.",
+    string: true,
+  },
+  swaggerPathsPattern: {
+    alias: "pattern",
+    describe: "Glob patterns of swagger files relative to the directory. type: array",
+    type: "array",
+    default: ["**/*.json"],
+  },
+  excludedSwaggerPathsPattern: {
+    alias: "exclude",
+    describe: "Glob patterns of swagger files to be excluded. type: array",
+    type: "array",
+  },
+  port: {
+    describe: "The port to listen on.",
+    number: true,
+    default: 8002,
+  },
+  host: {
+    describe: "The host name to listen on.",
+    string: true,
+    default: "localhost",
+  },
+  lroPollCount: {
+    describe: "Number of polls which report a long running operation as in progress.",
+    number: true,
+    default: 1,
+  },
+  seed: {
+    describe: "Seed of the mocked values of the operations without examples.",
+    number: true,
+  },
+};
+
+export async function handler(argv: yargs.Arguments): Promise<void> {
+  await cliSuppressExceptions(async () => {
+    log.debug(argv.toString());
+    const directory = path.resolve(argv.directory);
+    const ignore = (argv.excludedSwaggerPathsPattern as string[] | undefined) ?? [
+      ...DefaultConfig.ExcludedExamplesAndCommonFiles,
+    ];
+    const swaggerFilePaths: string[] = [];
+    for (const pattern of argv.swaggerPathsPattern as string[]) {
+      for (const filePath of glob.sync(pattern, { cwd: directory, ignore, nodir: true })) {
+        const swaggerFilePath = path.resolve(directory, filePath);
+        if (!swaggerFilePaths.includes(swaggerFilePath)) {
+          swaggerFilePaths.push(swaggerFilePath);
+        }
+      }
+    }
+    if (swaggerFilePaths.length === 0) {
+      throw new Error(`No swagger file is found in ${directory}`);
+    }
+    log.info(`Mocking ${swaggerFilePaths.length} swagger files`);
+
+    const mockService = MockArmService.create({
+      swaggerFilePaths,
+      lroPollCount: argv.lroPollCount,
+      seed: argv.seed,
+    });
+    const server = new MockServer(mockService, { port: argv.port, host: argv.host });
+    await server.start();
+    return 0;
+  });
+}
@@ -10,6 +10,10 @@ import {
   PostmanCollectionGenerator,
   PostmanCollectionGeneratorOption,
 } from "../apiScenario/postmanCollectionGenerator";
+import {
+  ApiScenarioRestRunner,
+  ApiScenarioRestRunnerOption,
+} from "../apiScenario/apiScenarioRestRunner";
 import { inversifyGetInstance } from "../inversifyUtils";
 import { getApiVersionFromSwaggerFile, getProviderFromFilePath, printWarning } from "../util/utils";
 import { getFileNameFromPath } from "../apiScenario/defaultNaming";
@@ -19,7 +23,7 @@ export const command = "run-api-scenario <api-scenario>";
 
 export const aliases = ["run"];
 
-export const describe = "newman runner run API scenario file.";
+export const describe = "newman or in-process runner run API scenario file.";
 
 export const apiScenarioEnvKey = "API_SCENARIO_JSON_ENV";
 
@@ -91,6 +95,13 @@ export const builder: yargs.CommandBuilder = {
     describe: "whether delete resource group when all steps finished",
     boolean: true,
   },
+  engine: {
+    describe:
+      "the engine to run API scenario. 'newman' generates a postman collection and runs it by newman. 'rest' sends the requests in process and produces the same reports.",
+    string: true,
+    choices: ["newman", "rest"],
+    default: "newman",
+  },
   dryRun: {
     describe: "dry run mode. only create postman collection file not run live api test.",
     boolean: true,
@@ -160,6 +171,35 @@ export async function handler(argv: yargs.Arguments): Promise<void> {
     if (argv.resourceGroup !== undefined) {
       env.resourceGroupName = argv.resourceGroup;
     }
+    if (argv.engine === "rest") {
+      if (argv.dryRun || argv.from !== undefined || argv.to !== undefined) {
+        throw new Error("--dryRun, --from and --to are only supported by the newman engine.");
+      }
+      const restRunnerOpt: ApiScenarioRestRunnerOption = {
+        name: `${resourceProvider}/${apiVersion}/${getFileNameFromPath(scenarioFilePath)}`,
+        scenarioDef: scenarioFilePath,
+        swaggerFilePaths: swaggerFilePaths,
+        fileRoot: fileRoot,
+        checkUnderFileRoot: false,
+        useJsonParser: false,
+        env: env,
+        outputFolder: argv.output,
+        markdownReportPath: argv.markdownReportPath,
+        junitReportPath: argv.junitReportPath,
+        eraseXmsExamples: false,
+        eraseDescription: false,
+        enableBlobUploader: argv.uploadBlob,
+        blobConnectionString: process.env.blobConnectionString || "",
+        baseUrl: argv.armEndpoint,
+        validationLevel: argv.level,
+        skipCleanUp: argv.skipCleanUp,
+        runId: argv.runId,
+        verbose: argv.verbose,
+      };
+      const restRunner = inversifyGetInstance(ApiScenarioRestRunner, restRunnerOpt);
+      const { failedScenarioCount } = await restRunner.run();
+      return failedScenarioCount > 0 ? 1 : 0;
+    }
     const opt: PostmanCollectionGeneratorOption = {
       name: `${resourceProvider}/${apiVersion}/${getFileNameFromPath(scenarioFilePath)}`,
       scenarioDef: scenarioFilePath,
@@ -0,0 +1,114 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as path from "path";
+import * as yargs from "yargs";
+
+import { cliSuppressExceptions } from "../cliSuppressExceptions";
+import { LiveValidator, LiveValidatorOptions } from "../liveValidation/liveValidator";
+import { LiveValidationServer } from "../liveValidation/liveValidationServer";
+import { log } from "../util/logging";
+
+export const command = "serve-live-validation <directory>";
+
+export const describe =
+  "Start a local http service which validates live request and response against the specs.";
+
+export const builder: yargs.CommandBuilder = {
+  directory: {
+    alias: "d",
+    describe: "The root directory of the specs.",
+    string: true,
+  },
+  swaggerPathsPattern: {
+    alias: "pattern",
+    describe: "Glob patterns of swagger files relative to the directory. type: array",
+    type: "array",
+  },
+  excludedSwaggerPathsPattern: {
+    alias: "exclude",
+    describe: "Glob patterns of swagger files to be excluded. type: array",
+    type: "array",
+  },
+  port: {
+    describe: "The port to listen on.",
+    number: true,
+    default: 8000,
+  },
+  host: {
+    describe: "The host name to listen on.",
+    string: true,
+    default: "localhost",
+  },
+  isArmCall: {
+    describe: "Whether the traffic to validate is ARM traffic.",
+    boolean: true,
+    default: false,
+  },
+  loadValidatorInBackground: {
+    alias: "background",
+    describe:
+      "Build the validators in background after initialization. The ready endpoint returns 503 until it completes.",
+    boolean: true,
+    default: true,
+  },
+  cacheDirectory: {
+    describe:
+      "Directory to cache the parsed spec files by content hash. It could be shared by processes to speed up the later starts.",
+    string: true,
+  },
+  watch: {
+    describe:
+      "Reload the swagger files added, modified or deleted under the directory without restart.",
+    boolean: true,
+    default: false,
+  },
+  samplingRate: {
+    describe: "Rate in [0, 1] of the operations to validate, the others are skipped.",
+    number: true,
+  },
+  issueDedupeWindowInMs: {
+    describe:
+      "Report the identical issues of an operation once per window, with the count of occurrences.",
+    number: true,
+  },
+  providerBudgetInMsPerSecond: {
+    describe:
+      "Validation time each resource provider could spend per second. Validations over the budget are skipped.",
+    number: true,
+  },
+};
+
+export async function handler(argv: yargs.Arguments): Promise<void> {
+  await cliSuppressExceptions(async () => {
+    log.debug(argv.toString());
+    const options: Partial<LiveValidatorOptions> = {
+      directory: path.resolve(argv.directory),
+      swaggerPathsPattern: argv.swaggerPathsPattern,
+      isArmCall: argv.isArmCall,
+      loadValidatorInBackground: argv.loadValidatorInBackground,
+      git: { shouldClone: false },
+    };
+    if (argv.excludedSwaggerPathsPattern !== undefined) {
+      options.excludedSwaggerPathsPattern = argv.excludedSwaggerPathsPattern;
+    }
+    if (argv.cacheDirectory !== undefined) {
+      options.cacheDirectory = path.resolve(argv.cacheDirectory);
+    }
+    if (argv.samplingRate !== undefined) {
+      options.samplingRates = { "*": argv.samplingRate };
+    }
+    options.issueDedupeWindowInMs = argv.issueDedupeWindowInMs;
+    options.providerBudgetInMsPerSecond = argv.providerBudgetInMsPerSecond;
+    const liveValidator = new LiveValidator(options);
+    const server = new LiveValidationServer(liveValidator, {
+      port: argv.port,
+      host: argv.host,
+    });
+    await server.start();
+    if (argv.watch) {
+      liveValidator.startWatch();
+    }
+    return 0;
+  });
+}
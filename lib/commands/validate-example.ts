@@ -5,6 +5,7 @@ import * as yargs from "yargs";
 
 import { flat } from "@azure-tools/openapi-tools-common";
 import { cliSuppressExceptions } from "../cliSuppressExceptions";
+import { defaultOutputFormat, getOutputFormatNames } from "../report/outputFormatter";
 import { log } from "../util/logging";
 import * as validate from "../validate";
 
@@ -22,6 +23,23 @@ export const builder: yargs.CommandBuilder = {
     // eslint-disable-next-line id-blacklist
     string: true,
   },
+  outputFormat: {
+    describe:
+      "Output format of the issues. default detects Azure Pipelines and GitHub Actions from the environment. " +
+      "compact prints one line per issue, gitlab prints a GitLab code quality report and sarif prints a SARIF 2.1.0 log.",
+    choices: [defaultOutputFormat, ...getOutputFormatNames()],
+    default: defaultOutputFormat,
+  },
+  baseline: {
+    describe:
+      "Baseline file of the known errors. Only the errors not in the baseline are reported, and the fixed ones are listed.",
+    string: true,
+  },
+  updateBaseline: {
+    describe: "Write all the errors found to the baseline file, instead of reporting them.",
+    boolean: true,
+    default: false,
+  },
 };
 
 export async function handler(argv: yargs.Arguments): Promise<void> {
@@ -33,6 +51,9 @@ export async function handler(argv: yargs.Arguments): Promise<void> {
       consoleLogLevel: argv.logLevel,
       logFilepath: argv.f,
       pretty: argv.p,
+      outputFormat: argv.outputFormat,
+      baselinePath: argv.baseline,
+      updateBaseline: argv.updateBaseline,
     };
     if (specPath.match(/.*composite.*/gi) !== null) {
       const result = await validate.validateExamplesInCompositeSpec(specPath, vOptions);
@@ -4,6 +4,8 @@
 import * as yargs from "yargs";
 
 import { cliSuppressExceptions } from "../cliSuppressExceptions";
+import { defaultOutputFormat, getOutputFormatNames } from "../report/outputFormatter";
+import { loadSemanticRules } from "../swaggerValidator/semanticRule";
 import { log } from "../util/logging";
 import * as validate from "../validate";
 
@@ -11,6 +13,31 @@ export const command = "validate-spec <spec-path>";
 
 export const describe = "Performs semantic validation of the spec.";
 
+export const builder: yargs.CommandBuilder = {
+  outputFormat: {
+    describe:
+      "Output format of the issues. default detects Azure Pipelines and GitHub Actions from the environment. " +
+      "compact prints one line per issue, gitlab prints a GitLab code quality report and sarif prints a SARIF 2.1.0 log.",
+    choices: [defaultOutputFormat, ...getOutputFormatNames()],
+    default: defaultOutputFormat,
+  },
+  baseline: {
+    describe:
+      "Baseline file of the known errors. Only the errors not in the baseline are reported, and the fixed ones are listed.",
+    string: true,
+  },
+  semanticRules: {
+    describe:
+      "Path of a js or ts module exporting an array of custom semantic rules, whose errors are reported like the built-in ones.",
+    string: true,
+  },
+  updateBaseline: {
+    describe: "Write all the errors found to the baseline file, instead of reporting them.",
+    boolean: true,
+    default: false,
+  },
+};
+
 export async function handler(argv: yargs.Arguments): Promise<void> {
   await cliSuppressExceptions(async () => {
     log.debug(argv.toString());
@@ -19,6 +46,10 @@ export async function handler(argv: yargs.Arguments): Promise<void> {
       consoleLogLevel: argv.logLevel,
       logFilepath: argv.f,
       pretty: argv.p ?? true,
+      outputFormat: argv.outputFormat,
+      baselinePath: argv.baseline,
+      updateBaseline: argv.updateBaseline,
+      semanticRules: argv.semanticRules ? loadSemanticRules(argv.semanticRules) : undefined,
     };
     // if (specPath.match(/.*composite.*/gi) !== null) {
     //   const result = await validate.validateCompositeSpec(specPath, vOptions);
@@ -1,6 +1,7 @@
 import * as yargs from "yargs";
 
 import { cliSuppressExceptions } from "../cliSuppressExceptions";
+import { defaultOutputFormat, getOutputFormatNames } from "../report/outputFormatter";
 import { TrafficValidationOptions } from "../swaggerValidator/trafficValidator";
 import { log } from "../util/logging";
 import * as validate from "../validate";
@@ -11,7 +12,8 @@ export const describe = "Validate traffic payload against the spec.";
 export const builder: yargs.CommandBuilder = {
   trafficPath: {
     alias: "t",
-    describe: "The recording payload path.",
+    describe:
+      "The recording payload path. It could be a file or a directory of oav payload json files and test recordings (.NET, test-proxy, vcrpy, nock or HAR).",
     string: true,
   },
   specPath: {
@@ -55,6 +57,24 @@ export const builder: yargs.CommandBuilder = {
     string: true,
     default: "https://github.com/scbedd/oav-traffic-converter/blob/main/sample-tables-input/",
   },
+  targetApiVersion: {
+    describe:
+      "Validate the traffic against the spec of this api-version instead of the recorded one, e.g. a new api-version of the service.",
+    string: true,
+  },
+  apiVersionFallback: {
+    describe:
+      "Validate the calls of an api-version without spec against the nearest api-version of the same provider, preferring the closest older stable one.",
+    boolean: true,
+    default: false,
+  },
+  outputFormat: {
+    describe:
+      "Output format of the issues. default detects Azure Pipelines and GitHub Actions from the environment. " +
+      "compact prints one line per issue, gitlab prints a GitLab code quality report and sarif prints a SARIF 2.1.0 log.",
+    choices: [defaultOutputFormat, ...getOutputFormatNames()],
+    default: defaultOutputFormat,
+  },
 };
 
 export async function handler(argv: yargs.Arguments): Promise<void> {
@@ -72,6 +92,9 @@ export async function handler(argv: yargs.Arguments): Promise<void> {
       overrideLinkInReport: argv.overrideLinkInReport,
       specLinkPrefix: argv.specLinkPrefix,
       payloadLinkPrefix: argv.payloadLinkPrefix,
+      outputFormat: argv.outputFormat,
+      targetApiVersion: argv.targetApiVersion,
+      apiVersionFallback: argv.apiVersionFallback,
     };
     const errors = await validate.validateTrafficAgainstSpec(specPath, trafficPath, vOptions);
     return errors.length > 0 ? 1 : 0;
@@ -19,6 +19,7 @@ import { AjvSchemaValidator } from "../swaggerValidator/ajvSchemaValidator";
 import { getJsonPatchDiff } from "../apiScenario/diffUtils";
 import { BodyTransformer } from "../apiScenario/bodyTransformer";
 import { ErrorCodes } from "../util/constants";
+import { getPageableNames } from "../util/utils";
 import { SeverityString } from "../util/severity";
 import { inversifyGetInstance, TYPES } from "./../inversifyUtils";
 import { setDefaultOpts } from "./../swagger/loader";
@@ -154,6 +155,30 @@ const roundtripInconsistentProperty: ExampleValidationFunc = async (
   return ret;
 };
 
+// The next link property of x-ms-pageable should be in the list examples, even if it's null.
+const missingNextLink: ExampleValidationFunc = async (
+  example: SwaggerExample,
+  operation: Operation,
+  _jsonLoader: JsonLoader,
+  exampleValidationContext: exampleValidationContext
+) => {
+  const ret: ExampleValidationRule[] = [];
+  const nextLinkName = getPageableNames(operation)?.nextLinkName;
+  const body = example?.responses["200"]?.body;
+  if (nextLinkName && typeof body === "object" && body !== null && !(nextLinkName in body)) {
+    ret.push({
+      id: ErrorCodes.MissingNextLinkInExample.id,
+      severity: "Warning",
+      code: ErrorCodes.MissingNextLinkInExample.name,
+      jsonPath: "/responses/200/body",
+      message: `The list response should have the next link property ${nextLinkName} declared in x-ms-pageable.`,
+      exampleName: exampleValidationContext.exampleName,
+      exampleFilePath: exampleValidationContext.exampleFilePath,
+    });
+  }
+  return ret;
+};
+
 /*
 const recommendUsingBooleanType: ExampleValidationFunc = async (
   example: SwaggerExample,
@@ -204,7 +229,11 @@ export class ExampleQualityValidator {
     private bodyTransformer: BodyTransformer
   ) {
     this.swaggerSpecs = [];
-    this.validationFuncs = [incorrectProvisioningState, roundtripInconsistentProperty];
+    this.validationFuncs = [
+      incorrectProvisioningState,
+      roundtripInconsistentProperty,
+      missingNextLink,
+    ];
     this.schemaValidator = new AjvSchemaValidator(this.jsonLoader);
     this.transformContext = getTransformContext(this.jsonLoader, this.schemaValidator, [
       xmsPathsTransformer,
@@ -183,6 +183,10 @@ export interface CacheItem {
   isLeaf: boolean;
   required?: string[];
   isMocked?: boolean;
+  /**
+   * Schema of a mocked leaf, which lets rules vary the value.
+   */
+  schema?: any;
 }
 
 export const buildItemOption = (schema: any) => {
@@ -216,7 +220,8 @@ export const buildItemOption = (schema: any) => {
 
 export const createLeafItem = (
   itemValue: CacheItemValue,
-  option: CacheItemOptions | undefined = undefined
+  option: CacheItemOptions | undefined = undefined,
+  schema: any = undefined
 ): CacheItem => {
   const item = {
     isLeaf: true,
@@ -225,6 +230,9 @@ export const createLeafItem = (
   if (option) {
     item.options = option;
   }
+  if (schema) {
+    item.schema = schema;
+  }
   return item;
 };
 
@@ -246,7 +254,8 @@ export const reBuildExample = (
   cache: CacheItem | undefined,
   isRequest: boolean,
   schema: any,
-  validator: RuleValidatorFunc | undefined
+  validator: RuleValidatorFunc | undefined,
+  valueMapper?: (value: unknown, schema: any) => unknown
 ): any => {
   if (!cache) {
     return undefined;
@@ -255,7 +264,7 @@ export const reBuildExample = (
     return undefined;
   }
   if (cache.isLeaf) {
-    return cache.value;
+    return valueMapper && cache.schema ? valueMapper(cache.value, cache.schema) : cache.value;
   }
   if (Array.isArray(cache.child)) {
     const result = [];
@@ -263,14 +272,14 @@ export const reBuildExample = (
       if (validator && !validator({ schemaCache: item, isRequest, schema })) {
         continue;
       }
-      result.push(reBuildExample(item, isRequest, schema, validator));
+      result.push(reBuildExample(item, isRequest, schema, validator, valueMapper));
     }
     return result;
   } else if (cache.child) {
     const result: any = {};
     for (const key of Object.keys(cache.child)) {
       if (!validator || validator({ schemaCache: cache, propertyName: key, isRequest, schema })) {
-        const value = reBuildExample(cache.child[key], isRequest, schema, validator);
+        const value = reBuildExample(cache.child[key], isRequest, schema, validator, valueMapper);
         if (value !== undefined) {
           result[key] = value;
         }
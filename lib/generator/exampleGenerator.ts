@@ -17,13 +17,24 @@ import { noAdditionalPropertiesTransformer } from "../transform/noAdditionalProp
 import { applySpecTransformers, applyGlobalTransformers } from "../transform/transformer";
 import { log } from "../util/logging";
 import { inversifyGetInstance } from "../inversifyUtils";
-import { ExampleRule, RuleSet } from "./exampleRule";
+import { defaultRuleNames, ExampleRule, hasExampleRule } from "./exampleRule";
 import * as util from "./util";
 import Translator from "./translator";
 import SwaggerMocker from "./swaggerMocker";
+import { MockerOptions } from "./mocker";
 import { MockerCache, PayloadCache } from "./exampleCache";
 const _ = deepdash(lodash);
 
+export interface ExampleGeneratorOptions extends MockerOptions {
+  /**
+   * Names of the example rules to generate, default MaximumSet and MinimumSet.
+   */
+  rules?: string[];
+}
+
+// Upper limit of the examples per rule and operation, e.g. for enums with many values.
+const maxRuleVariants = 20;
+
 export default class Generator {
   private translator: Translator;
   private spec!: SwaggerSpec;
@@ -34,9 +45,10 @@ export default class Generator {
   private shouldMock: boolean;
   private mockerCache: MockerCache;
   private payloadCache: PayloadCache;
+  private ruleNames: string[];
   public readonly transformContext: TransformContext;
 
-  public constructor(specFilePath: string, payloadDir?: string) {
+  public constructor(specFilePath: string, payloadDir?: string, options?: ExampleGeneratorOptions) {
     this.shouldMock = payloadDir ? false : true;
     this.specFilePath = specFilePath;
     this.payloadDir = payloadDir;
@@ -46,7 +58,18 @@ export default class Generator {
     });
     this.mockerCache = new MockerCache();
     this.payloadCache = new PayloadCache();
-    this.swaggerMocker = new SwaggerMocker(this.jsonLoader, this.mockerCache, this.payloadCache);
+    this.swaggerMocker = new SwaggerMocker(
+      this.jsonLoader,
+      this.mockerCache,
+      this.payloadCache,
+      options
+    );
+    this.ruleNames = options?.rules ?? defaultRuleNames;
+    for (const ruleName of this.ruleNames) {
+      if (!hasExampleRule(ruleName)) {
+        throw new Error(`Unknown example rule: ${ruleName}`);
+      }
+    }
     this.translator = new Translator(
       this.jsonLoader,
       this.payloadCache,
@@ -227,19 +250,23 @@ export default class Generator {
         return [];
       }
     }
-    const ruleSet: RuleSet = [];
-    ruleSet.push({
-      exampleNamePostfix: "MaximumSet",
-      ruleName: "MaximumSet",
-    });
-    ruleSet.push({
-      exampleNamePostfix: "MinimumSet",
-      ruleName: "MinimumSet",
-    });
-    for (const rule of ruleSet) {
-      const error = await this.generateExample(operationId, specItem, rule);
-      if (error.length) {
-        return error;
+    for (const ruleName of this.ruleNames) {
+      const rule: ExampleRule = {
+        exampleNamePostfix: ruleName,
+        ruleName,
+      };
+      // a rule could ask for more examples while generating the first one
+      for (
+        let variant = 0;
+        variant < Math.min(rule.variantCount ?? 1, maxRuleVariants);
+        variant++
+      ) {
+        rule.variant = variant;
+        rule.exampleNamePostfix = variant === 0 ? ruleName : `${ruleName}${variant}`;
+        const error = await this.generateExample(operationId, specItem, rule);
+        if (error.length) {
+          return error;
+        }
       }
     }
     return [];
@@ -1,16 +1,38 @@
+import * as path from "path";
 import { CacheItem } from "./exampleCache";
 export interface ExampleRule {
   exampleNamePostfix: string;
   ruleName: string | undefined;
+  /**
+   * Index of the example when a rule generates several examples for one operation, e.g. one per
+   * enum value.
+   */
+  variant?: number;
+  /**
+   * Number of examples the rule needs to cover all values, set by the rule while generating.
+   */
+  variantCount?: number;
 }
 
 export type RuleValidatorFunc = (context: RuleContext) => boolean | undefined;
 
-interface RuleValidator {
+/**
+ * Returns the value of a mocked leaf for the rule, e.g. another enum value.
+ */
+export type RuleValueFunc = (context: RuleValueContext) => unknown;
+
+/**
+ * Returns which discriminator value (subtype) is mocked for the rule.
+ */
+export type RuleDiscriminatorFunc = (context: RuleDiscriminatorContext) => string | undefined;
+
+export interface RuleValidator {
   onParameter?: RuleValidatorFunc;
   onSchema?: RuleValidatorFunc;
   onResponseBody?: RuleValidatorFunc;
   onResponseHeader?: RuleValidatorFunc;
+  onValue?: RuleValueFunc;
+  onDiscriminator?: RuleDiscriminatorFunc;
 }
 
 const shouldSkip = (cache: CacheItem | undefined, isRequest?: boolean) => {
@@ -20,13 +42,25 @@ const shouldSkip = (cache: CacheItem | undefined, isRequest?: boolean) => {
   );
 };
 
-interface RuleContext {
+export interface RuleContext {
   schema?: any;
   propertyName?: string | undefined;
   schemaCache?: CacheItem;
   isRequest?: boolean;
   parentSchema?: any;
 }
+
+export interface RuleValueContext {
+  value: unknown;
+  schema: any;
+  rule: ExampleRule;
+}
+
+export interface RuleDiscriminatorContext {
+  values: string[];
+  rule: ExampleRule;
+}
+
 const exampleRuleValidators = new Map<string, RuleValidator>();
 exampleRuleValidators.set("MinimumSet", {
   onParameter: (context: RuleContext) => {
@@ -41,12 +75,74 @@ exampleRuleValidators.set("MinimumSet", {
     return true;
   },
 });
+const maximumSetOnSchema = (context: RuleContext) => {
+  if (context.schemaCache && context?.isRequest !== undefined) {
+    return !shouldSkip(context.schemaCache, context?.isRequest);
+  }
+  return true;
+};
 exampleRuleValidators.set("MaximumSet", {
-  onSchema: (context: RuleContext) => {
-    if (context.schemaCache && context?.isRequest !== undefined) {
-      return !shouldSkip(context.schemaCache, context?.isRequest);
+  onSchema: maximumSetOnSchema,
+});
+
+const requireVariants = (rule: ExampleRule, count: number) => {
+  rule.variantCount = Math.max(rule.variantCount ?? 1, count);
+};
+
+// Like MaximumSet, but the n-th example uses the n-th value of each enum.
+exampleRuleValidators.set("EachEnumValue", {
+  onSchema: maximumSetOnSchema,
+  onValue: ({ value, schema, rule }) => {
+    if (!Array.isArray(schema.enum) || schema.enum.length === 0) {
+      return value;
     }
-    return true;
+    requireVariants(rule, schema.enum.length);
+    return schema.enum[(rule.variant ?? 0) % schema.enum.length];
+  },
+});
+
+// Like MaximumSet, but the n-th example mocks the n-th subtype of each polymorphic schema.
+exampleRuleValidators.set("EachDiscriminatorSubtype", {
+  onSchema: maximumSetOnSchema,
+  onDiscriminator: ({ values, rule }) => {
+    requireVariants(rule, values.length);
+    return values[(rule.variant ?? 0) % values.length];
+  },
+});
+
+// Lengths above this are not used as boundary value to keep the examples readable.
+const maxBoundaryLength = 1024;
+
+// Like MaximumSet, the first example uses the lower bounds and the second one the upper bounds.
+exampleRuleValidators.set("BoundaryValues", {
+  onSchema: maximumSetOnSchema,
+  onValue: ({ value, schema, rule }) => {
+    // A one-sided bound still needs both examples, the other one keeps the mocked value.
+    const useMinimum = (rule.variant ?? 0) === 0;
+    const boundaryValue = (lower: unknown, upper: unknown) => {
+      if (lower !== undefined || upper !== undefined) {
+        requireVariants(rule, 2);
+      }
+      const bound = useMinimum ? lower : upper;
+      return bound === undefined ? value : bound;
+    };
+    if (schema.type === "integer" || schema.type === "number") {
+      return boundaryValue(
+        schema.exclusiveMinimum ? undefined : schema.minimum,
+        schema.exclusiveMaximum ? undefined : schema.maximum
+      );
+    }
+    if (
+      schema.type === "string" &&
+      !("enum" in schema) &&
+      !("pattern" in schema) &&
+      !schema.format
+    ) {
+      const toValue = (length: number | undefined) =>
+        length === undefined || length > maxBoundaryLength ? undefined : "a".repeat(length);
+      return boundaryValue(toValue(schema.minLength), toValue(schema.maxLength));
+    }
+    return value;
   },
 });
 
@@ -58,4 +154,40 @@ export function getRuleValidator(rule: ExampleRule | undefined): RuleValidator {
   return {};
 }
 
+/**
+ * Maps the value of a mocked leaf by the onValue hook of the rule.
+ */
+export function getRuleValueMapper(
+  rule: ExampleRule | undefined
+): ((value: unknown, schema: any) => unknown) | undefined {
+  const onValue = getRuleValidator(rule).onValue;
+  if (!rule || !onValue) {
+    return undefined;
+  }
+  return (value, schema) => onValue({ value, schema, rule });
+}
+
+export function hasExampleRule(ruleName: string): boolean {
+  return exampleRuleValidators.has(ruleName);
+}
+
+export function registerExampleRule(ruleName: string, validator: RuleValidator) {
+  exampleRuleValidators.set(ruleName, validator);
+}
+
+/**
+ * Registers the rules exported by a js module as { [ruleName]: RuleValidator }.
+ * Returns the names of the registered rules.
+ */
+export function loadExampleRules(modulePath: string): string[] {
+  const mod = require(path.resolve(modulePath));
+  const rules: { [ruleName: string]: RuleValidator } = mod.default ?? mod;
+  for (const ruleName of Object.keys(rules)) {
+    registerExampleRule(ruleName, rules[ruleName]);
+  }
+  return Object.keys(rules);
+}
+
+export const defaultRuleNames = ["MaximumSet", "MinimumSet"];
+
 export type RuleSet = ExampleRule[];
@@ -0,0 +1,179 @@
+import * as path from "path";
+
+/* eslint-disable no-bitwise */
+
+/**
+ * Source of randomness for the mocker. It is deterministic when a seed is given, so that the
+ * generated examples are stable across runs.
+ */
+export class MockRandom {
+  private state: number;
+
+  public constructor(public readonly seed?: number) {
+    this.state = (seed ?? 0) >>> 0;
+  }
+
+  public get isSeeded(): boolean {
+    return this.seed !== undefined;
+  }
+
+  /**
+   * Float in [0, 1), like Math.random(). Uses mulberry32 when seeded.
+   */
+  public next(): number {
+    if (!this.isSeeded) {
+      return Math.random();
+    }
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer in [min, max].
+   */
+  public int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  public uuid(): string {
+    const hex = Array.from({ length: 32 }, () => this.int(0, 15).toString(16));
+    hex[12] = "4";
+    hex[16] = ((this.int(0, 15) & 0x3) | 0x8).toString(16);
+    const s = hex.join("");
+    return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(
+      20
+    )}`;
+  }
+
+  /**
+   * Current time, or a fixed point in time plus a random offset when seeded.
+   */
+  public date(): Date {
+    if (!this.isSeeded) {
+      return new Date();
+    }
+    return new Date(Date.UTC(2021, 0, 1) + this.int(0, 364) * 24 * 3600 * 1000);
+  }
+
+  /**
+   * Runs the callback with Math.random replaced by this source, for libraries such as mockjs which
+   * don't accept a random generator.
+   */
+  public withMathRandom<T>(callback: () => T): T {
+    if (!this.isSeeded) {
+      return callback();
+    }
+    const original = Math.random;
+    Math.random = () => this.next();
+    try {
+      return callback();
+    } finally {
+      Math.random = original;
+    }
+  }
+}
+
+export interface MockDataContext {
+  paramName: string;
+  paramSpec: any;
+  random: MockRandom;
+}
+
+/**
+ * Provides realistic values for string properties. The first provider which matches the schema
+ * wins, and its value is dropped if it violates the length limits of the schema.
+ */
+export interface MockDataProvider {
+  readonly name: string;
+  /**
+   * Matches if the schema has one of these formats.
+   */
+  readonly formats?: string[];
+  /**
+   * Matches if the property or parameter name matches this pattern.
+   */
+  readonly namePattern?: RegExp;
+  /**
+   * Matches if the schema has one of these extensions, e.g. "x-ms-arm-id-details".
+   */
+  readonly extensions?: string[];
+  mock(context: MockDataContext): string;
+}
+
+export const isMockDataProviderMatch = (
+  provider: MockDataProvider,
+  paramSpec: any,
+  paramName: string
+): boolean =>
+  (provider.formats !== undefined && provider.formats.includes(paramSpec.format)) ||
+  (provider.namePattern !== undefined && provider.namePattern.test(paramName)) ||
+  (provider.extensions !== undefined && provider.extensions.some((ext) => ext in paramSpec));
+
+const locations = ["eastus", "westus2", "westeurope", "northeurope", "southeastasia", "japaneast"];
+
+export const defaultMockDataProviders: MockDataProvider[] = [
+  {
+    name: "armResourceId",
+    formats: ["arm-id"],
+    namePattern: /^(id|resourceId)$|ResourceId$/,
+    extensions: ["x-ms-arm-id-details"],
+    mock: ({ paramName, random }) => {
+      const resourceName = `${
+        paramName.replace(/Id$/i, "").replace(/\W/g, "") || "resource"
+      }${random.int(1, 999)}`;
+      return (
+        `/subscriptions/${random.uuid()}/resourceGroups/rg${random.int(1, 999)}` +
+        `/providers/Microsoft.Example/resources/${resourceName}`
+      );
+    },
+  },
+  {
+    name: "location",
+    namePattern: /^(location|primaryLocation|secondaryLocation)$/,
+    mock: ({ random }) => random.pick(locations),
+  },
+  {
+    name: "uuid",
+    formats: ["uuid"],
+    namePattern: /^(tenantId|subscriptionId|principalId|clientId|objectId)$/,
+    mock: ({ random }) => random.uuid(),
+  },
+  {
+    name: "email",
+    formats: ["email"],
+    namePattern: /email/i,
+    mock: ({ random }) => `user${random.int(1, 999)}@contoso.com`,
+  },
+  {
+    name: "ipAddress",
+    formats: ["ipv4", "ip-address"],
+    namePattern: /ipAddress$/i,
+    mock: ({ random }) => `10.${random.int(0, 255)}.${random.int(0, 255)}.${random.int(1, 254)}`,
+  },
+  {
+    name: "ipv6Address",
+    formats: ["ipv6"],
+    mock: ({ random }) =>
+      `fd00::${random.int(1, 0xffff).toString(16)}:${random.int(1, 0xffff).toString(16)}`,
+  },
+];
+
+/**
+ * Loads custom providers from a js module, which exports an array of providers either as
+ * module.exports, default or mockDataProviders.
+ */
+export const loadMockDataProviders = (modulePath: string): MockDataProvider[] => {
+  const mod = require(path.resolve(modulePath));
+  const providers = Array.isArray(mod) ? mod : mod.default ?? mod.mockDataProviders;
+  if (!Array.isArray(providers)) {
+    throw new Error(`${modulePath} doesn't export an array of mock data providers.`);
+  }
+  return providers;
+};
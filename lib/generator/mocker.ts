@@ -1,6 +1,31 @@
 import { log } from "../util/logging";
+import {
+  defaultMockDataProviders,
+  isMockDataProviderMatch,
+  MockDataProvider,
+  MockRandom,
+} from "./mockDataProvider";
+
+export interface MockerOptions {
+  /**
+   * Generate the same values on every run.
+   */
+  seed?: number;
+  /**
+   * Custom providers, which take precedence over the default ones.
+   */
+  mockDataProviders?: MockDataProvider[];
+}
 
 export default class Mocker {
+  public readonly random: MockRandom;
+  private providers: MockDataProvider[];
+
+  public constructor(options: MockerOptions = {}) {
+    this.random = new MockRandom(options.seed);
+    this.providers = [...(options.mockDataProviders ?? []), ...defaultMockDataProviders];
+  }
+
   public mock(paramSpec: any, paramName: string, arrItem?: any): any {
     switch (paramSpec.type) {
       case "string":
@@ -20,11 +45,11 @@ export default class Mocker {
 
   private generateString(paramSpec: any, paramName: string) {
     if (paramSpec.format === "date") {
-      return new Date().toISOString().split("T")[0];
+      return this.random.date().toISOString().split("T")[0];
     }
 
     if (paramSpec.format === "date-time") {
-      return new Date().toISOString();
+      return this.random.date().toISOString();
     }
 
     if ("enum" in paramSpec) {
@@ -33,6 +58,10 @@ export default class Mocker {
       }
       return paramSpec.enum[0];
     }
+    const providedValue = this.mockFromProviders(paramSpec, paramName);
+    if (providedValue !== undefined) {
+      return providedValue;
+    }
     const minLength = "minLength" in paramSpec ? paramSpec.minLength : 1;
     const maxLength = "maxLength" in paramSpec ? paramSpec.maxLength : minLength * 30;
     // NOTE: hard to handle minLength/maxLength and regular expressions at the same time. Length limit should be set by regex.
@@ -68,9 +97,11 @@ export default class Mocker {
     paramName: string
   ) {
     for (let i = 0; i < 10; i++) {
-      const { data } = Mock.mock({
-        data: new RegExp(pattern),
-      });
+      const { data } = this.random.withMathRandom(() =>
+        Mock.mock({
+          data: new RegExp(pattern),
+        })
+      );
       if ((minLength && data.length < minLength) || (maxLength && data.length > maxLength)) {
         console.error(
           `string ${paramName} has both regex pattern an length limit, no example can be generated. Set the length limit by regex and retry`
@@ -103,10 +134,10 @@ export default class Mocker {
     if (max === min) {
       return min;
     }
-    let randomNumber = Math.floor(Math.random() * (max - min)) + min;
+    let randomNumber = Math.floor(this.random.next() * (max - min)) + min;
     if (exclusiveMaximum) {
       while (randomNumber === max) {
-        randomNumber = Math.floor(Math.random() * (max - min)) + min;
+        randomNumber = Math.floor(this.random.next() * (max - min)) + min;
       }
     }
     return randomNumber;
@@ -118,15 +149,39 @@ export default class Mocker {
     if (max === min) {
       return min;
     }
-    let randomNumber = Math.floor(Math.random() * (max - min + (maxInclusive ? 1 : 0)));
+    let randomNumber = Math.floor(this.random.next() * (max - min + (maxInclusive ? 1 : 0)));
     if (!minInclusive) {
       while (randomNumber === 0) {
-        randomNumber = Math.floor(Math.random() * (max - min + (maxInclusive ? 1 : 0)));
+        randomNumber = Math.floor(this.random.next() * (max - min + (maxInclusive ? 1 : 0)));
       }
     }
     return randomNumber + min;
   }
 
+  // Values of providers don't follow regular expressions, so the pattern wins over them.
+  private mockFromProviders(paramSpec: any, paramName: string): string | undefined {
+    if ("pattern" in paramSpec) {
+      return undefined;
+    }
+    for (const provider of this.providers) {
+      if (!isMockDataProviderMatch(provider, paramSpec, paramName)) {
+        continue;
+      }
+      const value = provider.mock({ paramName, paramSpec, random: this.random });
+      if (
+        ("minLength" in paramSpec && value.length < paramSpec.minLength) ||
+        ("maxLength" in paramSpec && value.length > paramSpec.maxLength)
+      ) {
+        log.warn(
+          `value of mock data provider ${provider.name} exceeds length limit of ${paramName}`
+        );
+        continue;
+      }
+      return value;
+    }
+    return undefined;
+  }
+
   private generateBoolean(_paramSpec: any) {
     return true;
   }
@@ -9,27 +9,38 @@ import {
   reBuildExample,
   PayloadCache,
 } from "./exampleCache";
-import Mocker from "./mocker";
+import Mocker, { MockerOptions } from "./mocker";
 import * as util from "./util";
-import { ExampleRule, getRuleValidator } from "./exampleRule";
+import { ExampleRule, getRuleValidator, getRuleValueMapper } from "./exampleRule";
 
 export default class SwaggerMocker {
   private jsonLoader: JsonLoader;
   private mocker: Mocker;
   private spec: any;
   private mockCache: MockerCache;
+  private sharedMockCache: MockerCache;
   private exampleCache: PayloadCache;
   private exampleRule?: ExampleRule;
 
-  public constructor(jsonLoader: JsonLoader, mockerCache: MockerCache, payloadCache: PayloadCache) {
+  public constructor(
+    jsonLoader: JsonLoader,
+    mockerCache: MockerCache,
+    payloadCache: PayloadCache,
+    mockerOptions?: MockerOptions
+  ) {
     this.jsonLoader = jsonLoader;
-    this.mocker = new Mocker();
+    this.mocker = new Mocker(mockerOptions);
     this.mockCache = mockerCache;
+    this.sharedMockCache = mockerCache;
     this.exampleCache = payloadCache;
   }
 
   public setRule(exampleRule?: ExampleRule) {
     this.exampleRule = exampleRule;
+    // the cached objects contain the mocked subtypes, so they can't be reused when the rule picks them
+    this.mockCache = getRuleValidator(exampleRule).onDiscriminator
+      ? new MockerCache()
+      : this.sharedMockCache;
   }
 
   public mockForExample(example: any, specItem: any, spec: any, rp: string) {
@@ -182,7 +193,13 @@ export default class SwaggerMocker {
   ) {
     const cache = this.mockCachedObj(objName, schema, example, visited, isRequest);
     const validator = getRuleValidator(this.exampleRule).onSchema;
-    return reBuildExample(cache, isRequest, schema, validator);
+    return reBuildExample(
+      cache,
+      isRequest,
+      schema,
+      validator,
+      getRuleValueMapper(this.exampleRule)
+    );
   }
 
   private mockCachedObj(
@@ -240,7 +257,7 @@ export default class SwaggerMocker {
         });
       }
       if ("additionalProperties" in definitionSpec && definitionSpec.additionalProperties) {
-        const newKey = util.randomKey();
+        const newKey = util.randomKey(() => this.mocker.random.next());
         if (newKey in properties) {
           console.error(`generate additionalProperties for ${objName} fail`);
         } else {
@@ -287,7 +304,7 @@ export default class SwaggerMocker {
       }
       cacheItem = createTrunkItem(cacheChild, buildItemOption(definitionSpec));
     } else {
-      cacheItem = createLeafItem(example, buildItemOption(definitionSpec));
+      cacheItem = createLeafItem(example, buildItemOption(definitionSpec), definitionSpec);
     }
     cacheItem.isMocked = true;
     const requiredProperties = this.getRequiredProperties(definitionSpec);
@@ -328,7 +345,19 @@ export default class SwaggerMocker {
     if (disDetail.discriminatorMap && Object.keys(disDetail.discriminatorMap).length > 0) {
       const properties = this.getProperties(disDetail, new Set<string>());
       let discriminatorValue;
-      if (properties[discriminator] && Array.isArray(properties[discriminator].enum)) {
+      const onDiscriminator = getRuleValidator(this.exampleRule).onDiscriminator;
+      if (onDiscriminator && this.exampleRule) {
+        // the base schema is in the map as well, but only its subtypes are complete
+        const subtypes = Object.keys(disDetail.discriminatorMap).filter(
+          (value) =>
+            disDetail.discriminatorMap[value] &&
+            this.jsonLoader.resolveRefObj(disDetail.discriminatorMap[value]) !== disDetail
+        );
+        discriminatorValue = onDiscriminator({
+          values: subtypes.length > 0 ? subtypes : Object.keys(disDetail.discriminatorMap),
+          rule: this.exampleRule,
+        });
+      } else if (properties[discriminator] && Array.isArray(properties[discriminator].enum)) {
         discriminatorValue = properties[discriminator].enum[0];
       } else {
         discriminatorValue = Object.keys(disDetail.discriminatorMap)[0];
@@ -9,7 +9,7 @@ import {
   reBuildExample,
 } from "./exampleCache";
 import * as utils from "./util";
-import { ExampleRule, getRuleValidator } from "./exampleRule";
+import { ExampleRule, getRuleValidator, getRuleValueMapper } from "./exampleRule";
 import SwaggerMocker from "./swaggerMocker";
 
 export default class Translator {
@@ -117,7 +117,13 @@ export default class Translator {
   public filterBodyContent(body: any, schema: any, isRequest: boolean = true) {
     const cache = this.cacheBodyContent(body, schema, isRequest);
     const validator = getRuleValidator(this.exampleRule).onSchema;
-    return reBuildExample(cache, isRequest, schema, validator);
+    return reBuildExample(
+      cache,
+      isRequest,
+      schema,
+      validator,
+      getRuleValueMapper(this.exampleRule)
+    );
   }
   public cacheBodyContent(body: any, schema: any, isRequest: boolean) {
     if (!schema) {
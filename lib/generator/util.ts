@@ -18,8 +18,8 @@ export function isObject(definitionSpec: any) {
     definitionSpec.type === "object" || "properties" in definitionSpec || "allOf" in definitionSpec
   );
 }
-export function randomKey() {
-  return `key${Math.ceil(Math.random() * 10000)}`;
+export function randomKey(random: () => number = Math.random) {
+  return `key${Math.ceil(random() * 10000)}`;
 }
 
 export function getRp(specFilePath: string): string {
@@ -0,0 +1,138 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { unknownResourceProvider } from "../util/constants";
+import type { LiveValidationIssue } from "./liveValidator";
+
+export interface LiveValidationLimiterOption {
+  // Rate in [0, 1] of the validations to run, by operationId. "*" applies to the other operations.
+  samplingRates?: { [operationId: string]: number };
+  // Identical issues, i.e. the same code, schemaPath and operationId, are reported once per window
+  // with the count of occurrences. 0 only collapses the identical issues of one validation.
+  issueDedupeWindowInMs?: number;
+  // Validation time in milliseconds each provider could spend per second, so that one noisy
+  // provider can't take all the CPU. Validations over the budget are skipped.
+  providerBudgetInMsPerSecond?: number;
+}
+
+export type LiveValidationSkipReason = "sampling" | "providerBudget";
+
+interface DedupeEntry {
+  windowStart: number;
+  // Occurrences dropped in the window, reported with the next occurrence after the window
+  suppressedCount: number;
+}
+
+interface BudgetBucket {
+  availableMs: number;
+  updatedAt: number;
+}
+
+// Forget the entries without suppressed occurrences when there are too many distinct issues
+const maxDedupeEntries = 10000;
+
+export class LiveValidationLimiter {
+  private dedupeEntries = new Map<string, DedupeEntry>();
+
+  private budgetBuckets = new Map<string, BudgetBucket>();
+
+  public constructor(
+    private option: LiveValidationLimiterOption,
+    private random: () => number = Math.random
+  ) {}
+
+  public getSkipReason(
+    providerNamespace: string | undefined,
+    operationId: string,
+    now: number = Date.now()
+  ): LiveValidationSkipReason | undefined {
+    const samplingRates = this.option.samplingRates;
+    if (samplingRates !== undefined) {
+      const rate = samplingRates[operationId] ?? samplingRates["*"] ?? 1;
+      if (rate < 1 && this.random() >= rate) {
+        return "sampling";
+      }
+    }
+    if (this.option.providerBudgetInMsPerSecond !== undefined) {
+      const bucket = this.getBudgetBucket(providerNamespace, now);
+      if (bucket.availableMs <= 0) {
+        return "providerBudget";
+      }
+    }
+    return undefined;
+  }
+
+  public consumeBudget(
+    providerNamespace: string | undefined,
+    durationInMs: number,
+    now: number = Date.now()
+  ) {
+    if (this.option.providerBudgetInMsPerSecond !== undefined) {
+      this.getBudgetBucket(providerNamespace, now).availableMs -= durationInMs;
+    }
+  }
+
+  /**
+   * Collapses the identical issues into one with count, and drops the issues already reported
+   * in the dedupe window. Returns the issues as is if dedupe is not enabled.
+   */
+  public dedupeIssues(
+    operationId: string,
+    issues: LiveValidationIssue[],
+    now: number = Date.now()
+  ): LiveValidationIssue[] {
+    const windowInMs = this.option.issueDedupeWindowInMs;
+    if (windowInMs === undefined) {
+      return issues;
+    }
+
+    const collapsed = new Map<string, LiveValidationIssue>();
+    for (const issue of issues) {
+      const key = JSON.stringify([issue.code, issue.schemaPath, operationId]);
+      const existing = collapsed.get(key);
+      if (existing === undefined) {
+        collapsed.set(key, { ...issue, count: 1 });
+      } else {
+        existing.count!++;
+      }
+    }
+
+    const result: LiveValidationIssue[] = [];
+    for (const [key, issue] of collapsed) {
+      const entry = this.dedupeEntries.get(key);
+      if (entry !== undefined && now - entry.windowStart < windowInMs) {
+        entry.suppressedCount += issue.count!;
+        continue;
+      }
+      issue.count! += entry?.suppressedCount ?? 0;
+      result.push(issue);
+      this.dedupeEntries.set(key, { windowStart: now, suppressedCount: 0 });
+    }
+
+    if (this.dedupeEntries.size > maxDedupeEntries) {
+      for (const [key, entry] of this.dedupeEntries) {
+        if (entry.suppressedCount === 0) {
+          this.dedupeEntries.delete(key);
+        }
+      }
+    }
+    return result;
+  }
+
+  // Token bucket which refills budget per second, up to one second of budget.
+  private getBudgetBucket(providerNamespace: string | undefined, now: number) {
+    const budget = this.option.providerBudgetInMsPerSecond!;
+    const provider = providerNamespace || unknownResourceProvider;
+    let bucket = this.budgetBuckets.get(provider);
+    if (bucket === undefined) {
+      bucket = { availableMs: budget, updatedAt: now };
+      this.budgetBuckets.set(provider, bucket);
+    }
+    bucket.availableMs = Math.min(
+      budget,
+      bucket.availableMs + ((now - bucket.updatedAt) / 1000) * budget
+    );
+    bucket.updatedAt = now;
+    return bucket;
+  }
+}
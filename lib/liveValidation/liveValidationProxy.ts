@@ -0,0 +1,250 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { URL } from "url";
+import { log } from "../util/logging";
+import { kvPairsToObject } from "../util/utils";
+import {
+  LiveValidationIssue,
+  LiveValidator,
+  RequestResponseLiveValidationResult,
+  RequestResponsePair,
+} from "./liveValidator";
+import { readMessageBuffer } from "./liveValidationServer";
+
+export interface LiveValidationProxyOptions {
+  port: number;
+  host?: string;
+  // The url of the upstream service, e.g. http://localhost:5000
+  upstream: string;
+  // Validation issues are appended to this file, one json record per line
+  issueFilePath?: string;
+  // Add x-oav-* headers with the validation summary to the response returned to the client
+  addValidationHeaders?: boolean;
+}
+
+export interface LiveValidationProxyRecord {
+  timestamp: string;
+  url: string;
+  method: string;
+  statusCode: string;
+  operationId: string;
+  apiVersion: string;
+  requestErrors: LiveValidationIssue[];
+  responseErrors: LiveValidationIssue[];
+  runtimeExceptions: Array<{ code: string; message: string }>;
+}
+
+export const validationResultHeader = "x-oav-validation-result";
+export const validationIssueCountHeader = "x-oav-issue-count";
+export const validationOperationIdHeader = "x-oav-operation-id";
+
+// Hop-by-hop headers and headers that are recomputed since the body is buffered
+const skippedHeaders = ["host", "connection", "keep-alive", "transfer-encoding", "content-length"];
+
+/**
+ * Reverse proxy which forwards every call to the upstream service and validates the captured
+ * request/response pair with LiveValidator before returning the response to the client.
+ */
+export class LiveValidationProxy {
+  private server?: http.Server;
+
+  private upstreamUrl: URL;
+
+  public constructor(
+    private liveValidator: LiveValidator,
+    private options: LiveValidationProxyOptions
+  ) {
+    this.upstreamUrl = new URL(options.upstream);
+  }
+
+  public async start(): Promise<AddressInfo> {
+    await this.liveValidator.initialize();
+    if (this.options.issueFilePath !== undefined) {
+      fs.mkdirSync(path.dirname(path.resolve(this.options.issueFilePath)), { recursive: true });
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((e) => {
+        log.error(`Failed to proxy ${req.method} ${req.url}. ErrorMessage:${e?.message}`);
+        if (!res.headersSent) {
+          res.writeHead(502, { "Content-Type": "text/plain" });
+        }
+        res.end(`Failed to proxy the request to ${this.options.upstream}: ${e?.message}`);
+      });
+    });
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.removeListener("error", reject);
+        resolve();
+      });
+    });
+    const address = server.address() as AddressInfo;
+    log.info(
+      `Live validation proxy is listening on ${address.address}:${address.port}, upstream: ${this.options.upstream}`
+    );
+    return address;
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (server === undefined) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => {
+      server.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const requestBody = await readMessageBuffer(req);
+    const upstreamResponse = await this.forward(req, requestBody);
+    const responseBody = await readMessageBuffer(upstreamResponse);
+
+    const pair = toRequestResponsePair(req, requestBody, upstreamResponse, responseBody);
+    const record = await this.validate(pair);
+
+    const headers = filterHeaders(upstreamResponse.headers);
+    if (this.options.addValidationHeaders) {
+      const issueCount =
+        record.requestErrors.length +
+        record.responseErrors.length +
+        record.runtimeExceptions.length;
+      headers[validationResultHeader] = issueCount === 0 ? "passed" : "failed";
+      headers[validationIssueCountHeader] = issueCount.toString();
+      headers[validationOperationIdHeader] = record.operationId;
+    }
+    headers["content-length"] = responseBody.length.toString();
+    res.writeHead(upstreamResponse.statusCode ?? 502, headers);
+    res.end(responseBody);
+  }
+
+  private async forward(req: http.IncomingMessage, body: Buffer): Promise<http.IncomingMessage> {
+    const target = new URL(req.url ?? "/", this.upstreamUrl);
+    const headers = filterHeaders(req.headers);
+    headers.host = target.host;
+    headers["content-length"] = body.length.toString();
+    const client = target.protocol === "https:" ? https : http;
+    return new Promise((resolve, reject) => {
+      const upstreamRequest = client.request(target, { method: req.method, headers }, resolve);
+      upstreamRequest.on("error", reject);
+      upstreamRequest.end(body);
+    });
+  }
+
+  private async validate(pair: RequestResponsePair): Promise<LiveValidationProxyRecord> {
+    const { liveRequest, liveResponse } = pair;
+    const record: LiveValidationProxyRecord = {
+      timestamp: new Date().toISOString(),
+      url: liveRequest.url,
+      method: liveRequest.method,
+      statusCode: liveResponse.statusCode,
+      operationId: "",
+      apiVersion: "",
+      requestErrors: [],
+      responseErrors: [],
+      runtimeExceptions: [],
+    };
+    let result: RequestResponseLiveValidationResult;
+    try {
+      result = await this.liveValidator.validateLiveRequestResponse(pair);
+    } catch (e) {
+      record.runtimeExceptions.push({ code: "RUNTIME_ERROR", message: e?.message });
+      this.writeRecord(record);
+      return record;
+    }
+    const { requestValidationResult, responseValidationResult } = result;
+    record.operationId = requestValidationResult.operationInfo.operationId;
+    record.apiVersion = requestValidationResult.operationInfo.apiVersion;
+    record.requestErrors = requestValidationResult.errors;
+    // request runtime exception is reused as the response result when the operation isn't found
+    if (responseValidationResult !== requestValidationResult) {
+      record.responseErrors = responseValidationResult.errors;
+    }
+    for (const exception of [
+      result.runtimeException,
+      requestValidationResult.runtimeException,
+      responseValidationResult !== requestValidationResult
+        ? responseValidationResult.runtimeException
+        : undefined,
+    ]) {
+      if (exception !== undefined) {
+        record.runtimeExceptions.push({ code: exception.code, message: exception.message });
+      }
+    }
+    if (
+      record.requestErrors.length > 0 ||
+      record.responseErrors.length > 0 ||
+      record.runtimeExceptions.length > 0
+    ) {
+      this.writeRecord(record);
+    }
+    return record;
+  }
+
+  private writeRecord(record: LiveValidationProxyRecord) {
+    if (this.options.issueFilePath === undefined) {
+      return;
+    }
+    fs.appendFileSync(this.options.issueFilePath, `${JSON.stringify(record)}\n`);
+  }
+}
+
+const filterHeaders = (headers: http.IncomingHttpHeaders): { [name: string]: string } => {
+  const result: { [name: string]: string } = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || skippedHeaders.includes(name.toLowerCase())) {
+      continue;
+    }
+    result[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  return result;
+};
+
+const parseBody = (body: Buffer, contentType: string | undefined) => {
+  if (body.length === 0) {
+    return undefined;
+  }
+  const text = body.toString("utf8");
+  if (contentType !== undefined && !/json/i.test(contentType)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const toRequestResponsePair = (
+  req: http.IncomingMessage,
+  requestBody: Buffer,
+  res: http.IncomingMessage,
+  responseBody: Buffer
+): RequestResponsePair => {
+  const url = req.url ?? "/";
+  const requestHeaders = filterHeaders(req.headers);
+  const responseHeaders = filterHeaders(res.headers);
+  return {
+    liveRequest: {
+      url,
+      method: (req.method ?? "GET").toLowerCase(),
+      headers: requestHeaders,
+      query: kvPairsToObject(new URL(url, "https://management.azure.com").searchParams),
+      body: parseBody(requestBody, requestHeaders["content-type"]),
+    },
+    liveResponse: {
+      statusCode: (res.statusCode ?? 500).toString(),
+      headers: responseHeaders,
+      body: parseBody(responseBody, responseHeaders["content-type"]),
+    },
+  };
+};
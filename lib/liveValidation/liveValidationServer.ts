@@ -0,0 +1,236 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as http from "http";
+import { AddressInfo } from "net";
+import { URL } from "url";
+import { ApiValidationErrorCode, apiValidationErrors } from "../util/errorDefinitions";
+import { log } from "../util/logging";
+import { LiveValidator, RequestResponsePair, ValidateOptions } from "./liveValidator";
+import { LiveRequest, LiveResponse } from "./operationValidator";
+
+export interface LiveValidationServerOptions {
+  port: number;
+  host?: string;
+}
+
+export interface LiveResponseValidationInput {
+  readonly liveResponse: LiveResponse;
+  readonly specOperation: { url: string; method: string };
+}
+
+export const liveValidationServerRoutes = {
+  ready: "/ready",
+  statistics: "/statistics",
+  metrics: "/metrics",
+  validateRequest: "/validate/request",
+  validateResponse: "/validate/response",
+  validateRequestResponse: "/validate",
+};
+
+/**
+ * Exposes a LiveValidator over HTTP. Validation results are returned as JSON, in the same shape
+ * LiveValidator returns them.
+ */
+export class LiveValidationServer {
+  private server?: http.Server;
+
+  private initialized: boolean = false;
+
+  public constructor(
+    private liveValidator: LiveValidator,
+    private options: LiveValidationServerOptions
+  ) {}
+
+  /**
+   * Starts listening and then initializes the live validator, so that the readiness endpoint
+   * could be polled while the specs are being loaded.
+   */
+  public async start(): Promise<AddressInfo> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((e) => {
+        log.error(`Failed to handle ${req.method} ${req.url}. ErrorMessage:${e?.message}`);
+        this.sendJson(res, 500, { code: "INTERNAL_ERROR", message: e?.message });
+      });
+    });
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.removeListener("error", reject);
+        resolve();
+      });
+    });
+    const address = server.address() as AddressInfo;
+    log.info(`Live validation server is listening on ${address.address}:${address.port}`);
+
+    await this.liveValidator.initialize();
+    this.initialized = true;
+    return address;
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (server === undefined) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => {
+      server.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  public isReady(): boolean {
+    return (
+      this.initialized &&
+      (!this.liveValidator.options.loadValidatorInBackground ||
+        this.liveValidator.isLoadInBackgroundCompleted())
+    );
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = (req.method ?? "GET").toUpperCase();
+
+    if (url.pathname === liveValidationServerRoutes.ready) {
+      const ready = this.isReady();
+      this.sendJson(res, ready ? 200 : 503, {
+        ready,
+        initialized: this.initialized,
+        loadInBackgroundCompleted: this.liveValidator.isLoadInBackgroundCompleted(),
+      });
+      return;
+    }
+
+    if (url.pathname === liveValidationServerRoutes.statistics) {
+      this.sendJson(res, 200, this.liveValidator.statistics.getSnapshot());
+      return;
+    }
+
+    if (url.pathname === liveValidationServerRoutes.metrics) {
+      const payload = this.liveValidator.statistics.toPrometheus();
+      res.writeHead(200, {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        "Content-Length": Buffer.byteLength(payload),
+      });
+      res.end(payload);
+      return;
+    }
+
+    const route = Object.values(liveValidationServerRoutes).find((r) => r === url.pathname);
+    if (route === undefined) {
+      this.sendJson(res, 404, { code: "NOT_FOUND", message: `Unknown path ${url.pathname}` });
+      return;
+    }
+    if (method !== "POST") {
+      this.sendJson(res, 405, { code: "METHOD_NOT_ALLOWED", message: `Use POST on ${route}` });
+      return;
+    }
+    if (!this.initialized) {
+      this.sendJson(res, 503, {
+        code: "NOT_READY",
+        message: "Live validator is still initializing.",
+      });
+      return;
+    }
+
+    let body: any;
+    try {
+      body = JSON.parse(await readMessageBody(req));
+    } catch (e) {
+      this.sendJson(res, 400, { code: "INVALID_JSON", message: e?.message });
+      return;
+    }
+    const { options, unknownCodes } = getValidateOptions(url);
+    if (unknownCodes.length > 0) {
+      this.sendJson(res, 400, {
+        code: "INVALID_INCLUDE_ERRORS",
+        message: `Unknown error codes in includeErrors: ${unknownCodes.join(", ")}`,
+      });
+      return;
+    }
+
+    switch (route) {
+      case liveValidationServerRoutes.validateRequest:
+        this.sendJson(
+          res,
+          200,
+          await this.liveValidator.validateLiveRequest(body as LiveRequest, options)
+        );
+        break;
+      case liveValidationServerRoutes.validateResponse: {
+        const input = body as LiveResponseValidationInput;
+        if (input?.liveResponse === undefined || input?.specOperation === undefined) {
+          this.sendJson(res, 400, {
+            code: "INCORRECT_INPUT",
+            message: 'Request body must contain "liveResponse" and "specOperation".',
+          });
+          break;
+        }
+        this.sendJson(
+          res,
+          200,
+          await this.liveValidator.validateLiveResponse(
+            input.liveResponse,
+            input.specOperation,
+            options
+          )
+        );
+        break;
+      }
+      default:
+        this.sendJson(
+          res,
+          200,
+          await this.liveValidator.validateLiveRequestResponse(body as RequestResponsePair, options)
+        );
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, statusCode: number, body: unknown) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    const payload = JSON.stringify(body);
+    res.writeHead(statusCode, {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Length": Buffer.byteLength(payload),
+    });
+    res.end(payload);
+  }
+}
+
+/**
+ * `includeErrors` could be passed as a comma separated query parameter, e.g.
+ * `/validate?includeErrors=INVALID_TYPE,OBJECT_MISSING_REQUIRED_PROPERTY`. The unknown codes are
+ * returned to reject the request.
+ */
+const getValidateOptions = (url: URL): { options: ValidateOptions; unknownCodes: string[] } => {
+  const includeErrors = url.searchParams.get("includeErrors");
+  if (!includeErrors) {
+    return { options: {}, unknownCodes: [] };
+  }
+  const codes = includeErrors
+    .split(",")
+    .map((code) => code.trim())
+    .filter((code) => code.length > 0);
+  return {
+    options: { includeErrors: codes.filter(isApiValidationErrorCode) },
+    unknownCodes: codes.filter((code) => !isApiValidationErrorCode(code)),
+  };
+};
+
+const isApiValidationErrorCode = (code: string): code is ApiValidationErrorCode =>
+  Object.keys(apiValidationErrors).includes(code);
+
+export const readMessageBody = async (message: http.IncomingMessage): Promise<string> =>
+  (await readMessageBuffer(message)).toString("utf8");
+
+export const readMessageBuffer = async (message: http.IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    message.on("data", (chunk: Buffer) => chunks.push(chunk));
+    message.on("end", () => resolve(Buffer.concat(chunks)));
+    message.on("error", reject);
+  });
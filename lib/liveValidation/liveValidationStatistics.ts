@@ -0,0 +1,245 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { unknownApiVersion, unknownOperationId, unknownResourceProvider } from "../util/constants";
+import { ApiValidationErrorCode } from "../util/errorDefinitions";
+import { ValidationRequest } from "./operationValidator";
+
+export type ValidationKind = "request" | "response";
+
+// exception means the validation could not complete, i.e. isSuccessful is undefined.
+// skipped means the validation is skipped by sampling or the provider budget.
+export type ValidationOutcome = "success" | "failure" | "exception" | "skipped";
+
+export interface OperationLabels {
+  providerNamespace: string;
+  apiVersion: string;
+  operationId: string;
+}
+
+export interface ValidationCount extends OperationLabels {
+  kind: ValidationKind;
+  outcome: ValidationOutcome;
+  count: number;
+}
+
+export interface IssueCount extends OperationLabels {
+  kind: ValidationKind;
+  code: ApiValidationErrorCode;
+  count: number;
+}
+
+export interface UnmatchedOperationCount {
+  providerNamespace: string;
+  apiVersion: string;
+  // Error code of the operation search, e.g. OPERATION_NOT_FOUND_IN_CACHE_WITH_API
+  code: string;
+  count: number;
+}
+
+export interface LatencyHistogram extends OperationLabels {
+  kind: ValidationKind;
+  // Counts of the durations within each bucket of latencyBucketsInMs, and the last one for
+  // the durations above all buckets.
+  bucketCounts: number[];
+  sumInMs: number;
+  count: number;
+}
+
+export interface LiveValidationStatisticsSnapshot {
+  startTime: string;
+  latencyBucketsInMs: number[];
+  validations: ValidationCount[];
+  issues: IssueCount[];
+  unmatchedOperations: UnmatchedOperationCount[];
+  latencies: LatencyHistogram[];
+}
+
+export const latencyBucketsInMs = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000];
+
+/**
+ * Aggregates the outcome, issues and latency of live validations in process, broken down by
+ * provider, api-version and operationId.
+ */
+export class LiveValidationStatistics {
+  private startTime = new Date();
+
+  private validations = new Map<string, ValidationCount>();
+
+  private issues = new Map<string, IssueCount>();
+
+  private unmatchedOperations = new Map<string, UnmatchedOperationCount>();
+
+  private latencies = new Map<string, LatencyHistogram>();
+
+  public recordValidation(
+    kind: ValidationKind,
+    validationRequest: ValidationRequest | undefined,
+    operationId: string | undefined,
+    issueCodes: ApiValidationErrorCode[],
+    isSuccessful: boolean | undefined,
+    durationInMs: number
+  ) {
+    const labels = getOperationLabels(validationRequest, operationId);
+    const outcome: ValidationOutcome =
+      isSuccessful === undefined ? "exception" : isSuccessful ? "success" : "failure";
+    getOrAdd(this.validations, { ...labels, kind, outcome, count: 0 }).count++;
+    for (const code of issueCodes) {
+      getOrAdd(this.issues, { ...labels, kind, code, count: 0 }).count++;
+    }
+
+    const histogram = getOrAdd(this.latencies, {
+      ...labels,
+      kind,
+      bucketCounts: latencyBucketsInMs.map(() => 0).concat(0),
+      sumInMs: 0,
+      count: 0,
+    });
+    const bucket = latencyBucketsInMs.findIndex((it) => durationInMs <= it);
+    histogram.bucketCounts[bucket === -1 ? latencyBucketsInMs.length : bucket]++;
+    histogram.sumInMs += durationInMs;
+    histogram.count++;
+  }
+
+  public recordSkippedValidation(
+    kind: ValidationKind,
+    validationRequest: ValidationRequest | undefined,
+    operationId: string | undefined
+  ) {
+    const labels = getOperationLabels(validationRequest, operationId);
+    getOrAdd(this.validations, { ...labels, kind, outcome: "skipped", count: 0 }).count++;
+  }
+
+  public recordUnmatchedOperation(validationRequest: ValidationRequest | undefined, code: string) {
+    const { providerNamespace, apiVersion } = getOperationLabels(validationRequest, undefined);
+    getOrAdd(this.unmatchedOperations, { providerNamespace, apiVersion, code, count: 0 }).count++;
+  }
+
+  public getSnapshot(): LiveValidationStatisticsSnapshot {
+    const copy = <T>(map: Map<string, T>): T[] =>
+      [...map.values()].map((it) => JSON.parse(JSON.stringify(it)));
+    return {
+      startTime: this.startTime.toISOString(),
+      latencyBucketsInMs: [...latencyBucketsInMs],
+      validations: copy(this.validations),
+      issues: copy(this.issues),
+      unmatchedOperations: copy(this.unmatchedOperations),
+      latencies: copy(this.latencies),
+    };
+  }
+
+  public reset() {
+    this.startTime = new Date();
+    this.validations.clear();
+    this.issues.clear();
+    this.unmatchedOperations.clear();
+    this.latencies.clear();
+  }
+
+  /**
+   * Formats the statistics in the Prometheus text exposition format. The latency histogram is in
+   * seconds, following the Prometheus naming convention.
+   */
+  public toPrometheus(): string {
+    const lines: string[] = [];
+    const addMetric = (name: string, type: string, help: string) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    };
+
+    addMetric("oav_live_validations_total", "counter", "Live validations by outcome.");
+    for (const it of this.validations.values()) {
+      lines.push(
+        `oav_live_validations_total${formatLabels({
+          ...operationLabels(it),
+          kind: it.kind,
+          outcome: it.outcome,
+        })} ${it.count}`
+      );
+    }
+
+    addMetric("oav_live_validation_issues_total", "counter", "Live validation issues by code.");
+    for (const it of this.issues.values()) {
+      lines.push(
+        `oav_live_validation_issues_total${formatLabels({
+          ...operationLabels(it),
+          kind: it.kind,
+          code: it.code,
+        })} ${it.count}`
+      );
+    }
+
+    addMetric(
+      "oav_live_validation_unmatched_operations_total",
+      "counter",
+      "Live validations whose operation is not found in the specs."
+    );
+    for (const it of this.unmatchedOperations.values()) {
+      lines.push(
+        `oav_live_validation_unmatched_operations_total${formatLabels({
+          provider: it.providerNamespace,
+          api_version: it.apiVersion,
+          code: it.code,
+        })} ${it.count}`
+      );
+    }
+
+    const histogramName = "oav_live_validation_duration_seconds";
+    addMetric(histogramName, "histogram", "Duration of live validations.");
+    for (const it of this.latencies.values()) {
+      const labels = { ...operationLabels(it), kind: it.kind };
+      let cumulativeCount = 0;
+      latencyBucketsInMs.forEach((upperBound, idx) => {
+        cumulativeCount += it.bucketCounts[idx];
+        lines.push(
+          `${histogramName}_bucket${formatLabels({
+            ...labels,
+            le: String(upperBound / 1000),
+          })} ${cumulativeCount}`
+        );
+      });
+      lines.push(`${histogramName}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${it.count}`);
+      lines.push(`${histogramName}_sum${formatLabels(labels)} ${it.sumInMs / 1000}`);
+      lines.push(`${histogramName}_count${formatLabels(labels)} ${it.count}`);
+    }
+
+    return lines.join("\n") + "\n";
+  }
+}
+
+const getOperationLabels = (
+  validationRequest: ValidationRequest | undefined,
+  operationId: string | undefined
+): OperationLabels => ({
+  providerNamespace: validationRequest?.providerNamespace || unknownResourceProvider,
+  apiVersion: validationRequest?.apiVersion || unknownApiVersion,
+  operationId: operationId ?? unknownOperationId,
+});
+
+// Gets the entry with the same labels, i.e. all fields other than the aggregated values
+const getOrAdd = <T extends { count: number }>(map: Map<string, T>, entry: T): T => {
+  const key = JSON.stringify(
+    Object.entries(entry).filter(([k]) => !["count", "bucketCounts", "sumInMs"].includes(k))
+  );
+  let existing = map.get(key);
+  if (existing === undefined) {
+    existing = entry;
+    map.set(key, existing);
+  }
+  return existing;
+};
+
+const operationLabels = (it: OperationLabels) => ({
+  provider: it.providerNamespace,
+  api_version: it.apiVersion,
+  operation_id: it.operationId,
+});
+
+const formatLabels = (labels: { [name: string]: string }) =>
+  "{" +
+  Object.entries(labels)
+    .map(
+      ([name, value]) =>
+        `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+    )
+    .join(",") +
+  "}";
@@ -8,6 +8,8 @@ import { resolve as pathResolve } from "path";
 import { ParsedUrlQuery } from "querystring";
 import * as util from "util";
 import { URL } from "url";
+import * as fs from "fs-extra";
+import { Container } from "inversify";
 import * as _ from "lodash";
 import * as models from "../models";
 import { requestResponseDefinition } from "../models/requestResponse";
@@ -22,15 +24,31 @@ import { log } from "../util/logging";
 import * as utils from "../util/utils";
 import { RuntimeException } from "../util/validationError";
 import { inversifyGetContainer, inversifyGetInstance, TYPES } from "../inversifyUtils";
+import { FileLoader, getContentHash } from "../swagger/fileLoader";
 import { setDefaultOpts } from "../swagger/loader";
+import {
+  getSnapshotCachePath,
+  readSnapshotCache,
+  writeSnapshotCache,
+} from "../swagger/snapshotCache";
 import { apiValidationErrors, ApiValidationErrorCode } from "../util/errorDefinitions";
 import {
   kvPairsToObject,
   getProviderFromPathTemplate,
   getProviderFromSpecPath,
 } from "../util/utils";
-import { LiveValidatorLoader, LiveValidatorLoaderOption } from "./liveValidatorLoader";
-import { OperationSearcher } from "./operationSearcher";
+import {
+  LiveValidationLimiter,
+  LiveValidationLimiterOption,
+  LiveValidationSkipReason,
+} from "./liveValidationLimiter";
+import { LiveValidationStatistics, ValidationKind } from "./liveValidationStatistics";
+import {
+  LiveValidatorLoader,
+  LiveValidatorLoaderOption,
+  LiveValidatorLoaderState,
+} from "./liveValidatorLoader";
+import { OperationSearcher, OperationSearcherOption } from "./operationSearcher";
 import {
   LiveRequest,
   LiveResponse,
@@ -42,7 +60,10 @@ import {
 
 const glob = require("glob");
 
-export interface LiveValidatorOptions extends LiveValidatorLoaderOption {
+export interface LiveValidatorOptions
+  extends LiveValidatorLoaderOption,
+    LiveValidationLimiterOption,
+    OperationSearcherOption {
   swaggerPaths: string[];
   git: {
     shouldClone: boolean;
@@ -68,6 +89,8 @@ export interface LiveValidationResult {
   readonly operationInfo: OperationContext;
   readonly errors: LiveValidationIssue[];
   readonly runtimeException?: RuntimeException;
+  // Set when the validation is skipped by sampling or the provider budget
+  readonly skipReason?: LiveValidationSkipReason;
 }
 
 export interface RequestResponseLiveValidationResult {
@@ -80,8 +103,23 @@ export type LiveValidationIssue = {
   code: ApiValidationErrorCode;
   pathsInPayload: string[];
   documentationUrl?: string;
+  // Occurrences of the issue collapsed into this one, only set with issueDedupeWindowInMs
+  count?: number;
 } & Omit<SchemaValidateIssue, "code">;
 
+interface LiveValidatorCacheState {
+  loader: LiveValidatorLoaderState;
+  operations: OperationSearcher["cache"];
+  // The specs loaded without error
+  specs: SwaggerSpec[];
+}
+
+export interface SwaggerChanges {
+  added: string[];
+  replaced: string[];
+  removed: string[];
+}
+
 /**
  * Additional data to log.
  */
@@ -126,6 +164,8 @@ export class LiveValidator {
 
   public swaggerList: string[] = [];
 
+  public readonly statistics = new LiveValidationStatistics();
+
   private logFunction?: (message: string, level: string, meta?: Meta) => void;
 
   private loader?: LiveValidatorLoader;
@@ -134,6 +174,12 @@ export class LiveValidator {
 
   private validateRequestResponsePair?: SchemaValidateFunction;
 
+  private swaggerModifiedTimes = new Map<string, number>();
+
+  private watchTimer?: NodeJS.Timeout;
+
+  private limiter: LiveValidationLimiter;
+
   /**
    * Constructs LiveValidator based on provided options.
    *
@@ -175,7 +221,8 @@ export class LiveValidator {
 
     this.options = ops as LiveValidatorOptions;
     this.logging(`Creating livevalidator with options:${JSON.stringify(this.options)}`);
-    this.operationSearcher = new OperationSearcher(this.logging);
+    this.operationSearcher = new OperationSearcher(this.logging, this.options);
+    this.limiter = new LiveValidationLimiter(this.options);
   }
 
   /**
@@ -202,47 +249,35 @@ export class LiveValidator {
     // Construct array of swagger paths to be used for building a cache
     this.logging("Get swagger path.");
     const swaggerPaths = await this.getSwaggerPaths();
+    this.swaggerModifiedTimes = await getModifiedTimes(swaggerPaths);
     const container = inversifyGetContainer();
-    this.loader = inversifyGetInstance(LiveValidatorLoader, {
-      container,
-      fileRoot: this.options.directory,
-      ...this.options,
-      loadSuppression: this.options.loadSuppression ?? Object.keys(apiValidationErrors),
-    });
-    this.loader.logging = this.logging;
-
-    // re-set the transform context after set the logging function
-    this.loader.setTransformContext();
+    this.loader = this.createLoader(container);
     const schemaValidator = container.get(TYPES.schemaValidator) as SchemaValidator;
     this.validateRequestResponsePair = await schemaValidator.compileAsync(
       requestResponseDefinition
     );
 
-    const allSpecs: SwaggerSpec[] = [];
-    while (swaggerPaths.length > 0) {
-      const swaggerPath = swaggerPaths.shift()!;
-      this.swaggerList.push(swaggerPath);
-      const spec = await this.getSwaggerInitializer(this.loader!, swaggerPath);
-      if (spec !== undefined) {
-        allSpecs.push(spec);
+    const cachePath =
+      this.options.cacheDirectory === undefined
+        ? undefined
+        : getSnapshotCachePath(
+            this.options.cacheDirectory,
+            JSON.stringify({
+              options: _.omit(this.options, ["cacheDirectory", "git"]),
+              swaggerPaths,
+            })
+          );
+    let allSpecs =
+      cachePath === undefined ? undefined : await this.restoreFromCache(cachePath, container);
+    if (allSpecs !== undefined) {
+      this.swaggerList.push(...swaggerPaths);
+    } else {
+      allSpecs = await this.loadSwaggers(swaggerPaths);
+      if (cachePath !== undefined) {
+        await this.writeToCache(cachePath, container, allSpecs);
       }
     }
 
-    this.logging("Apply global transforms for all specs");
-    try {
-      this.loader.transformLoadedSpecs();
-    } catch (e) {
-      // keeps building validator if it fails to tranform specs coz global transformers catches the exceptions and continue other schema transformings;
-      // this error will be reported in validator building or validation runtime.
-      const errMsg = `Failed to transform loaded specs, detail error message:${e?.message}.ErrorStack:${e?.stack}`;
-      this.logging(
-        errMsg,
-        LiveValidatorLoggingLevels.error,
-        LiveValidatorLoggingTypes.specTrace,
-        "Oav.liveValidator.initialize.transformLoadedSpecs"
-      );
-    }
-
     if (this.options.loadValidatorInInitialize) {
       this.logging("Building validator in initialization time...");
       let spec;
@@ -314,10 +349,293 @@ export class LiveValidator {
     }
   }
 
+  private async loadSwaggers(swaggerPaths: string[]): Promise<SwaggerSpec[]> {
+    const allSpecs: SwaggerSpec[] = [];
+    for (const swaggerPath of swaggerPaths) {
+      this.swaggerList.push(swaggerPath);
+      const spec = await this.getSwaggerInitializer(this.loader!, swaggerPath);
+      if (spec !== undefined) {
+        allSpecs.push(spec);
+      }
+    }
+
+    this.logging("Apply global transforms for all specs");
+    try {
+      this.loader!.transformLoadedSpecs();
+    } catch (e) {
+      // keeps building validator if it fails to tranform specs coz global transformers catches the exceptions and continue other schema transformings;
+      // this error will be reported in validator building or validation runtime.
+      const errMsg = `Failed to transform loaded specs, detail error message:${e?.message}.ErrorStack:${e?.stack}`;
+      this.logging(
+        errMsg,
+        LiveValidatorLoggingLevels.error,
+        LiveValidatorLoggingTypes.specTrace,
+        "Oav.liveValidator.initialize.transformLoadedSpecs"
+      );
+    }
+    return allSpecs;
+  }
+
+  /**
+   * Restores the loaded and transformed specs with the operation cache from the cache
+   * directory, if none of the files they are built from is changed. Returns the loaded specs,
+   * or undefined if they need to be loaded.
+   */
+  private async restoreFromCache(
+    cachePath: string,
+    container: Container
+  ): Promise<SwaggerSpec[] | undefined> {
+    const startTime = Date.now();
+    const fileLoader = container.get(FileLoader);
+    let state: LiveValidatorCacheState | undefined;
+    try {
+      state = (await readSnapshotCache(cachePath, async (filePath) => {
+        try {
+          return getContentHash(await fileLoader.load(filePath));
+        } catch {
+          return undefined;
+        }
+      })) as LiveValidatorCacheState | undefined;
+    } catch (e) {
+      this.logging(
+        `Failed to read specs from cache ${cachePath}. ErrorMessage:${e?.message}`,
+        LiveValidatorLoggingLevels.warn,
+        LiveValidatorLoggingTypes.error,
+        "Oav.liveValidator.initialize.restoreFromCache"
+      );
+      return undefined;
+    }
+    if (state === undefined) {
+      this.logging(`No cache of the specs is found in ${this.options.cacheDirectory}`);
+      return undefined;
+    }
+
+    this.loader!.restoreState(state.loader, state.specs);
+    for (const [provider, apiVersions] of state.operations) {
+      this.operationSearcher.cache.set(provider, apiVersions);
+    }
+    this.logging(
+      `Restore specs from cache ${cachePath}`,
+      LiveValidatorLoggingLevels.info,
+      LiveValidatorLoggingTypes.perfTrace,
+      "Oav.liveValidator.initialize.restoreFromCache",
+      Date.now() - startTime
+    );
+    return state.specs;
+  }
+
+  /**
+   * Keeps the loaded specs and the operation cache in the cache directory. It must be done
+   * before building any validator.
+   */
+  private async writeToCache(cachePath: string, container: Container, allSpecs: SwaggerSpec[]) {
+    const startTime = Date.now();
+    const state: LiveValidatorCacheState = {
+      loader: this.loader!.getState(),
+      operations: this.operationSearcher.cache,
+      specs: allSpecs,
+    };
+    try {
+      await writeSnapshotCache(cachePath, container.get(FileLoader).getLoadedFileHashes(), state);
+      this.logging(
+        `Write specs to cache ${cachePath}`,
+        LiveValidatorLoggingLevels.info,
+        LiveValidatorLoggingTypes.perfTrace,
+        "Oav.liveValidator.initialize.writeToCache",
+        Date.now() - startTime
+      );
+    } catch (e) {
+      // The cache is an optimization only, e.g. the directory could be read only.
+      this.logging(
+        `Failed to write specs to cache ${cachePath}. ErrorMessage:${e?.message}`,
+        LiveValidatorLoggingLevels.warn,
+        LiveValidatorLoggingTypes.error,
+        "Oav.liveValidator.initialize.writeToCache"
+      );
+    }
+  }
+
   public isLoadInBackgroundCompleted() {
     return this.loadInBackgroundComplete;
   }
 
+  /**
+   * Loads a swagger file which is not loaded yet, and adds its operations to the cache. Unlike
+   * initialize, the file is transformed with the files it references only, e.g. the
+   * discriminator subtypes defined in other loaded files are unknown to it.
+   */
+  public async addSwagger(swaggerPath: string): Promise<void> {
+    if (this.findSwagger(swaggerPath) !== -1) {
+      throw new Error(`Swagger file ${swaggerPath} is already loaded.`);
+    }
+    const spec = await this.loadSwagger(swaggerPath, "Oav.liveValidator.addSwagger");
+    this.operationSearcher.addSpecToCache(spec);
+    this.swaggerList.push(swaggerPath);
+  }
+
+  /**
+   * Reloads a loaded swagger file. The cache keeps the previous operations of the file until
+   * the new ones are loaded with their validators, and keeps them if the file fails to load.
+   * Like addSwagger, the file is transformed with the files it references only.
+   */
+  public async replaceSwagger(swaggerPath: string): Promise<void> {
+    if (this.findSwagger(swaggerPath) === -1) {
+      throw new Error(`Swagger file ${swaggerPath} is not loaded.`);
+    }
+    const spec = await this.loadSwagger(swaggerPath, "Oav.liveValidator.replaceSwagger");
+    this.operationSearcher.removeSpecFromCache(spec._filePath);
+    this.operationSearcher.addSpecToCache(spec);
+  }
+
+  /**
+   * Removes the operations of a loaded swagger file from the cache.
+   */
+  public removeSwagger(swaggerPath: string): void {
+    const index = this.findSwagger(swaggerPath);
+    if (index === -1) {
+      throw new Error(`Swagger file ${swaggerPath} is not loaded.`);
+    }
+    const filePath = inversifyGetInstance(FileLoader, {
+      fileRoot: this.options.directory,
+    }).relativePath(pathResolve(swaggerPath));
+    const count = this.operationSearcher.removeSpecFromCache(filePath);
+    this.swaggerList.splice(index, 1);
+    this.logging(
+      `Removed ${count} operations of ${swaggerPath}`,
+      LiveValidatorLoggingLevels.info,
+      LiveValidatorLoggingTypes.trace,
+      "Oav.liveValidator.removeSwagger"
+    );
+  }
+
+  /**
+   * Finds the swagger files added, modified or deleted under options.directory since initialize
+   * or the last check, and applies them by addSwagger, replaceSwagger and removeSwagger. A file which fails
+   * to load is logged and not retried until it is modified again. The files added by addSwagger
+   * which are not found under options.directory are kept.
+   */
+  public async reloadChangedSwaggers(): Promise<SwaggerChanges> {
+    const changes: SwaggerChanges = { added: [], replaced: [], removed: [] };
+    const mtimes = await getModifiedTimes(await this.getSwaggerPaths());
+    for (const [swaggerPath, mtime] of mtimes) {
+      const lastMtime = this.swaggerModifiedTimes.get(swaggerPath);
+      if (lastMtime === mtime) {
+        continue;
+      }
+      const isLoaded = this.findSwagger(swaggerPath) !== -1;
+      try {
+        if (isLoaded) {
+          await this.replaceSwagger(swaggerPath);
+          changes.replaced.push(swaggerPath);
+        } else {
+          await this.addSwagger(swaggerPath);
+          changes.added.push(swaggerPath);
+        }
+      } catch (e) {
+        this.logging(
+          `Failed to reload swagger file ${swaggerPath}. ErrorMessage:${e?.message}`,
+          LiveValidatorLoggingLevels.error,
+          LiveValidatorLoggingTypes.error,
+          "Oav.liveValidator.reloadChangedSwaggers"
+        );
+      }
+    }
+    // Only the files found by the last check are removed, not the ones added by addSwagger
+    for (const swaggerPath of this.swaggerList.slice()) {
+      const resolved = pathResolve(swaggerPath);
+      if (this.swaggerModifiedTimes.has(resolved) && !mtimes.has(resolved)) {
+        this.removeSwagger(swaggerPath);
+        changes.removed.push(swaggerPath);
+      }
+    }
+    this.swaggerModifiedTimes = mtimes;
+    return changes;
+  }
+
+  /**
+   * Checks the swagger files by reloadChangedSwaggers every intervalInMs until stopWatch is
+   * called.
+   */
+  public startWatch(intervalInMs: number = 5000): void {
+    this.stopWatch();
+    const schedule = () => {
+      const timer = setTimeout(async () => {
+        try {
+          const changes = await this.reloadChangedSwaggers();
+          const count = changes.added.length + changes.replaced.length + changes.removed.length;
+          if (count > 0) {
+            this.logging(
+              `Reloaded swagger files. ${JSON.stringify(changes)}`,
+              LiveValidatorLoggingLevels.info,
+              LiveValidatorLoggingTypes.trace,
+              "Oav.liveValidator.watch"
+            );
+          }
+        } catch (e) {
+          this.logging(
+            `Failed to check swagger files. ErrorMessage:${e?.message}`,
+            LiveValidatorLoggingLevels.error,
+            LiveValidatorLoggingTypes.error,
+            "Oav.liveValidator.watch"
+          );
+        }
+        // Stopped or restarted while reloading
+        if (this.watchTimer === timer) {
+          schedule();
+        }
+      }, intervalInMs);
+      // Watching alone should not keep the process alive
+      timer.unref();
+      this.watchTimer = timer;
+    };
+    schedule();
+  }
+
+  public stopWatch() {
+    if (this.watchTimer !== undefined) {
+      clearTimeout(this.watchTimer);
+      this.watchTimer = undefined;
+    }
+  }
+
+  private createLoader(container: Container) {
+    const loader = inversifyGetInstance(LiveValidatorLoader, {
+      container,
+      fileRoot: this.options.directory,
+      recordLoadedFileHashes: this.options.cacheDirectory !== undefined,
+      ...this.options,
+      loadSuppression: this.options.loadSuppression ?? Object.keys(apiValidationErrors),
+    });
+    loader.logging = this.logging;
+
+    // re-set the transform context after set the logging function
+    loader.setTransformContext();
+    return loader;
+  }
+
+  // Loads the swagger file by a new loader and builds all its validators, without changing the
+  // cache. The global transforms only see the file and the files it references.
+  private async loadSwagger(swaggerPath: string, operationName: string): Promise<SwaggerSpec> {
+    const startTime = Date.now();
+    const loader = this.createLoader(inversifyGetContainer());
+    const spec = await loader.load(pathResolve(swaggerPath));
+    loader.transformLoadedSpecs();
+    await loader.buildAjvValidator(spec);
+    this.logging(
+      `Load swagger file ${swaggerPath}`,
+      LiveValidatorLoggingLevels.info,
+      LiveValidatorLoggingTypes.perfTrace,
+      operationName,
+      Date.now() - startTime
+    );
+    return spec;
+  }
+
+  private findSwagger(swaggerPath: string) {
+    const resolved = pathResolve(swaggerPath);
+    return this.swaggerList.findIndex((it) => pathResolve(it) === resolved);
+  }
+
   private async loadAllSpecValidatorInBackground(allSpecs: SwaggerSpec[]) {
     const backgroundStartTime = Date.now();
     utils.shuffleArray(allSpecs);
@@ -414,6 +732,7 @@ export class LiveValidator {
         undefined,
         info.validationRequest
       );
+      this.recordOperationNotMatched("request", info, error, Date.now() - startTime);
       return {
         isSuccessful: undefined,
         errors: [],
@@ -421,6 +740,10 @@ export class LiveValidator {
         operationInfo: info,
       };
     }
+    const skipped = this.getSkippedResult("request", info, options);
+    if (skipped !== undefined) {
+      return skipped;
+    }
     if (!liveRequest.query) {
       liveRequest.query = kvPairsToObject(
         new URL(liveRequest.url, "https://management.azure.com").searchParams
@@ -460,12 +783,23 @@ export class LiveValidator {
       elapsedTime,
       info.validationRequest
     );
+    this.statistics.recordValidation(
+      "request",
+      info.validationRequest,
+      info.operationId,
+      errors.map((it) => it.code),
+      runtimeException ? undefined : errors.length === 0,
+      elapsedTime
+    );
+    this.limiter.consumeBudget(info.validationRequest?.providerNamespace, elapsedTime);
+    const isSuccessful = runtimeException ? undefined : errors.length === 0;
+    errors = this.limiter.dedupeIssues(info.operationId, errors);
     if (!options.includeOperationMatch) {
       delete info.operationMatch;
       delete info.validationRequest;
     }
     return {
-      isSuccessful: runtimeException ? undefined : errors.length === 0,
+      isSuccessful,
       operationInfo: info,
       errors,
       runtimeException,
@@ -493,6 +827,7 @@ export class LiveValidator {
         undefined,
         info.validationRequest
       );
+      this.recordOperationNotMatched("response", info, error, Date.now() - startTime);
       return {
         isSuccessful: undefined,
         errors: [],
@@ -500,6 +835,13 @@ export class LiveValidator {
         operationInfo: { apiVersion: C.unknownApiVersion, operationId: C.unknownOperationId },
       };
     }
+    // The response of a pair is validated if its request is, see validateLiveRequestResponse
+    if (operationInfo === undefined) {
+      const skipped = this.getSkippedResult("response", info, options);
+      if (skipped !== undefined) {
+        return skipped;
+      }
+    }
     let errors: LiveValidationIssue[] = [];
     let runtimeException;
     this.transformResponseStatusCode(liveResponse);
@@ -536,12 +878,23 @@ export class LiveValidator {
       elapsedTime,
       info.validationRequest
     );
+    this.statistics.recordValidation(
+      "response",
+      info.validationRequest,
+      info.operationId,
+      errors.map((it) => it.code),
+      runtimeException ? undefined : errors.length === 0,
+      elapsedTime
+    );
+    this.limiter.consumeBudget(info.validationRequest?.providerNamespace, elapsedTime);
+    const isSuccessful = runtimeException ? undefined : errors.length === 0;
+    errors = this.limiter.dedupeIssues(info.operationId, errors);
     if (!options.includeOperationMatch) {
       delete info.operationMatch;
       delete info.validationRequest;
     }
     return {
-      isSuccessful: runtimeException ? undefined : errors.length === 0,
+      isSuccessful,
       operationInfo: info,
       errors,
       runtimeException,
@@ -624,6 +977,51 @@ export class LiveValidator {
     };
   }
 
+  private getSkippedResult(
+    kind: ValidationKind,
+    info: OperationContext,
+    options: ValidateOptions
+  ): LiveValidationResult | undefined {
+    const skipReason = this.limiter.getSkipReason(
+      info.validationRequest?.providerNamespace,
+      info.operationId
+    );
+    if (skipReason === undefined) {
+      return undefined;
+    }
+    this.statistics.recordSkippedValidation(kind, info.validationRequest, info.operationId);
+    if (!options.includeOperationMatch) {
+      delete info.operationMatch;
+      delete info.validationRequest;
+    }
+    return {
+      isSuccessful: undefined,
+      operationInfo: info,
+      errors: [],
+      skipReason,
+    };
+  }
+
+  private recordOperationNotMatched(
+    kind: ValidationKind,
+    info: OperationContext,
+    error: any,
+    durationInMs: number
+  ) {
+    this.statistics.recordUnmatchedOperation(
+      info.validationRequest,
+      error?.code ?? C.ErrorCodes.PotentialOperationSearchError.name
+    );
+    this.statistics.recordValidation(
+      kind,
+      info.validationRequest,
+      undefined,
+      [],
+      undefined,
+      durationInMs
+    );
+  }
+
   private transformResponseStatusCode(liveResponse: LiveResponse) {
     // If status code is passed as a status code string (e.g. "OK") transform it to the status code
     // number (e.g. '200').
@@ -660,6 +1058,10 @@ export class LiveValidator {
         const result = this.operationSearcher.search(info.validationRequest);
         info.apiVersion = result.apiVersion;
         info.operationMatch = result.operationMatch;
+        if (result.isApproximateMatch) {
+          info.isApproximateMatch = true;
+          info.requestedApiVersion = info.validationRequest.apiVersion;
+        }
       }
       info.operationId = info.operationMatch.operation.operationId!;
       return { info };
@@ -722,7 +1124,7 @@ export class LiveValidator {
       this.logging(
         `Using user provided swagger paths by options.swaggerPaths. Total paths count: ${this.options.swaggerPaths.length}`
       );
-      return this.options.swaggerPaths;
+      return [...this.options.swaggerPaths];
     } else {
       const allJsonsPattern = path.join(this.options.directory, "/specification/**/*.json");
       const swaggerPathPatterns: string[] = [];
@@ -846,6 +1248,19 @@ export class LiveValidator {
   };
 }
 
+// Key is the resolved path. Files which can't be read, e.g. deleted while listing, are skipped.
+const getModifiedTimes = async (swaggerPaths: string[]) => {
+  const mtimes = new Map<string, number>();
+  for (const swaggerPath of swaggerPaths) {
+    try {
+      mtimes.set(pathResolve(swaggerPath), (await fs.stat(swaggerPath)).mtimeMs);
+    } catch {
+      continue;
+    }
+  }
+  return mtimes;
+};
+
 /**
  * OAV expects the url that is sent to match exactly with the swagger path. For this we need to keep only the part after
  * where the swagger path starts. Currently those are '/subscriptions' and '/providers'.
@@ -1,7 +1,7 @@
 import { copyInfo, StringMap } from "@azure-tools/openapi-tools-common";
 import { inject, injectable } from "inversify";
 import { TYPES } from "../inversifyUtils";
-import { JsonLoader } from "../swagger/jsonLoader";
+import { JsonLoader, JsonLoaderState } from "../swagger/jsonLoader";
 import { Loader, setDefaultOpts } from "../swagger/loader";
 import { SwaggerLoader, SwaggerLoaderOption } from "../swagger/swaggerLoader";
 import {
@@ -24,13 +24,13 @@ import { getTransformContext, TransformContext } from "../transform/context";
 import { discriminatorTransformer } from "../transform/discriminatorTransformer";
 import { noAdditionalPropertiesTransformer } from "../transform/noAdditionalPropertiesTransformer";
 import { nullableTransformer } from "../transform/nullableTransformer";
-import { pathRegexTransformer } from "../transform/pathRegexTransformer";
+import { compileQueryValidator, pathRegexTransformer } from "../transform/pathRegexTransformer";
 import { pureObjectTransformer } from "../transform/pureObjectTransformer";
 import { referenceFieldsTransformer } from "../transform/referenceFieldsTransformer";
 import { resolveNestedDefinitionTransformer } from "../transform/resolveNestedDefinitionTransformer";
 import { schemaV4ToV7Transformer } from "../transform/schemaV4ToV7Transformer";
 import { applyGlobalTransformers, applySpecTransformers } from "../transform/transformer";
-import { traverseSwaggerAsync } from "../transform/traverseSwagger";
+import { traverseSwagger, traverseSwaggerAsync } from "../transform/traverseSwagger";
 import { xmsPathsTransformer } from "../transform/xmsPathsTransformer";
 import { getLazyBuilder } from "../util/lazyBuilder";
 import { waitUntilLowLoad } from "../util/utils";
@@ -39,6 +39,15 @@ export interface LiveValidatorLoaderOption extends SwaggerLoaderOption, SchemaVa
   transformToNewSchemaFormat?: boolean;
 }
 
+export interface LiveValidatorLoaderState {
+  jsonLoader: JsonLoaderState;
+  // The schemas collected by the spec transforms for the global transforms
+  transform: Pick<
+    TransformContext,
+    "objSchemas" | "arrSchemas" | "primSchemas" | "allParams" | "baseSchemas"
+  >;
+}
+
 @injectable()
 export class LiveValidatorLoader implements Loader<SwaggerSpec> {
   private transformContext: TransformContext;
@@ -93,7 +102,7 @@ export class LiveValidatorLoader implements Loader<SwaggerSpec> {
 
   public constructor(
     @inject(TYPES.opts) private opts: LiveValidatorLoaderOption,
-    private jsonLoader: JsonLoader,
+    public jsonLoader: JsonLoader,
     private swaggerLoader: SwaggerLoader,
     @inject(TYPES.schemaValidator) private schemaValidator: SchemaValidator
   ) {
@@ -136,6 +145,37 @@ export class LiveValidatorLoader implements Loader<SwaggerSpec> {
     applyGlobalTransformers(this.transformContext);
   }
 
+  /**
+   * The state of the loaded and transformed specs. It must be taken before building any
+   * validator, which changes the parameters of the specs.
+   */
+  public getState(): LiveValidatorLoaderState {
+    const { objSchemas, arrSchemas, primSchemas, allParams, baseSchemas } = this.transformContext;
+    return {
+      jsonLoader: this.jsonLoader.getState(),
+      transform: { objSchemas, arrSchemas, primSchemas, allParams, baseSchemas },
+    };
+  }
+
+  /**
+   * Restores the state taken by getState from a loader of the same options. The compiled
+   * validators of x-ms-paths queries in the specs are not kept in the state, so they are
+   * compiled again.
+   */
+  public restoreState(state: LiveValidatorLoaderState, specs: SwaggerSpec[]) {
+    this.jsonLoader.restoreState(state.jsonLoader);
+    Object.assign(this.transformContext, state.transform);
+    for (const spec of specs) {
+      traverseSwagger(spec, {
+        onPath: (path, pathTemplate) => {
+          if (pathTemplate.includes("?")) {
+            path._validateQuery = compileQueryValidator(pathTemplate, this.schemaValidator);
+          }
+        },
+      });
+    }
+  }
+
   public async buildAjvValidator(spec: SwaggerSpec, options?: { inBackground?: boolean }) {
     return traverseSwaggerAsync(spec, {
       onOperation: async (operation) => {
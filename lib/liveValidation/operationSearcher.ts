@@ -27,6 +27,12 @@ interface PotentialOperationsResult {
   readonly reason?: LiveValidationError;
 }
 
+export interface OperationSearcherOption {
+  // Match the operation in the nearest api-version of the same provider and path template, if the
+  // requested api-version is not in the cache. The closest older stable api-version is preferred.
+  apiVersionFallback?: boolean;
+}
+
 // Key http method, e.g. get
 type ApiVersion = Map<LowerHttpMethods, Operation[]>;
 
@@ -45,7 +51,8 @@ export class OperationSearcher {
       operationName?: string,
       durationInMilliseconds?: number,
       validationRequest?: ValidationRequest
-    ) => void
+    ) => void,
+    private option: OperationSearcherOption = {}
   ) {}
 
   public addSpecToCache(spec: SwaggerSpec) {
@@ -133,12 +140,42 @@ export class OperationSearcher {
     });
   }
 
+  /**
+   * Removes the operations of the spec file, which is relative to the file root like
+   * spec._filePath. Returns the number of removed operations.
+   */
+  public removeSpecFromCache(specFilePath: string): number {
+    let count = 0;
+    for (const [provider, apiVersions] of this.cache) {
+      for (const [apiVersion, allMethods] of apiVersions) {
+        for (const [httpMethod, operations] of allMethods) {
+          const rest = operations.filter((it) => it._path._spec._filePath !== specFilePath);
+          count += operations.length - rest.length;
+          if (rest.length === 0) {
+            allMethods.delete(httpMethod);
+          } else if (rest.length !== operations.length) {
+            allMethods.set(httpMethod, rest);
+          }
+        }
+        if (allMethods.size === 0) {
+          apiVersions.delete(apiVersion);
+        }
+      }
+      if (apiVersions.size === 0) {
+        this.cache.delete(provider);
+      }
+    }
+    return count;
+  }
+
   /**
    * Gets the swagger operation based on the HTTP url and method
    */
   public search(info: ValidationRequest): {
     operationMatch: OperationMatch;
     apiVersion: string;
+    // Set if the operation is matched in another api-version by apiVersionFallback
+    isApproximateMatch?: boolean;
   } {
     const startTime = Date.now();
     const requestInfo = { ...info };
@@ -172,6 +209,28 @@ export class OperationSearcher {
       potentialOperations = searchOperation();
     }
 
+    let isApproximateMatch: boolean | undefined;
+    if (
+      potentialOperations.matches.length === 0 &&
+      this.option.apiVersionFallback === true &&
+      firstReason?.code === ErrorCodes.OperationNotFoundInCacheWithApi.name &&
+      requestInfo.apiVersion
+    ) {
+      const fallbackOperations = this.searchInFallbackApiVersions(requestInfo);
+      if (fallbackOperations !== undefined) {
+        this.logging(
+          `Fallback to api-version ${fallbackOperations.apiVersion} from ${requestInfo.apiVersion}`,
+          LiveValidatorLoggingLevels.info,
+          LiveValidatorLoggingTypes.trace,
+          "Oav.OperationSearcher.search",
+          undefined,
+          requestInfo
+        );
+        potentialOperations = fallbackOperations;
+        isApproximateMatch = true;
+      }
+    }
+
     if (potentialOperations.matches.length === 0) {
       throw firstReason ?? potentialOperations.reason;
     }
@@ -215,9 +274,31 @@ export class OperationSearcher {
     return {
       operationMatch: potentialOperations.matches[0],
       apiVersion: potentialOperations.apiVersion,
+      isApproximateMatch,
     };
   }
 
+  /**
+   * Searches the other api-versions of the provider in the order of getFallbackApiVersions, and
+   * returns the first one with matched operations.
+   */
+  private searchInFallbackApiVersions(
+    requestInfo: ValidationRequest
+  ): PotentialOperationsResult | undefined {
+    const allApiVersions = this.cache.get(requestInfo.providerNamespace);
+    if (allApiVersions === undefined) {
+      return undefined;
+    }
+    const apiVersions = [...allApiVersions.keys()].filter((it) => it !== unknownApiVersion);
+    for (const apiVersion of getFallbackApiVersions(requestInfo.apiVersion, apiVersions)) {
+      const result = this.getPotentialOperations({ ...requestInfo, apiVersion });
+      if (result.matches.length > 0) {
+        return result;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Gets list of potential operations objects for given url and method.
    *
@@ -319,6 +400,36 @@ export class OperationSearcher {
   }
 }
 
+const compareApiVersion = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true });
+
+// e.g. 2021-01-01-preview, 7.0-preview.1
+const isPreviewApiVersion = (apiVersion: string) => /-[a-z]/i.test(apiVersion);
+
+const getApiVersionBase = (apiVersion: string) => apiVersion.replace(/-[a-z].*$/i, "");
+
+/**
+ * Orders the api-versions to fall back to from the requested one: the older stable ones, then
+ * the older preview ones, then the newer stable and preview ones, the closest first in each.
+ */
+const getFallbackApiVersions = (requested: string, apiVersions: string[]): string[] => {
+  const requestedBase = getApiVersionBase(requested);
+  const older = apiVersions
+    .filter(
+      (it) => it !== requested && compareApiVersion(getApiVersionBase(it), requestedBase) <= 0
+    )
+    .sort((a, b) => compareApiVersion(b, a));
+  const newer = apiVersions
+    .filter((it) => it !== requested && compareApiVersion(getApiVersionBase(it), requestedBase) > 0)
+    .sort(compareApiVersion);
+  return [
+    ...older.filter((it) => !isPreviewApiVersion(it)),
+    ...older.filter(isPreviewApiVersion),
+    ...newer.filter((it) => !isPreviewApiVersion(it)),
+    ...newer.filter(isPreviewApiVersion),
+  ];
+};
+
 /**
  * Gets list of matched operations objects for given url.
  *
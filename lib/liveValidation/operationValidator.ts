@@ -1,16 +1,18 @@
 import { ParsedUrlQuery } from "querystring";
 import { getInfo, MutableStringMap, StringMap } from "@azure-tools/openapi-tools-common";
+import { JsonLoader } from "../swagger/jsonLoader";
 import {
   LoggingFn,
   LowerHttpMethods,
   Operation,
   Response,
+  Schema,
   TransformFn,
 } from "../swagger/swaggerTypes";
 import { sourceMapInfoToSourceLocation } from "../swaggerValidator/ajvSchemaValidator";
 import { SchemaValidateContext, SchemaValidateIssue } from "../swaggerValidator/schemaValidator";
 import { jsonPathToPointer } from "../util/jsonUtils";
-import { Writable } from "../util/utils";
+import { getPageableNames, Writable } from "../util/utils";
 import { SourceLocation } from "../util/validationError";
 import { extractPathParamValue } from "../transform/pathRegexTransformer";
 import {
@@ -44,6 +46,10 @@ export interface OperationContext {
   apiVersion: string;
   operationMatch?: OperationMatch;
   validationRequest?: ValidationRequest;
+  // Set if the operation is matched in the nearest api-version by apiVersionFallback, apiVersion
+  // is the matched one then
+  isApproximateMatch?: boolean;
+  requestedApiVersion?: string;
 }
 
 export interface LiveRequest {
@@ -173,6 +179,9 @@ export const validateSwaggerLiveResponse = async (
     if (isArmCall && realCode >= 200 && realCode < 300) {
       validateLroOperation(operation, statusCode, headers, result);
     }
+    if (statusCode === "200") {
+      validatePageableResponse(operation, rsp.schema, body, result, loader?.jsonLoader);
+    }
   }
 
   const ctx = {
@@ -382,6 +391,47 @@ const validateLroHeader = (
   }
 };
 
+const validatePageableResponse = (
+  operation: Operation,
+  schema: Schema,
+  body: any,
+  result: LiveValidationIssue[],
+  jsonLoader?: JsonLoader
+) => {
+  const pageableNames = getPageableNames(operation);
+  if (pageableNames === undefined || typeof body !== "object" || body === null) {
+    return;
+  }
+  const { itemName, nextLinkName } = pageableNames;
+  if (!Array.isArray(body[itemName])) {
+    result.push(issueFromErrorCode("PAGEABLE_ITEM_NOT_FOUND", { itemName }, operation.responses));
+  }
+  // The next link is usually omitted on the last page, which is only flagged if the response
+  // schema doesn't define it either
+  if (
+    nextLinkName !== null &&
+    !(nextLinkName in body) &&
+    jsonLoader !== undefined &&
+    !hasSchemaProperty(schema, nextLinkName, jsonLoader)
+  ) {
+    result.push(
+      issueFromErrorCode("PAGEABLE_NEXT_LINK_NOT_FOUND", { nextLinkName }, operation.responses)
+    );
+  }
+};
+
+const hasSchemaProperty = (
+  schema: Schema,
+  propertyName: string,
+  jsonLoader: JsonLoader
+): boolean => {
+  const resolved = jsonLoader.resolveRefObj(schema);
+  return (
+    resolved.properties?.[propertyName] !== undefined ||
+    (resolved.allOf ?? []).some((it) => hasSchemaProperty(it, propertyName, jsonLoader))
+  );
+};
+
 export const issueFromErrorCode = (
   code: TrafficValidationErrorCode,
   param: any,
@@ -0,0 +1,452 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { URL } from "url";
+import { inject, injectable } from "inversify";
+import { inversifyGetInstance, TYPES } from "../inversifyUtils";
+import { JsonLoader } from "../swagger/jsonLoader";
+import { setDefaultOpts } from "../swagger/loader";
+import { SwaggerLoader, SwaggerLoaderOption } from "../swagger/swaggerLoader";
+import { LowerHttpMethods, Operation, SwaggerSpec } from "../swagger/swaggerTypes";
+import { SchemaValidator } from "../swaggerValidator/schemaValidator";
+import { allOfTransformer } from "../transform/allOfTransformer";
+import { getTransformContext, TransformContext } from "../transform/context";
+import { discriminatorTransformer } from "../transform/discriminatorTransformer";
+import { noAdditionalPropertiesTransformer } from "../transform/noAdditionalPropertiesTransformer";
+import { pathRegexTransformer } from "../transform/pathRegexTransformer";
+import { referenceFieldsTransformer } from "../transform/referenceFieldsTransformer";
+import { resolveNestedDefinitionTransformer } from "../transform/resolveNestedDefinitionTransformer";
+import { applyGlobalTransformers, applySpecTransformers } from "../transform/transformer";
+import { xmsPathsTransformer } from "../transform/xmsPathsTransformer";
+import { OperationSearcher } from "../liveValidation/operationSearcher";
+import { parseValidationRequest } from "../liveValidation/liveValidator";
+import { MockerCache, PayloadCache } from "../generator/exampleCache";
+import SwaggerMocker from "../generator/swaggerMocker";
+import { log } from "../util/logging";
+
+export interface MockArmServiceOptions extends SwaggerLoaderOption {
+  swaggerFilePaths: string[];
+  /**
+   * Number of polls which report a long running operation as in progress.
+   */
+  lroPollCount?: number;
+  /**
+   * Seed of the mocked values of operations without examples.
+   */
+  seed?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  /**
+   * Absolute url, the origin is used in the polling urls of long running operations.
+   */
+  url: string;
+  headers?: { [headerName: string]: string | undefined };
+  body?: any;
+}
+
+export interface MockResponse {
+  statusCode: number;
+  headers: { [headerName: string]: string };
+  body?: any;
+}
+
+interface LroTracking {
+  pollsLeft: number;
+  resourceUrl: string;
+  finalResponse: MockResponse;
+}
+
+export const mockOperationsPath = "/mockOperations";
+
+const successStatusCodes = ["200", "201", "202", "204"];
+
+/**
+ * Fake ARM service which serves the responses of x-ms-examples, or mocked responses when the
+ * operation has no example. Resources created by PUT are kept in memory, so that they could be
+ * read, updated, listed and deleted afterwards. Long running operations report "InProgress" for
+ * lroPollCount polls through both Azure-AsyncOperation and Location headers.
+ */
+@injectable()
+export class MockArmService {
+  private transformContext: TransformContext;
+  private operationSearcher: OperationSearcher;
+  private swaggerMocker: SwaggerMocker;
+  private specs: SwaggerSpec[] = [];
+  private resources = new Map<string, any>();
+  private lroTrackings = new Map<string, LroTracking>();
+  private mockedResponses = new Map<Operation, { [statusCode: string]: MockResponse }>();
+  private lroCount = 0;
+  private initialized = false;
+
+  public constructor(
+    @inject(TYPES.opts) private opts: MockArmServiceOptions,
+    private swaggerLoader: SwaggerLoader,
+    private jsonLoader: JsonLoader,
+    @inject(TYPES.schemaValidator) schemaValidator: SchemaValidator
+  ) {
+    this.transformContext = getTransformContext(this.jsonLoader, schemaValidator, [
+      xmsPathsTransformer,
+      resolveNestedDefinitionTransformer,
+      referenceFieldsTransformer,
+      pathRegexTransformer,
+      discriminatorTransformer,
+      allOfTransformer,
+      noAdditionalPropertiesTransformer,
+    ]);
+    this.operationSearcher = new OperationSearcher((message) => log.debug(message));
+    this.swaggerMocker = new SwaggerMocker(this.jsonLoader, new MockerCache(), new PayloadCache(), {
+      seed: opts.seed,
+    });
+  }
+
+  public static create(opts: MockArmServiceOptions) {
+    setDefaultOpts(opts, {
+      eraseXmsExamples: false,
+      skipResolveRefKeys: ["x-ms-examples"],
+      checkUnderFileRoot: false,
+      swaggerFilePaths: [],
+      lroPollCount: 1,
+    });
+    return inversifyGetInstance(MockArmService, opts);
+  }
+
+  public async initialize() {
+    if (this.initialized) {
+      throw new Error("Already initialized");
+    }
+    for (const swaggerFilePath of this.opts.swaggerFilePaths) {
+      const spec = await this.swaggerLoader.load(swaggerFilePath);
+      applySpecTransformers(spec, this.transformContext);
+      this.specs.push(spec);
+    }
+    applyGlobalTransformers(this.transformContext);
+    for (const spec of this.specs) {
+      this.operationSearcher.addSpecToCache(spec);
+    }
+    this.initialized = true;
+  }
+
+  public async handle(request: MockRequest): Promise<MockResponse> {
+    if (!this.initialized) {
+      throw new Error("Please call initialize() before handling requests");
+    }
+    const url = new URL(request.url);
+    const method = request.method.toLowerCase() as LowerHttpMethods;
+    if (url.pathname.startsWith(`${mockOperationsPath}/`) && method === "get") {
+      return this.handlePolling(url);
+    }
+
+    let operation: Operation;
+    try {
+      const validationRequest = parseValidationRequest(request.url, method, "");
+      operation = this.operationSearcher.search(validationRequest).operationMatch.operation;
+    } catch (e) {
+      return armError(404, e?.code ?? "OperationNotFound", e?.message);
+    }
+    log.debug(`Mock ${method} ${url.pathname} by ${operation.operationId}`);
+
+    const resourcePath = url.pathname;
+    const resourceKey = resourcePath.toLowerCase();
+    const isLro = operation["x-ms-long-running-operation"] === true;
+    switch (method) {
+      case "put": {
+        const existing = this.resources.get(resourceKey);
+        const statusCode = existing !== undefined ? "200" : "201";
+        const template = await this.getResponse(operation, [statusCode, "200", "201"]);
+        // PUT replaces the resource, except the fields owned by the service
+        const resource = this.withIdentity(
+          keepServerOwnedFields(
+            mergeObject(template.body, request.body),
+            existing ?? template.body
+          ),
+          resourcePath
+        );
+        setProvisioningState(resource, "Succeeded");
+        this.resources.set(resourceKey, resource);
+        const response = { ...template, body: resource };
+        return isLro ? this.startLro(url, operation, response) : response;
+      }
+      case "patch": {
+        const existing = this.resources.get(resourceKey);
+        if (existing === undefined && this.isTrackedResource(operation)) {
+          return resourceNotFound(resourcePath);
+        }
+        const template = await this.getResponse(operation, ["200"]);
+        const resource = this.withIdentity(
+          mergeObject(existing ?? template.body, request.body),
+          resourcePath
+        );
+        this.resources.set(resourceKey, resource);
+        const response = { ...template, statusCode: 200, body: resource };
+        return isLro ? this.startLro(url, operation, response) : response;
+      }
+      case "delete": {
+        const existed = this.deleteResource(resourceKey);
+        const response: MockResponse = { statusCode: existed ? 200 : 204, headers: {} };
+        return isLro && existed ? this.startLro(url, operation, response) : response;
+      }
+      case "get": {
+        if (this.isTrackedResource(operation)) {
+          const resource = this.resources.get(resourceKey);
+          return resource === undefined
+            ? resourceNotFound(resourcePath)
+            : { statusCode: 200, headers: {}, body: resource };
+        }
+        const response = await this.getResponse(operation, ["200"]);
+        if (this.isTrackedCollection(operation, response)) {
+          return { ...response, body: { value: this.listResources(resourcePath) } };
+        }
+        return response;
+      }
+      default: {
+        const response = await this.getResponse(operation, successStatusCodes);
+        return isLro ? this.startLro(url, operation, response) : response;
+      }
+    }
+  }
+
+  public getResource(resourcePath: string) {
+    return this.resources.get(resourcePath.toLowerCase());
+  }
+
+  private startLro(url: URL, operation: Operation, finalResponse: MockResponse): MockResponse {
+    const lroId = `lro${++this.lroCount}`;
+    this.lroTrackings.set(lroId, {
+      pollsLeft: this.opts.lroPollCount!,
+      resourceUrl: url.href,
+      finalResponse,
+    });
+    const apiVersion = url.searchParams.get("api-version");
+    const query = apiVersion === null ? "" : `?api-version=${encodeURIComponent(apiVersion)}`;
+    const operationUrl = `${url.origin}${mockOperationsPath}/${lroId}`;
+    const method = operation._method.toLowerCase();
+    const statusCode =
+      method === "put"
+        ? finalResponse.statusCode
+        : Object.keys(operation.responses).includes("202")
+        ? 202
+        : finalResponse.statusCode;
+    let body;
+    if (method === "put") {
+      body = clone(finalResponse.body);
+      setProvisioningState(body, "Accepted");
+    }
+    return {
+      statusCode,
+      headers: {
+        "Azure-AsyncOperation": `${operationUrl}${query}`,
+        Location: `${operationUrl}/result${query}`,
+        "Retry-After": "0",
+      },
+      body,
+    };
+  }
+
+  private handlePolling(url: URL): MockResponse {
+    const [lroId, result] = url.pathname.substring(mockOperationsPath.length + 1).split("/");
+    const tracking = this.lroTrackings.get(lroId);
+    if (tracking === undefined || (result !== undefined && result !== "result")) {
+      return armError(404, "OperationNotFound", `Operation ${lroId} is not found`);
+    }
+    const inProgress = tracking.pollsLeft > 0;
+    if (inProgress) {
+      tracking.pollsLeft--;
+    }
+    if (result === undefined) {
+      return {
+        statusCode: 200,
+        headers: inProgress ? { "Retry-After": "0" } : {},
+        body: { id: url.pathname, name: lroId, status: inProgress ? "InProgress" : "Succeeded" },
+      };
+    }
+    if (inProgress) {
+      return {
+        statusCode: 202,
+        headers: { Location: url.href, "Retry-After": "0" },
+      };
+    }
+    const { body } = tracking.finalResponse;
+    return { statusCode: body === undefined ? 204 : 200, headers: {}, body };
+  }
+
+  /**
+   * Response of the first status code which has an example, falls back to mocked responses.
+   */
+  private async getResponse(operation: Operation, statusCodes: string[]): Promise<MockResponse> {
+    const codes = statusCodes.filter((code) => code in operation.responses);
+    if (codes.length === 0) {
+      codes.push(
+        ...Object.keys(operation.responses).filter((code) => successStatusCodes.includes(code))
+      );
+    }
+    for (const code of codes) {
+      const exampleResponse = this.getExampleResponse(operation, code);
+      if (exampleResponse !== undefined) {
+        return {
+          statusCode: Number(code),
+          headers: {},
+          body: clone(exampleResponse.body),
+        };
+      }
+    }
+    const mocked = this.getMockedResponses(operation);
+    const code = codes[0] ?? "200";
+    return {
+      statusCode: Number(code),
+      headers: {},
+      body: clone(mocked[code]?.body),
+    };
+  }
+
+  private getExampleResponse(operation: Operation, statusCode: string) {
+    const examples = operation["x-ms-examples"] ?? {};
+    for (const exampleName of Object.keys(examples)) {
+      try {
+        const example = this.jsonLoader.resolveRefObj(examples[exampleName]);
+        if (example.responses?.[statusCode] !== undefined) {
+          return example.responses[statusCode];
+        }
+      } catch (e) {
+        log.warn(`Failed to load example ${exampleName}: ${e?.message}`);
+      }
+    }
+    return undefined;
+  }
+
+  private getMockedResponses(operation: Operation) {
+    let responses = this.mockedResponses.get(operation);
+    if (responses === undefined) {
+      const example = { parameters: {}, responses: {} as any };
+      const spec = operation._path._spec;
+      this.swaggerMocker.mockForExample(
+        example,
+        {
+          path: operation._path._pathTemplate,
+          methodName: operation._method,
+          content: operation,
+        },
+        spec,
+        (spec._providerNamespace ?? "").toLowerCase()
+      );
+      responses = example.responses as { [statusCode: string]: MockResponse };
+      this.mockedResponses.set(operation, responses);
+    }
+    return responses;
+  }
+
+  // A resource which could be created by PUT at the same path is served from the state.
+  private isTrackedResource(operation: Operation) {
+    return operation._path.put !== undefined;
+  }
+
+  // Lists of resources which could be created by PUT are served from the state.
+  private isTrackedCollection(operation: Operation, response: MockResponse) {
+    if (!Array.isArray(response.body?.value)) {
+      return false;
+    }
+    const resourceType = lastSegment(operation._path._pathTemplate).toLowerCase();
+    return this.specs.some((spec) =>
+      Object.keys(spec.paths).some((pathTemplate) => {
+        const segments = pathTemplate.split("/");
+        return (
+          spec.paths[pathTemplate].put !== undefined &&
+          segments.length > 2 &&
+          /^{.*}$/.test(segments[segments.length - 1]) &&
+          segments[segments.length - 2].toLowerCase() === resourceType
+        );
+      })
+    );
+  }
+
+  // A list contains the direct children, or the resources of the same type in the scope, e.g. a
+  // subscription level list contains the resources in all its resource groups.
+  private listResources(listPath: string) {
+    const listKey = listPath.toLowerCase();
+    const providerIndex = listKey.lastIndexOf("/providers/");
+    const scope = providerIndex === -1 ? listKey : listKey.substring(0, providerIndex);
+    const typeSuffix = providerIndex === -1 ? undefined : listKey.substring(providerIndex);
+    const result = [];
+    for (const [key, resource] of this.resources) {
+      const parent = key.substring(0, key.lastIndexOf("/"));
+      if (
+        parent === listKey ||
+        (typeSuffix !== undefined && key.startsWith(`${scope}/`) && parent.endsWith(typeSuffix))
+      ) {
+        result.push(resource);
+      }
+    }
+    return result;
+  }
+
+  private deleteResource(resourceKey: string) {
+    const existed = this.resources.delete(resourceKey);
+    for (const key of [...this.resources.keys()]) {
+      if (key.startsWith(`${resourceKey}/`)) {
+        this.resources.delete(key);
+      }
+    }
+    return existed;
+  }
+
+  private withIdentity(resource: any, resourcePath: string) {
+    if (resource === null || typeof resource !== "object" || Array.isArray(resource)) {
+      return resource;
+    }
+    return { ...resource, id: resourcePath, name: lastSegment(resourcePath) };
+  }
+}
+
+const armError = (statusCode: number, code: string, message: string): MockResponse => ({
+  statusCode,
+  headers: {},
+  body: { error: { code, message } },
+});
+
+const resourceNotFound = (resourcePath: string) =>
+  armError(404, "ResourceNotFound", `The resource ${resourcePath} is not found.`);
+
+const lastSegment = (path: string) => path.substring(path.lastIndexOf("/") + 1);
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const isPlainObject = (value: unknown): value is { [key: string]: any } =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const mergeObject = (target: any, source: any): any => {
+  if (!isPlainObject(target) || !isPlainObject(source)) {
+    return source === undefined ? target : clone(source);
+  }
+  const result = { ...target };
+  for (const key of Object.keys(source)) {
+    result[key] = mergeObject(target[key], source[key]);
+  }
+  return result;
+};
+
+// The fields which the service sets, besides id and name
+const serverOwnedFields = ["type", "systemData"];
+
+const keepServerOwnedFields = (resource: any, source: any) => {
+  if (!isPlainObject(resource)) {
+    return resource;
+  }
+  const result = { ...resource };
+  for (const field of serverOwnedFields) {
+    if (isPlainObject(source) && source[field] !== undefined) {
+      result[field] = clone(source[field]);
+    } else {
+      delete result[field];
+    }
+  }
+  return result;
+};
+
+const setProvisioningState = (resource: any, state: string) => {
+  if (isPlainObject(resource) && isPlainObject(resource.properties)) {
+    if ("provisioningState" in resource.properties) {
+      resource.properties.provisioningState = state;
+    }
+  }
+};
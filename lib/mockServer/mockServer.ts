@@ -0,0 +1,111 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as http from "http";
+import { AddressInfo } from "net";
+import { log } from "../util/logging";
+import { readMessageBody } from "../liveValidation/liveValidationServer";
+import { MockArmService, MockResponse } from "./mockArmService";
+
+export interface MockServerOptions {
+  port: number;
+  host?: string;
+}
+
+/**
+ * Exposes a MockArmService over HTTP, so that SDKs, api scenarios or any http client could be run
+ * against it instead of the real ARM endpoint.
+ */
+export class MockServer {
+  private server?: http.Server;
+
+  public constructor(private mockService: MockArmService, private options: MockServerOptions) {}
+
+  /**
+   * Initializes the mock service and then starts listening.
+   */
+  public async start(): Promise<AddressInfo> {
+    await this.mockService.initialize();
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((e) => {
+        log.error(`Failed to mock ${req.method} ${req.url}. ErrorMessage:${e?.message}`);
+        this.sendResponse(res, {
+          statusCode: 500,
+          headers: {},
+          body: { error: { code: "InternalServerError", message: e?.message } },
+        });
+      });
+    });
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.removeListener("error", reject);
+        resolve();
+      });
+    });
+    const address = server.address() as AddressInfo;
+    log.info(`Mock server is listening on ${address.address}:${address.port}`);
+    return address;
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (server === undefined) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => {
+      server.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const content = await readMessageBody(req);
+    let body: any;
+    if (content.length > 0) {
+      try {
+        body = JSON.parse(content);
+      } catch (e) {
+        this.sendResponse(res, {
+          statusCode: 400,
+          headers: {},
+          body: { error: { code: "InvalidRequestContent", message: e?.message } },
+        });
+        return;
+      }
+    }
+    const headers: { [headerName: string]: string | undefined } = {};
+    for (const headerName of Object.keys(req.headers)) {
+      const value = req.headers[headerName];
+      headers[headerName] = Array.isArray(value) ? value.join(", ") : value;
+    }
+    const response = await this.mockService.handle({
+      method: req.method ?? "GET",
+      url: `http://${req.headers.host ?? "localhost"}${req.url ?? "/"}`,
+      headers,
+      body,
+    });
+    this.sendResponse(res, response);
+  }
+
+  private sendResponse(res: http.ServerResponse, response: MockResponse) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    if (response.body === undefined) {
+      res.writeHead(response.statusCode, { ...response.headers, "Content-Length": 0 });
+      res.end();
+      return;
+    }
+    const payload = JSON.stringify(response.body);
+    res.writeHead(response.statusCode, {
+      ...response.headers,
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Length": Buffer.byteLength(payload),
+    });
+    res.end(payload);
+  }
+}
@@ -0,0 +1,203 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { createHash } from "crypto";
+import jsYaml from "js-yaml";
+import { Severity } from "../util/severity";
+import { SarifReportBuilder } from "./sarifReport";
+import {
+  getOutputIssues,
+  getRuntimeExceptions,
+  OutputIssue,
+  ValidationOutput,
+} from "./validationOutput";
+
+/**
+ * Formats the issues of a validation for the console or a CI system. Each returned entry is
+ * printed by one console call on the stream of the formatter.
+ */
+export interface OutputFormatter {
+  readonly stream: "stdout" | "stderr";
+  format(output: ValidationOutput): string[];
+}
+
+// "default" selects the formatter of the CI system from the environment, see detectOutputFormat.
+export const defaultOutputFormat = "default";
+
+const outputFormatters = new Map<string, OutputFormatter>();
+
+export const registerOutputFormatter = (name: string, formatter: OutputFormatter) => {
+  outputFormatters.set(name, formatter);
+};
+
+export const getOutputFormatNames = (): string[] => [...outputFormatters.keys()];
+
+export const detectOutputFormat = (env: NodeJS.ProcessEnv = process.env): string => {
+  if (env["Agent.Id"]) {
+    return "azure-pipelines";
+  }
+  if (env.GITHUB_ACTIONS === "true") {
+    return "github-actions";
+  }
+  return "yaml";
+};
+
+export const getOutputFormatter = (name: string = defaultOutputFormat): OutputFormatter => {
+  const formatter = outputFormatters.get(
+    name === defaultOutputFormat ? detectOutputFormat() : name
+  );
+  if (formatter === undefined) {
+    throw new Error(
+      `Unknown output format "${name}". Supported formats: ${[
+        defaultOutputFormat,
+        ...getOutputFormatNames(),
+      ].join(", ")}.`
+    );
+  }
+  return formatter;
+};
+
+export const printValidationOutput = (formatter: OutputFormatter, output: ValidationOutput) => {
+  for (const entry of formatter.format(output)) {
+    if (formatter.stream === "stdout") {
+      // eslint-disable-next-line no-console
+      console.log(entry);
+    } else {
+      // eslint-disable-next-line no-console
+      console.error(entry);
+    }
+  }
+};
+
+export const vsoLogIssue = (issueType: string, message: string) =>
+  `##vso[task.logissue type=${issueType}]${message}`;
+
+// The issues as they are, e.g. the traffic issues with their payload file and operation.
+const getRawIssues = (output: ValidationOutput): unknown[] => [
+  ...(output.semanticErrors ?? []),
+  ...(output.exampleErrors ?? []),
+  ...(output.trafficIssues ?? []),
+  ...(output.runtimeExceptions ?? []),
+];
+
+const yamlFormatter: OutputFormatter = {
+  stream: "stderr",
+  format: (output) => getRawIssues(output).map((it) => jsYaml.dump(it)),
+};
+
+const azurePipelinesFormatter: OutputFormatter = {
+  stream: "stderr",
+  format: (output) => getRawIssues(output).map((it) => vsoLogIssue("error", jsYaml.dump(it))),
+};
+
+const getLevel = (severity: Severity) =>
+  severity <= Severity.Error ? "error" : severity === Severity.Warning ? "warning" : "notice";
+
+// See https://docs.github.com/en/actions/using-workflows/workflow-commands-for-github-actions
+const escapeGitHubData = (value: string) =>
+  value.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+
+const escapeGitHubProperty = (value: string) =>
+  escapeGitHubData(value).replace(/:/g, "%3A").replace(/,/g, "%2C");
+
+const gitHubActionsFormatter: OutputFormatter = {
+  stream: "stdout",
+  format: (output) => [
+    ...getOutputIssues(output).map((issue) => {
+      const properties: string[] = [];
+      if (issue.location !== undefined) {
+        properties.push(`file=${escapeGitHubProperty(issue.location.filePath)}`);
+        if (issue.location.line !== undefined) {
+          properties.push(`line=${issue.location.line}`);
+        }
+        if (issue.location.column !== undefined) {
+          properties.push(`col=${issue.location.column}`);
+        }
+      }
+      properties.push(`title=${escapeGitHubProperty(issue.code)}`);
+      return `::${getLevel(issue.severity)} ${properties.join(",")}::${escapeGitHubData(
+        issue.message
+      )}`;
+    }),
+    ...getRuntimeExceptions(output).map(
+      (it) => `::error title=${escapeGitHubProperty(it.code)}::${escapeGitHubData(it.message)}`
+    ),
+  ],
+};
+
+const gitLabSeverities: { [severity: number]: string } = {
+  [Severity.Critical]: "critical",
+  [Severity.Error]: "major",
+  [Severity.Warning]: "minor",
+  [Severity.Information]: "info",
+  [Severity.Verbose]: "info",
+};
+
+// See https://docs.gitlab.com/ee/ci/testing/code_quality.html#implement-a-custom-tool
+// Runtime exceptions are not code quality issues, so they are not included.
+const gitLabCodeQualityFormatter: OutputFormatter = {
+  stream: "stdout",
+  format: (output) => [
+    JSON.stringify(
+      getOutputIssues(output)
+        .filter((issue) => issue.location !== undefined)
+        .map((issue) => ({
+          description: issue.message,
+          check_name: issue.code,
+          fingerprint: createHash("md5")
+            .update(JSON.stringify([issue.code, issue.location, issue.message]))
+            .digest("hex"),
+          severity: gitLabSeverities[issue.severity],
+          location: {
+            path: issue.location!.filePath,
+            lines: { begin: issue.location!.line ?? 1 },
+          },
+        })),
+      null,
+      2
+    ),
+  ],
+};
+
+const formatCompactLocation = (issue: OutputIssue) => {
+  const location = issue.location;
+  if (location === undefined) {
+    return "";
+  }
+  return (
+    [location.filePath, location.line, location.column].filter((it) => it !== undefined).join(":") +
+    ": "
+  );
+};
+
+const compactFormatter: OutputFormatter = {
+  stream: "stderr",
+  format: (output) => [
+    ...getOutputIssues(output).map(
+      (issue) =>
+        `${formatCompactLocation(issue)}${getLevel(issue.severity)} ${issue.code}: ${issue.message}`
+    ),
+    ...getRuntimeExceptions(output).map((it) => `error ${it.code}: ${it.message}`),
+  ],
+};
+
+const sarifFormatter: OutputFormatter = {
+  stream: "stdout",
+  format: (output) => {
+    const report = new SarifReportBuilder();
+    report.addSemanticErrors(output.semanticErrors ?? []);
+    report.addExampleErrors(output.exampleErrors ?? []);
+    report.addTrafficValidationIssues(output.trafficIssues ?? []);
+    for (const exception of output.runtimeExceptions ?? []) {
+      report.addRuntimeException(exception.code, exception.message);
+    }
+    return [JSON.stringify(report.build(), null, 2)];
+  },
+};
+
+registerOutputFormatter("yaml", yamlFormatter);
+registerOutputFormatter("compact", compactFormatter);
+registerOutputFormatter("azure-pipelines", azurePipelinesFormatter);
+registerOutputFormatter("github-actions", gitHubActionsFormatter);
+registerOutputFormatter("gitlab", gitLabCodeQualityFormatter);
+registerOutputFormatter("sarif", sarifFormatter);
@@ -0,0 +1,273 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as path from "path";
+import { FilePosition } from "@azure-tools/openapi-tools-common";
+import * as _ from "lodash";
+import { LiveValidationIssue } from "../liveValidation/liveValidator";
+import { SwaggerExampleErrorDetail } from "../swaggerValidator/modelValidator";
+import { SemanticErrorDetail } from "../swaggerValidator/semanticValidator";
+import { TrafficValidationIssue } from "../swaggerValidator/trafficValidator";
+import { getOavErrorDefinition } from "../util/errorDefinitions";
+import { Severity } from "../util/severity";
+import { getReportFilePath } from "./validationOutput";
+
+// Subset of SARIF 2.1.0 emitted by oav, see https://docs.oasis-open.org/sarif/sarif/v2.1.0/
+export type SarifLevel = "error" | "warning" | "note";
+
+export interface SarifLog {
+  version: "2.1.0";
+  $schema: string;
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      informationUri: string;
+      rules: SarifReportingDescriptor[];
+    };
+  };
+  invocations: SarifInvocation[];
+  results: SarifResult[];
+}
+
+export interface SarifReportingDescriptor {
+  id: string;
+  defaultConfiguration?: { level: SarifLevel };
+  helpUri?: string;
+  properties?: { [key: string]: unknown };
+}
+
+export interface SarifInvocation {
+  executionSuccessful: boolean;
+  toolExecutionNotifications: SarifNotification[];
+}
+
+export interface SarifNotification {
+  level: SarifLevel;
+  message: { text: string };
+  descriptor?: { id: string };
+}
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string };
+    region?: { startLine: number; startColumn: number };
+  };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  relatedLocations?: SarifLocation[];
+  properties?: { [key: string]: unknown };
+}
+
+export const sarifLevelFromSeverity = (severity: Severity | undefined): SarifLevel => {
+  switch (severity) {
+    case undefined:
+    case Severity.Critical:
+    case Severity.Error:
+      return "error";
+    case Severity.Warning:
+      return "warning";
+    default:
+      return "note";
+  }
+};
+
+/**
+ * Collects the issues of semantic, example and traffic validation as the results of one SARIF
+ * run. The rule id of a result is its error code in errorDefinitions.ts, and the locations are
+ * relative to baseDirectory when the files are under it.
+ */
+export class SarifReportBuilder {
+  private rules = new Map<string, number>();
+
+  private ruleDescriptors: SarifReportingDescriptor[] = [];
+
+  private results: SarifResult[] = [];
+
+  private notifications: SarifNotification[] = [];
+
+  public constructor(private baseDirectory: string = process.cwd()) {}
+
+  public addSemanticErrors(errors: readonly SemanticErrorDetail[]) {
+    for (const error of errors) {
+      this.addResult(
+        error.code,
+        undefined,
+        error.message,
+        [this.getLocation(error.url, error.position)],
+        {
+          jsonPath: error.jsonPath,
+        }
+      );
+    }
+  }
+
+  public addExampleErrors(errors: readonly SwaggerExampleErrorDetail[]) {
+    for (const error of errors) {
+      const exampleLocation = this.getLocation(error.exampleUrl, error.examplePosition);
+      const schemaLocation = this.getLocation(error.schemaUrl, error.schemaPosition);
+      // The example is where the issue is to be fixed, while the schema is for reference.
+      const result = this.addResult(
+        error.code,
+        error.severity,
+        error.message,
+        [exampleLocation ?? schemaLocation],
+        {
+          operationId: error.operationId,
+          exampleJsonPath: error.exampleJsonPath,
+          schemaJsonPath: error.schemaJsonPath,
+        }
+      );
+      if (exampleLocation !== undefined && schemaLocation !== undefined) {
+        result.relatedLocations = [schemaLocation];
+      }
+    }
+  }
+
+  public addLiveValidationIssues(issues: readonly LiveValidationIssue[], payloadFilePath?: string) {
+    for (const issue of issues) {
+      const result = this.addResult(
+        issue.code,
+        issue.severity,
+        issue.message,
+        [this.getLocation(issue.source?.url, issue.source?.position)],
+        {
+          schemaPath: issue.schemaPath,
+          pathsInPayload: issue.pathsInPayload,
+        },
+        issue.documentationUrl
+      );
+      const payloadLocation = this.getLocation(payloadFilePath, undefined);
+      if (payloadLocation !== undefined) {
+        result.relatedLocations = [payloadLocation];
+      }
+    }
+  }
+
+  public addTrafficValidationIssues(issues: readonly TrafficValidationIssue[]) {
+    for (const issue of issues) {
+      this.addLiveValidationIssues(issue.errors ?? [], issue.payloadFilePath);
+      for (const exception of issue.runtimeExceptions ?? []) {
+        this.addRuntimeException(exception.code, exception.message);
+      }
+    }
+  }
+
+  /**
+   * Failures of the validation itself are not results, they are reported as the notifications of
+   * an unsuccessful invocation.
+   */
+  public addRuntimeException(code: string, message: string) {
+    this.notifications.push({
+      level: "error",
+      message: { text: message },
+      descriptor: { id: code },
+    });
+  }
+
+  public build(): SarifLog {
+    return {
+      version: "2.1.0",
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: "oav",
+              informationUri: "https://github.com/Azure/oav",
+              rules: this.ruleDescriptors,
+            },
+          },
+          invocations: [
+            {
+              executionSuccessful: this.notifications.length === 0,
+              toolExecutionNotifications: this.notifications,
+            },
+          ],
+          results: this.results,
+        },
+      ],
+    };
+  }
+
+  private addResult(
+    code: string,
+    severity: Severity | undefined,
+    message: string,
+    locations: Array<SarifLocation | undefined>,
+    properties: { [key: string]: unknown },
+    helpUri?: string
+  ): SarifResult {
+    const definition = getOavErrorDefinition(code);
+    let ruleIndex = this.rules.get(code);
+    if (ruleIndex === undefined) {
+      ruleIndex = this.ruleDescriptors.length;
+      this.rules.set(code, ruleIndex);
+      const rule: SarifReportingDescriptor = { id: code };
+      if (definition !== undefined) {
+        rule.defaultConfiguration = { level: sarifLevelFromSeverity(definition.severity) };
+        if (definition.id !== undefined) {
+          rule.properties = { oavId: definition.id };
+        }
+      }
+      if (helpUri !== undefined) {
+        rule.helpUri = helpUri;
+      }
+      this.ruleDescriptors.push(rule);
+    }
+
+    const result: SarifResult = {
+      ruleId: code,
+      ruleIndex,
+      level: sarifLevelFromSeverity(severity ?? definition?.severity),
+      message: { text: message },
+      locations: locations.filter((it): it is SarifLocation => it !== undefined),
+    };
+    const definedProperties = _.omitBy(properties, (v) => v === undefined);
+    if (!_.isEmpty(definedProperties)) {
+      result.properties = definedProperties;
+    }
+    this.results.push(result);
+    return result;
+  }
+
+  private getLocation(
+    url: string | undefined,
+    position: FilePosition | undefined
+  ): SarifLocation | undefined {
+    if (!url) {
+      return undefined;
+    }
+    const location: SarifLocation = {
+      physicalLocation: { artifactLocation: { uri: this.getArtifactUri(url) } },
+    };
+    if (position !== undefined) {
+      // Positions from the json parser are 1-based, same as SARIF regions
+      location.physicalLocation.region = {
+        startLine: position.line,
+        startColumn: position.column,
+      };
+    }
+    return location;
+  }
+
+  private getArtifactUri(url: string): string {
+    const filePath = getReportFilePath(url, this.baseDirectory);
+    if (/^https?:\/\//i.test(filePath)) {
+      return filePath;
+    }
+    if (path.isAbsolute(filePath)) {
+      return encodeURI(`file://${filePath.split(path.sep).join("/").replace(/^\/?/, "/")}`);
+    }
+    return encodeURI(filePath);
+  }
+}
@@ -0,0 +1,122 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as fs from "fs-extra";
+import { SwaggerExampleErrorDetail } from "../swaggerValidator/modelValidator";
+import { SemanticErrorDetail } from "../swaggerValidator/semanticValidator";
+import { getReportFilePath } from "./validationOutput";
+
+/**
+ * A known finding. It is keyed by what stays the same when unrelated parts of the files change,
+ * so there are no line numbers. Files are relative to the directory of the validated spec.
+ */
+export interface ValidationBaselineEntry {
+  code: string;
+  file?: string;
+  operationId?: string;
+  example?: string;
+  jsonPath?: string;
+}
+
+export interface ValidationBaseline {
+  entries: ValidationBaselineEntry[];
+}
+
+export interface BaselineComparison<T> {
+  // Errors not in the baseline
+  newErrors: T[];
+  // Entries of the baseline not found any more
+  fixedEntries: ValidationBaselineEntry[];
+}
+
+const getRelativeFile = (url: string | undefined, baseDirectory: string) =>
+  url ? getReportFilePath(url, baseDirectory) : undefined;
+
+export const getSemanticBaselineEntry = (
+  error: SemanticErrorDetail,
+  baseDirectory: string
+): ValidationBaselineEntry => ({
+  code: error.code,
+  file: getRelativeFile(error.url, baseDirectory),
+  jsonPath: error.jsonPath,
+});
+
+export const getExampleBaselineEntry = (
+  error: SwaggerExampleErrorDetail,
+  baseDirectory: string
+): ValidationBaselineEntry => ({
+  code: error.code,
+  operationId: error.operationId,
+  example: getRelativeFile(error.exampleUrl, baseDirectory),
+  jsonPath: error.exampleJsonPath ?? error.schemaJsonPath,
+});
+
+const getEntryKey = (entry: ValidationBaselineEntry) =>
+  JSON.stringify([entry.code, entry.file, entry.operationId, entry.example, entry.jsonPath]);
+
+/**
+ * Matches the errors with the baseline entries one to one, so that a finding which occurs more
+ * times than in the baseline is reported as new.
+ */
+export const compareWithBaseline = <T>(
+  baseline: ValidationBaseline,
+  errors: readonly T[],
+  getEntry: (error: T) => ValidationBaselineEntry
+): BaselineComparison<T> => {
+  const remainingEntries = new Map<string, ValidationBaselineEntry[]>();
+  for (const entry of baseline.entries) {
+    const key = getEntryKey(entry);
+    remainingEntries.set(key, [...(remainingEntries.get(key) ?? []), entry]);
+  }
+
+  const newErrors: T[] = [];
+  for (const error of errors) {
+    const entries = remainingEntries.get(getEntryKey(getEntry(error)));
+    if (entries !== undefined && entries.length > 0) {
+      entries.pop();
+    } else {
+      newErrors.push(error);
+    }
+  }
+  const fixedEntries = ([] as ValidationBaselineEntry[]).concat(...remainingEntries.values());
+  return { newErrors, fixedEntries };
+};
+
+export const readValidationBaseline = async (filePath: string): Promise<ValidationBaseline> => {
+  if (!(await fs.pathExists(filePath))) {
+    throw new Error(
+      `Can not find the baseline file ${filePath}, please create it by updating the baseline.`
+    );
+  }
+  const baseline: ValidationBaseline = await fs.readJson(filePath);
+  if (!Array.isArray(baseline?.entries)) {
+    throw new Error(`The baseline file ${filePath} must contain an "entries" array.`);
+  }
+  return baseline;
+};
+
+/**
+ * Writes the entries sorted by their keys, with the keys in a fixed order, so that the baseline
+ * file has a stable diff in code review.
+ */
+export const writeValidationBaseline = async (
+  filePath: string,
+  entries: readonly ValidationBaselineEntry[]
+) => {
+  const baseline: ValidationBaseline = {
+    entries: entries
+      .map((it) => ({
+        code: it.code,
+        file: it.file,
+        operationId: it.operationId,
+        example: it.example,
+        jsonPath: it.jsonPath,
+      }))
+      .sort((a, b) => {
+        const keyA = getEntryKey(a);
+        const keyB = getEntryKey(b);
+        return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+      }),
+  };
+  await fs.outputFile(filePath, JSON.stringify(baseline, null, 2) + "\n");
+};
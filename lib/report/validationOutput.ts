@@ -0,0 +1,115 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { FilePosition } from "@azure-tools/openapi-tools-common";
+import * as _ from "lodash";
+import { SwaggerExampleErrorDetail } from "../swaggerValidator/modelValidator";
+import { SemanticErrorDetail } from "../swaggerValidator/semanticValidator";
+import { RuntimeException, TrafficValidationIssue } from "../swaggerValidator/trafficValidator";
+import { getOavErrorDefinition } from "../util/errorDefinitions";
+import { Severity } from "../util/severity";
+
+/**
+ * Issues of one run of validate-spec, validate-example or validate-traffic, to be printed by an
+ * output formatter.
+ */
+export interface ValidationOutput {
+  semanticErrors?: readonly SemanticErrorDetail[];
+  exampleErrors?: readonly SwaggerExampleErrorDetail[];
+  trafficIssues?: readonly TrafficValidationIssue[];
+  // Failures of the validation itself, other than the ones in trafficIssues
+  runtimeExceptions?: readonly RuntimeException[];
+}
+
+export interface OutputIssueLocation {
+  // Relative to the base directory if the file is under it, see getReportFilePath
+  filePath: string;
+  line?: number;
+  column?: number;
+}
+
+export interface OutputIssue {
+  code: string;
+  severity: Severity;
+  message: string;
+  location?: OutputIssueLocation;
+}
+
+/**
+ * Gets the path of a validated file to report. Files under baseDirectory are relative with "/"
+ * separators, other local files are absolute and urls are returned as is.
+ */
+export const getReportFilePath = (url: string, baseDirectory: string): string => {
+  if (/^https?:\/\//i.test(url)) {
+    return url;
+  }
+  const filePath = path.resolve(url.startsWith("file:") ? fileURLToPath(url) : url);
+  const relativePath = path.relative(baseDirectory, filePath);
+  if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+    return filePath;
+  }
+  return relativePath.split(path.sep).join("/");
+};
+
+const getLocation = (
+  url: string | undefined,
+  position: FilePosition | undefined,
+  baseDirectory: string
+): OutputIssueLocation | undefined =>
+  url
+    ? {
+        filePath: getReportFilePath(url, baseDirectory),
+        line: position?.line,
+        column: position?.column,
+      }
+    : undefined;
+
+const getSeverity = (code: string, severity: Severity | undefined) =>
+  severity ?? getOavErrorDefinition(code)?.severity ?? Severity.Error;
+
+/**
+ * Flattens the issues of all kinds with their positions. Example errors are located in the
+ * example file, or the spec if the example position is unknown.
+ */
+export const getOutputIssues = (
+  output: ValidationOutput,
+  baseDirectory: string = process.cwd()
+): OutputIssue[] => {
+  const issues: OutputIssue[] = [];
+  for (const error of output.semanticErrors ?? []) {
+    issues.push({
+      code: error.code,
+      severity: getSeverity(error.code, undefined),
+      message: error.message,
+      location: getLocation(error.url, error.position, baseDirectory),
+    });
+  }
+  for (const error of output.exampleErrors ?? []) {
+    issues.push({
+      code: error.code,
+      severity: getSeverity(error.code, error.severity),
+      message: error.message,
+      location:
+        getLocation(error.exampleUrl, error.examplePosition, baseDirectory) ??
+        getLocation(error.schemaUrl, error.schemaPosition, baseDirectory),
+    });
+  }
+  for (const trafficIssue of output.trafficIssues ?? []) {
+    for (const error of trafficIssue.errors ?? []) {
+      issues.push({
+        code: error.code,
+        severity: getSeverity(error.code, error.severity),
+        message: error.message,
+        location: getLocation(error.source?.url, error.source?.position, baseDirectory),
+      });
+    }
+  }
+  return issues;
+};
+
+export const getRuntimeExceptions = (output: ValidationOutput): RuntimeException[] => [
+  ...(output.runtimeExceptions ?? []),
+  ..._.flatMap(output.trafficIssues ?? [], (it) => it.runtimeExceptions ?? []),
+];
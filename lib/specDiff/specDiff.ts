@@ -0,0 +1,625 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { inject, injectable } from "inversify";
+import { inversifyGetInstance, TYPES } from "../inversifyUtils";
+import { JsonLoader } from "../swagger/jsonLoader";
+import { setDefaultOpts } from "../swagger/loader";
+import { SwaggerLoader, SwaggerLoaderOption } from "../swagger/swaggerLoader";
+import {
+  LowerHttpMethods,
+  Operation,
+  Parameter,
+  Schema,
+  SwaggerSpec,
+} from "../swagger/swaggerTypes";
+import { SchemaValidator } from "../swaggerValidator/schemaValidator";
+import { allOfTransformer } from "../transform/allOfTransformer";
+import { getTransformContext, TransformContext } from "../transform/context";
+import { referenceFieldsTransformer } from "../transform/referenceFieldsTransformer";
+import { resolveNestedDefinitionTransformer } from "../transform/resolveNestedDefinitionTransformer";
+import { applyGlobalTransformers, applySpecTransformers } from "../transform/transformer";
+import { traverseSwagger } from "../transform/traverseSwagger";
+import { xmsPathsTransformer } from "../transform/xmsPathsTransformer";
+import { xmsEnum, xmsLongRunningOperation } from "../util/constants";
+
+export type SpecDiffCode =
+  | "OPERATION_REMOVED"
+  | "OPERATION_ADDED"
+  | "PARAMETER_REMOVED"
+  | "PARAMETER_ADDED"
+  | "REQUIRED_PARAMETER_ADDED"
+  | "PARAMETER_BECAME_REQUIRED"
+  | "PROPERTY_REMOVED"
+  | "PROPERTY_RENAMED"
+  | "PROPERTY_ADDED"
+  | "REQUIRED_PROPERTY_ADDED"
+  | "PROPERTY_BECAME_REQUIRED"
+  | "TYPE_CHANGED"
+  | "FORMAT_CHANGED"
+  | "ENUM_NARROWED"
+  | "ENUM_WIDENED"
+  | "LONG_RUNNING_OPERATION_CHANGED"
+  | "RESPONSE_CODE_REMOVED"
+  | "RESPONSE_CODE_ADDED";
+
+export interface SpecDiffChange {
+  code: SpecDiffCode;
+  breaking: boolean;
+  // e.g. "PUT /subscriptions/{subscriptionId}/providers/Microsoft.Foo/foos/{fooName}"
+  operation: string;
+  operationId?: string;
+  // Where in the operation, e.g. "request.body.properties.name" or "response.200.value[*].id"
+  location?: string;
+  message: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+export interface SpecDiffResult {
+  oldSpecPath: string;
+  newSpecPath: string;
+  changes: SpecDiffChange[];
+}
+
+type Direction = "request" | "response";
+
+/**
+ * Loads a spec with the x-ms-paths merged into the paths and the allOf flattened, so that the
+ * properties of a schema could be compared without following its base schemas.
+ */
+@injectable()
+class SpecDiffLoader {
+  private transformContext: TransformContext;
+
+  public constructor(
+    private swaggerLoader: SwaggerLoader,
+    public readonly jsonLoader: JsonLoader,
+    @inject(TYPES.schemaValidator) schemaValidator: SchemaValidator
+  ) {
+    this.transformContext = getTransformContext(this.jsonLoader, schemaValidator, [
+      xmsPathsTransformer,
+      resolveNestedDefinitionTransformer,
+      referenceFieldsTransformer,
+      allOfTransformer,
+    ]);
+  }
+
+  // Each loader has its own container, so that the schemas of the two specs are not shared.
+  public static create(opts: SwaggerLoaderOption) {
+    setDefaultOpts(opts, {
+      checkUnderFileRoot: false,
+    });
+    return inversifyGetInstance(SpecDiffLoader, opts);
+  }
+
+  public async load(specPath: string): Promise<SwaggerSpec> {
+    const spec = await this.swaggerLoader.load(specPath);
+    applySpecTransformers(spec, this.transformContext);
+    applyGlobalTransformers(this.transformContext);
+    return spec;
+  }
+}
+
+interface OperationEntry {
+  name: string;
+  operation: Operation;
+  pathTemplate: string;
+  method: LowerHttpMethods;
+}
+
+// Path parameter names do not matter to the clients, e.g. {name} renamed to {resourceName}.
+const getOperationKey = (method: string, pathTemplate: string) =>
+  `${method} ${pathTemplate.replace(/\{[^}]*\}/g, "{}").toLowerCase()}`;
+
+const getOperations = (spec: SwaggerSpec) => {
+  const operations = new Map<string, OperationEntry>();
+  traverseSwagger(spec, {
+    onOperation: (operation, _path, method) => {
+      const pathTemplate = operation._path._pathTemplate;
+      operations.set(getOperationKey(method, pathTemplate), {
+        name: `${method.toUpperCase()} ${pathTemplate}`,
+        operation,
+        pathTemplate,
+        method,
+      });
+      return false;
+    },
+  });
+  return operations;
+};
+
+const isSuccessStatusCode = (statusCode: string) => statusCode.startsWith("2");
+
+const getClientName = (name: string, schema: Schema | undefined) =>
+  ((schema as any)?.["x-ms-client-name"] as string | undefined) ?? name;
+
+const formatValues = (values: unknown[]) => values.map((it) => JSON.stringify(it)).join(", ");
+
+class SpecComparer {
+  public readonly changes: SpecDiffChange[] = [];
+  private entry!: OperationEntry;
+  // Pairs of schemas compared in the current direction, to stop on recursive schemas
+  private visited = new Map<Schema, Set<Schema>>();
+
+  public constructor(private oldJsonLoader: JsonLoader, private newJsonLoader: JsonLoader) {}
+
+  public compareSpecs(oldSpec: SwaggerSpec, newSpec: SwaggerSpec) {
+    const oldOperations = getOperations(oldSpec);
+    const newOperations = getOperations(newSpec);
+    for (const [key, oldEntry] of oldOperations) {
+      const newEntry = newOperations.get(key);
+      if (newEntry === undefined) {
+        this.entry = oldEntry;
+        this.add(
+          "OPERATION_REMOVED",
+          true,
+          undefined,
+          `The operation ${oldEntry.name} is removed.`
+        );
+      } else {
+        this.entry = newEntry;
+        this.compareOperations(oldEntry, newEntry);
+      }
+    }
+    for (const [key, newEntry] of newOperations) {
+      if (!oldOperations.has(key)) {
+        this.entry = newEntry;
+        this.add("OPERATION_ADDED", false, undefined, `The operation ${newEntry.name} is added.`);
+      }
+    }
+  }
+
+  private add(
+    code: SpecDiffCode,
+    breaking: boolean,
+    location: string | undefined,
+    message: string,
+    oldValue?: unknown,
+    newValue?: unknown
+  ) {
+    this.changes.push({
+      code,
+      breaking,
+      operation: this.entry.name,
+      operationId: this.entry.operation.operationId,
+      location,
+      message,
+      oldValue,
+      newValue,
+    });
+  }
+
+  private compareOperations(oldEntry: OperationEntry, newEntry: OperationEntry) {
+    const oldOperation = oldEntry.operation;
+    const newOperation = newEntry.operation;
+
+    const oldLro = oldOperation[xmsLongRunningOperation] === true;
+    const newLro = newOperation[xmsLongRunningOperation] === true;
+    if (oldLro !== newLro) {
+      this.add(
+        "LONG_RUNNING_OPERATION_CHANGED",
+        true,
+        undefined,
+        `${xmsLongRunningOperation} is changed from ${oldLro} to ${newLro}.`,
+        oldLro,
+        newLro
+      );
+    }
+
+    this.visited = new Map();
+    this.compareParameters(oldEntry, newEntry);
+
+    this.visited = new Map();
+    for (const statusCode of Object.keys(oldOperation.responses)) {
+      const newResponse = newOperation.responses[statusCode];
+      if (newResponse === undefined) {
+        this.add(
+          "RESPONSE_CODE_REMOVED",
+          true,
+          `response.${statusCode}`,
+          `The response ${statusCode} is removed.`
+        );
+        continue;
+      }
+      const oldSchema = oldOperation.responses[statusCode].schema;
+      if (oldSchema !== undefined && newResponse.schema !== undefined) {
+        this.compareSchemas(oldSchema, newResponse.schema, "response", `response.${statusCode}`);
+      }
+    }
+    for (const statusCode of Object.keys(newOperation.responses)) {
+      if (oldOperation.responses[statusCode] === undefined) {
+        // Clients do not expect a new success status code, but handle any error response.
+        this.add(
+          "RESPONSE_CODE_ADDED",
+          isSuccessStatusCode(statusCode),
+          `response.${statusCode}`,
+          `The response ${statusCode} is added.`
+        );
+      }
+    }
+  }
+
+  private getParameters(entry: OperationEntry, jsonLoader: JsonLoader) {
+    const { operation, pathTemplate } = entry;
+    const pathParameterNames = (pathTemplate.match(/\{[^}]*\}/g) ?? []).map((it) =>
+      it.slice(1, -1)
+    );
+    const parameters = new Map<string, Parameter>();
+    for (const p of [...(operation._path.parameters ?? []), ...(operation.parameters ?? [])]) {
+      const parameter = jsonLoader.resolveRefObj(p);
+      // Path parameters are matched by their position in the path template.
+      const key =
+        parameter.in === "path"
+          ? `path:${pathParameterNames.indexOf(parameter.name)}`
+          : parameter.in === "body"
+          ? "body"
+          : `${parameter.in}:${parameter.name.toLowerCase()}`;
+      parameters.set(key, parameter);
+    }
+    return parameters;
+  }
+
+  private compareParameters(oldEntry: OperationEntry, newEntry: OperationEntry) {
+    const oldParameters = this.getParameters(oldEntry, this.oldJsonLoader);
+    const newParameters = this.getParameters(newEntry, this.newJsonLoader);
+    for (const [key, oldParameter] of oldParameters) {
+      const location = `request.${oldParameter.in}.${oldParameter.name}`;
+      const newParameter = newParameters.get(key);
+      if (newParameter === undefined) {
+        this.add(
+          "PARAMETER_REMOVED",
+          true,
+          location,
+          `The parameter ${oldParameter.name} is removed.`
+        );
+        continue;
+      }
+      if (oldParameter.required !== true && newParameter.required === true) {
+        this.add(
+          "PARAMETER_BECAME_REQUIRED",
+          true,
+          location,
+          `The parameter ${newParameter.name} becomes required.`
+        );
+      }
+      if (oldParameter.in === "body") {
+        const oldSchema = (oldParameter as { schema?: Schema }).schema;
+        const newSchema = (newParameter as { schema?: Schema }).schema;
+        if (oldSchema !== undefined && newSchema !== undefined) {
+          this.compareSchemas(oldSchema, newSchema, "request", "request.body");
+        }
+      } else {
+        this.compareSchemas(oldParameter as Schema, newParameter as Schema, "request", location);
+      }
+    }
+    for (const [key, newParameter] of newParameters) {
+      if (oldParameters.has(key)) {
+        continue;
+      }
+      const location = `request.${newParameter.in}.${newParameter.name}`;
+      if (newParameter.required === true) {
+        this.add(
+          "REQUIRED_PARAMETER_ADDED",
+          true,
+          location,
+          `The required parameter ${newParameter.name} is added.`
+        );
+      } else {
+        this.add(
+          "PARAMETER_ADDED",
+          false,
+          location,
+          `The optional parameter ${newParameter.name} is added.`
+        );
+      }
+    }
+  }
+
+  private getSchemaType(schema: Schema) {
+    if (schema.type !== undefined) {
+      return schema.type;
+    }
+    return schema.properties !== undefined || typeof schema.additionalProperties === "object"
+      ? "object"
+      : undefined;
+  }
+
+  // Used to pair a removed property with an added one of the same shape.
+  private getSchemaSignature(schema: Schema, jsonLoader: JsonLoader) {
+    const sch = jsonLoader.resolveRefObj(schema);
+    return JSON.stringify([
+      this.getSchemaType(sch),
+      sch.format,
+      Object.keys(sch.properties ?? {}).sort(),
+      sch.enum,
+    ]);
+  }
+
+  private compareSchemas(oldSch: Schema, newSch: Schema, direction: Direction, location: string) {
+    const oldSchema = this.oldJsonLoader.resolveRefObj(oldSch);
+    const newSchema = this.newJsonLoader.resolveRefObj(newSch);
+    const visitedNewSchemas = this.visited.get(oldSchema) ?? new Set<Schema>();
+    if (visitedNewSchemas.has(newSchema)) {
+      return;
+    }
+    visitedNewSchemas.add(newSchema);
+    this.visited.set(oldSchema, visitedNewSchemas);
+
+    const oldType = this.getSchemaType(oldSchema);
+    const newType = this.getSchemaType(newSchema);
+    if (oldType !== newType) {
+      this.add(
+        "TYPE_CHANGED",
+        true,
+        location,
+        `The type is changed from ${oldType} to ${newType}.`,
+        oldType,
+        newType
+      );
+      return;
+    }
+    if (oldSchema.format !== newSchema.format) {
+      this.add(
+        "FORMAT_CHANGED",
+        true,
+        location,
+        `The format is changed from ${oldSchema.format} to ${newSchema.format}.`,
+        oldSchema.format,
+        newSchema.format
+      );
+    }
+    this.compareEnums(oldSchema, newSchema, direction, location);
+
+    if (
+      oldSchema.items !== undefined &&
+      newSchema.items !== undefined &&
+      !Array.isArray(oldSchema.items) &&
+      !Array.isArray(newSchema.items)
+    ) {
+      this.compareSchemas(oldSchema.items, newSchema.items, direction, `${location}[*]`);
+    }
+    if (
+      typeof oldSchema.additionalProperties === "object" &&
+      typeof newSchema.additionalProperties === "object"
+    ) {
+      this.compareSchemas(
+        oldSchema.additionalProperties,
+        newSchema.additionalProperties,
+        direction,
+        `${location}{*}`
+      );
+    }
+    this.compareProperties(oldSchema, newSchema, direction, location);
+  }
+
+  /**
+   * Fewer values break the clients which send them, more values break the clients which receive
+   * them, unless the enum is modeled as string.
+   */
+  private compareEnums(
+    oldSchema: Schema,
+    newSchema: Schema,
+    direction: Direction,
+    location: string
+  ) {
+    const oldEnum = oldSchema.enum;
+    const newEnum = newSchema.enum;
+    if (oldEnum === undefined && newEnum === undefined) {
+      return;
+    }
+    // An enum added or removed as a whole is a change of all its values.
+    const removedValues =
+      oldEnum !== undefined && newEnum !== undefined
+        ? oldEnum.filter((it) => !newEnum.includes(it))
+        : [];
+    const addedValues =
+      oldEnum !== undefined && newEnum !== undefined
+        ? newEnum.filter((it) => !oldEnum.includes(it))
+        : [];
+    if (oldEnum === undefined || removedValues.length > 0) {
+      this.add(
+        "ENUM_NARROWED",
+        direction === "request",
+        location,
+        oldEnum === undefined
+          ? `The values are restricted to ${formatValues(newEnum!)}.`
+          : `The enum values ${formatValues(removedValues)} are removed.`,
+        oldEnum,
+        newEnum
+      );
+    }
+    if (newEnum === undefined || addedValues.length > 0) {
+      this.add(
+        "ENUM_WIDENED",
+        direction === "response" && newSchema[xmsEnum]?.modelAsString !== true,
+        location,
+        newEnum === undefined
+          ? `The values are not restricted to ${formatValues(oldEnum!)} any more.`
+          : `The enum values ${formatValues(addedValues)} are added.`,
+        oldEnum,
+        newEnum
+      );
+    }
+  }
+
+  private compareProperties(
+    oldSchema: Schema,
+    newSchema: Schema,
+    direction: Direction,
+    location: string
+  ) {
+    const oldProperties = oldSchema.properties ?? {};
+    const newProperties = newSchema.properties ?? {};
+    const oldRequired = oldSchema.required ?? [];
+    const newRequired = newSchema.required ?? [];
+
+    const removedNames = Object.keys(oldProperties).filter((it) => !(it in newProperties));
+    const addedNames = Object.keys(newProperties).filter((it) => !(it in oldProperties));
+    const renames = this.findRenames(oldProperties, newProperties, removedNames, addedNames);
+
+    for (const name of Object.keys(oldProperties)) {
+      const propertyLocation = `${location}.${name}`;
+      const newName = renames.get(name);
+      if (newName !== undefined) {
+        this.add(
+          "PROPERTY_RENAMED",
+          true,
+          propertyLocation,
+          `The property ${name} is renamed to ${newName}.`,
+          name,
+          newName
+        );
+        this.compareSchemas(
+          oldProperties[name],
+          newProperties[newName],
+          direction,
+          `${location}.${newName}`
+        );
+        continue;
+      }
+      if (!(name in newProperties)) {
+        this.add("PROPERTY_REMOVED", true, propertyLocation, `The property ${name} is removed.`);
+        continue;
+      }
+      const oldClientName = getClientName(name, oldProperties[name]);
+      const newClientName = getClientName(name, newProperties[name]);
+      if (oldClientName !== newClientName) {
+        this.add(
+          "PROPERTY_RENAMED",
+          true,
+          propertyLocation,
+          `The client name of the property ${name} is changed from ${oldClientName} to ${newClientName}.`,
+          oldClientName,
+          newClientName
+        );
+      }
+      if (direction === "request" && !oldRequired.includes(name) && newRequired.includes(name)) {
+        this.add(
+          "PROPERTY_BECAME_REQUIRED",
+          true,
+          propertyLocation,
+          `The property ${name} becomes required.`
+        );
+      }
+      this.compareSchemas(oldProperties[name], newProperties[name], direction, propertyLocation);
+    }
+
+    const renamedTo = new Set(renames.values());
+    for (const name of addedNames.filter((it) => !renamedTo.has(it))) {
+      const property = this.newJsonLoader.resolveRefObj(newProperties[name]);
+      // Read only properties are not sent by the clients.
+      if (newRequired.includes(name) && !(direction === "request" && property.readOnly === true)) {
+        this.add(
+          "REQUIRED_PROPERTY_ADDED",
+          direction === "request",
+          `${location}.${name}`,
+          `The required property ${name} is added.`
+        );
+      } else {
+        this.add("PROPERTY_ADDED", false, `${location}.${name}`, `The property ${name} is added.`);
+      }
+    }
+  }
+
+  /**
+   * Pairs the removed properties with the added ones: by the x-ms-client-name of the added
+   * property, by the name in another casing, or if only one property is replaced by one of the
+   * same shape.
+   */
+  private findRenames(
+    oldProperties: { [name: string]: Schema },
+    newProperties: { [name: string]: Schema },
+    removedNames: string[],
+    addedNames: string[]
+  ) {
+    const renames = new Map<string, string>();
+    const remainingAddedNames = new Set(addedNames);
+    for (const oldName of removedNames) {
+      const oldClientName = getClientName(oldName, oldProperties[oldName]).toLowerCase();
+      const newName = [...remainingAddedNames].find(
+        (it) =>
+          it.toLowerCase() === oldName.toLowerCase() ||
+          getClientName(it, newProperties[it]).toLowerCase() === oldClientName
+      );
+      if (newName !== undefined) {
+        renames.set(oldName, newName);
+        remainingAddedNames.delete(newName);
+      }
+    }
+    const remainingRemovedNames = removedNames.filter((it) => !renames.has(it));
+    if (remainingRemovedNames.length === 1 && remainingAddedNames.size === 1) {
+      const [oldName] = remainingRemovedNames;
+      const [newName] = [...remainingAddedNames];
+      if (
+        this.getSchemaSignature(oldProperties[oldName], this.oldJsonLoader) ===
+        this.getSchemaSignature(newProperties[newName], this.newJsonLoader)
+      ) {
+        renames.set(oldName, newName);
+      }
+    }
+    return renames;
+  }
+}
+
+/**
+ * Compares two versions of a spec operation by operation, and classifies each change as breaking
+ * or not for the existing clients.
+ */
+export const diffSpecs = async (
+  oldSpecPath: string,
+  newSpecPath: string,
+  opts: SwaggerLoaderOption = {}
+): Promise<SpecDiffResult> => {
+  const oldLoader = SpecDiffLoader.create({ ...opts });
+  const newLoader = SpecDiffLoader.create({ ...opts });
+  const oldSpec = await oldLoader.load(oldSpecPath);
+  const newSpec = await newLoader.load(newSpecPath);
+
+  const comparer = new SpecComparer(oldLoader.jsonLoader, newLoader.jsonLoader);
+  comparer.compareSpecs(oldSpec, newSpec);
+  return { oldSpecPath, newSpecPath, changes: comparer.changes };
+};
+
+export const hasBreakingChanges = (result: SpecDiffResult) =>
+  result.changes.some((it) => it.breaking);
+
+const escapeMarkdownCell = (value: string) => value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+const formatMarkdownTable = (changes: SpecDiffChange[]) => [
+  "| Code | Operation | Location | Message |",
+  "| --- | --- | --- | --- |",
+  ...changes.map(
+    (it) =>
+      `| ${it.code} | ${escapeMarkdownCell(it.operation)} | ${escapeMarkdownCell(
+        it.location ?? ""
+      )} | ${escapeMarkdownCell(it.message)} |`
+  ),
+];
+
+/**
+ * Formats the changes as markdown, e.g. for a pull request comment, with the breaking changes
+ * first.
+ */
+export const formatSpecDiffAsMarkdown = (result: SpecDiffResult): string => {
+  const breakingChanges = result.changes.filter((it) => it.breaking);
+  const nonBreakingChanges = result.changes.filter((it) => !it.breaking);
+  const lines = [
+    "# Spec diff",
+    "",
+    `Old: ${result.oldSpecPath}`,
+    "",
+    `New: ${result.newSpecPath}`,
+    "",
+    `## Breaking changes (${breakingChanges.length})`,
+    "",
+  ];
+  if (breakingChanges.length > 0) {
+    lines.push(...formatMarkdownTable(breakingChanges), "");
+  }
+  lines.push(`## Non-breaking changes (${nonBreakingChanges.length})`, "");
+  if (nonBreakingChanges.length > 0) {
+    lines.push(...formatMarkdownTable(nonBreakingChanges), "");
+  }
+  return lines.join("\n");
+};
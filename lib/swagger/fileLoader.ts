@@ -1,3 +1,4 @@
+import { createHash } from "crypto";
 import { dirname, relative as pathRelative, resolve as pathResolveOrigin } from "path";
 import {
   asyncWriteFile,
@@ -15,11 +16,17 @@ import { Loader, setDefaultOpts } from "./loader";
 export interface FileLoaderOption {
   fileRoot?: string;
   checkUnderFileRoot?: boolean;
+  // Keep the content hash of each loaded file, see getLoadedFileHashes
+  recordLoadedFileHashes?: boolean;
 }
 
+export const getContentHash = (content: string) =>
+  createHash("sha256").update(content).digest("hex");
+
 @injectable()
 export class FileLoader implements Loader<string> {
   private preloadCache = new Map<string, string>();
+  private loadedFileHashes = new Map<string, string>();
 
   public constructor(@inject(TYPES.opts) private opts: FileLoaderOption) {
     setDefaultOpts(opts, {
@@ -39,7 +46,18 @@ export class FileLoader implements Loader<string> {
       return preloadContent;
     }
 
-    return vfsReadFile(filePath);
+    const content = await vfsReadFile(filePath);
+    if (this.opts.recordLoadedFileHashes) {
+      this.loadedFileHashes.set(filePath, getContentHash(content));
+    }
+    return content;
+  }
+
+  /**
+   * The content hashes of the files loaded from disk or url, keyed by the resolved path.
+   */
+  public getLoadedFileHashes(): ReadonlyMap<string, string> {
+    return this.loadedFileHashes;
   }
 
   public relativePath(filePath: string) {
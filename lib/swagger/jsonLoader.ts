@@ -14,6 +14,8 @@ import { getLazyBuilder } from "../util/lazyBuilder";
 import { TYPES } from "../inversifyUtils";
 import { FileLoader, FileLoaderOption } from "./fileLoader";
 import { Loader, setDefaultOpts } from "./loader";
+import { convertOpenApi3, isOpenApi3 } from "./openApi3Converter";
+import { parseJsonWithCache } from "./parsedJsonCache";
 
 export interface JsonLoaderOption extends FileLoaderOption {
   useJsonParser?: boolean;
@@ -23,6 +25,8 @@ export interface JsonLoaderOption extends FileLoaderOption {
   transformRef?: boolean; // TODO implement transformRef: false
   skipResolveRefKeys?: string[];
   supportYaml?: boolean;
+  // Directory to keep the parsed json files by content hash, which could be shared by processes.
+  cacheDirectory?: string;
 }
 
 interface FileCache {
@@ -33,6 +37,16 @@ interface FileCache {
   mockName: string;
 }
 
+/**
+ * The loaded files with their resolved refs, which could be kept and restored to another loader
+ * of the same options.
+ */
+export interface JsonLoaderState {
+  files: FileCache[];
+  loadedFiles: any[];
+  globalMockNameId: number;
+}
+
 export const $id = "$id";
 
 export class JsonLoaderRefError extends Error {
@@ -67,7 +81,10 @@ export class JsonLoader implements Loader<Json> {
       // eslint-disable-next-line require-atomic-updates
       cache.originalContent = fileString;
     }
-    let fileContent = this.parseFileContent(cache, fileString);
+    let fileContent = await this.parseFileContentWithCache(cache, fileString);
+    if (isOpenApi3(fileContent)) {
+      convertOpenApi3(fileContent);
+    }
     // eslint-disable-next-line require-atomic-updates
     cache.resolved = fileContent;
     (fileContent as any)[$id] = cache.mockName;
@@ -108,6 +125,19 @@ export class JsonLoader implements Loader<Json> {
     // throw new Error(`Unknown file format while loading file ${cache.filePath}`);
   }
 
+  private async parseFileContentWithCache(cache: FileCache, fileString: string): Promise<any> {
+    // Only parsing with source positions is slow enough to be worth caching
+    if (
+      this.opts.cacheDirectory === undefined ||
+      !this.opts.useJsonParser ||
+      (this.opts.supportYaml &&
+        (cache.filePath.endsWith(".yaml") || cache.filePath.endsWith(".yml")))
+    ) {
+      return this.parseFileContent(cache, fileString);
+    }
+    return parseJsonWithCache(this.opts.cacheDirectory, cache.filePath, fileString);
+  }
+
   public async load(inputFilePath: string, skipResolveRef?: boolean): Promise<Json> {
     const filePath = this.fileLoader.relativePath(inputFilePath);
     let cache = this.fileCache.get(filePath);
@@ -274,6 +304,25 @@ export class JsonLoader implements Loader<Json> {
     return object;
   }
 
+  public getState(): JsonLoaderState {
+    return {
+      files: [...this.fileCache.values()],
+      loadedFiles: this.loadedFiles,
+      globalMockNameId: this.globalMockNameId,
+    };
+  }
+
+  public restoreState(state: JsonLoaderState) {
+    this.fileCache.clear();
+    this.mockNameMap = {};
+    for (const cache of state.files) {
+      this.fileCache.set(cache.filePath, cache);
+      this.mockNameMap[cache.mockName] = cache.filePath;
+    }
+    this.loadedFiles = state.loadedFiles;
+    this.globalMockNameId = state.globalMockNameId;
+  }
+
   private getNextMockName(filePath: string) {
     const id = this.globalMockNameId++;
     const mockName = `_${id.toString(36)}`;
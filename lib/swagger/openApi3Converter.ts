@@ -0,0 +1,463 @@
+import {
+  xmsDiscriminatorValue,
+  xmsParameterizedHost,
+  xmsSkipUrlEncoding,
+  xNullable,
+} from "../util/constants";
+import { lowerHttpMethods } from "./swaggerTypes";
+
+/**
+ * Converts an OpenAPI 3.x document to the swagger 2.0 shape in place, before its $refs are
+ * resolved, so that the loaders, transformers and validators could work on it unchanged.
+ * The objects of the document are updated rather than replaced to keep their source positions.
+ */
+
+const schemaKeys = [
+  "type",
+  "format",
+  "items",
+  "enum",
+  "default",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "minItems",
+  "maxItems",
+  "uniqueItems",
+  "multipleOf",
+  "x-ms-enum",
+  xNullable,
+];
+
+const formMediaTypes = ["application/x-www-form-urlencoded", "multipart/form-data"];
+
+export const isOpenApi3 = (doc: any): boolean =>
+  typeof doc === "object" &&
+  doc !== null &&
+  typeof doc.openapi === "string" &&
+  doc.openapi.startsWith("3.");
+
+const requestBodyParamKey = (name: string) => `${name}RequestBody`;
+
+const convertRef = (ref: string) => {
+  const idx = ref.indexOf("#");
+  if (idx === -1) {
+    return ref;
+  }
+  const file = ref.substr(0, idx);
+  const pointer = ref
+    .substr(idx)
+    .replace(/^#\/components\/schemas\//, "#/definitions/")
+    .replace(/^#\/components\/parameters\//, "#/parameters/")
+    .replace(/^#\/components\/responses\//, "#/responses/")
+    .replace(/^#\/components\/requestBodies\/([^/]+)$/, (_, name) => {
+      return `#/parameters/${requestBodyParamKey(name)}`;
+    });
+  return file + pointer;
+};
+
+const convertRefs = (node: any) => {
+  if (typeof node !== "object" || node === null) {
+    return;
+  }
+  if (Array.isArray(node)) {
+    node.forEach(convertRefs);
+    return;
+  }
+  for (const key of Object.keys(node)) {
+    const val = node[key];
+    if (key === "$ref" && typeof val === "string") {
+      node.$ref = convertRef(val);
+    } else {
+      convertRefs(val);
+    }
+  }
+};
+
+const convertSchema = (schema: any) => {
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    return;
+  }
+
+  if (schema.nullable !== undefined) {
+    schema[xNullable] = schema.nullable;
+    delete schema.nullable;
+  }
+  // OpenAPI 3.1 declares nullable by the type list
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((t: string) => t !== "null");
+    if (types.length < schema.type.length) {
+      schema[xNullable] = true;
+    }
+    schema.type = types.length === 1 ? types[0] : types;
+  }
+  // OpenAPI 3.1 uses the numeric exclusive bounds of json schema draft 2019-09
+  if (typeof schema.exclusiveMinimum === "number") {
+    schema.minimum = schema.exclusiveMinimum;
+    schema.exclusiveMinimum = true;
+  }
+  if (typeof schema.exclusiveMaximum === "number") {
+    schema.maximum = schema.exclusiveMaximum;
+    schema.exclusiveMaximum = true;
+  }
+  if (schema.const !== undefined) {
+    schema.enum = [schema.const];
+    delete schema.const;
+  }
+  if (typeof schema.discriminator === "object" && schema.discriminator !== null) {
+    schema.discriminator = schema.discriminator.propertyName;
+  }
+
+  for (const key of ["properties", "patternProperties"]) {
+    if (typeof schema[key] === "object" && schema[key] !== null) {
+      Object.values(schema[key]).forEach(convertSchema);
+    }
+  }
+  for (const key of ["allOf", "oneOf", "anyOf"]) {
+    if (Array.isArray(schema[key])) {
+      schema[key].forEach(convertSchema);
+    }
+  }
+  for (const key of ["items", "additionalProperties", "not"]) {
+    if (Array.isArray(schema[key])) {
+      schema[key].forEach(convertSchema);
+    } else {
+      convertSchema(schema[key]);
+    }
+  }
+};
+
+// The discriminator mapping of OpenAPI 3 is declared on the base schema instead of the children
+const convertDiscriminatorMappings = (schemas: any) => {
+  for (const schema of Object.values<any>(schemas)) {
+    const mapping = schema?.discriminator?.mapping;
+    if (typeof mapping !== "object" || mapping === null) {
+      continue;
+    }
+    for (const value of Object.keys(mapping)) {
+      const match = /^#\/components\/schemas\/([^/]+)$/.exec(mapping[value]);
+      const child = match === null ? undefined : schemas[match[1]];
+      if (child !== undefined && child[xmsDiscriminatorValue] === undefined) {
+        child[xmsDiscriminatorValue] = value;
+      }
+    }
+  }
+};
+
+const selectMediaType = (content: any): string | undefined => {
+  const mediaTypes = Object.keys(content ?? {});
+  return (
+    mediaTypes.find((m) => m === "application/json") ??
+    mediaTypes.find((m) => /[/+]json(;|$)/i.test(m)) ??
+    mediaTypes[0]
+  );
+};
+
+const moveSchemaFields = (target: any, schema: any, components: any) => {
+  if (typeof schema !== "object" || schema === null) {
+    return;
+  }
+  convertSchema(schema);
+  // Non-body parameters and headers of swagger 2.0 can't refer to a schema
+  let source = schema;
+  const match = typeof schema.$ref === "string" && /^#\/definitions\/([^/]+)$/.exec(schema.$ref);
+  if (match && components?.schemas?.[match[1]] !== undefined) {
+    source = components.schemas[match[1]];
+    convertSchema(source);
+  }
+  for (const key of schemaKeys) {
+    if (source[key] !== undefined && target[key] === undefined) {
+      target[key] = source[key];
+    }
+  }
+};
+
+const convertParameter = (param: any, components: any) => {
+  if (typeof param !== "object" || param === null || param.$ref !== undefined) {
+    return;
+  }
+  if (param.content !== undefined && param.schema === undefined) {
+    param.schema = param.content[selectMediaType(param.content)!]?.schema;
+  }
+  const { schema, style, explode } = param;
+  delete param.schema;
+  delete param.content;
+  delete param.style;
+  delete param.explode;
+  delete param.example;
+  delete param.examples;
+  moveSchemaFields(param, schema, components);
+
+  if (param.type === "array") {
+    if (style === "spaceDelimited") {
+      param.collectionFormat = "ssv";
+    } else if (style === "pipeDelimited") {
+      param.collectionFormat = "pipes";
+    } else if (param.in === "query" && (style === undefined || style === "form")) {
+      param.collectionFormat = explode === false ? "csv" : "multi";
+    } else {
+      param.collectionFormat = "csv";
+    }
+  }
+};
+
+const convertParameters = (params: any[] | undefined, components: any) => {
+  if (!Array.isArray(params)) {
+    return params;
+  }
+  params.forEach((p) => convertParameter(p, components));
+  // Cookie parameters are not supported by swagger 2.0
+  return params.filter((p) => p?.in !== "cookie");
+};
+
+/**
+ * Converts the request body to the body parameter, or to the formData parameters of a form.
+ * Returns the media types of the content as consumes.
+ */
+const convertRequestBody = (
+  requestBody: any,
+  allowForm: boolean
+): { params: any[]; consumes?: string[] } => {
+  const content = requestBody.content ?? {};
+  const consumes = Object.keys(content);
+  const mediaType = selectMediaType(content);
+  const schema = mediaType === undefined ? undefined : content[mediaType]?.schema;
+
+  if (
+    allowForm &&
+    mediaType !== undefined &&
+    formMediaTypes.includes(mediaType) &&
+    schema?.properties
+  ) {
+    convertSchema(schema);
+    const required: string[] = schema.required ?? [];
+    const params = Object.keys(schema.properties).map((name) => {
+      const prop = schema.properties[name];
+      const param: any = { name, in: "formData", required: required.includes(name) };
+      if (prop.description !== undefined) {
+        param.description = prop.description;
+      }
+      moveSchemaFields(param, prop, undefined);
+      if (prop.format === "binary") {
+        param.type = "file";
+        delete param.format;
+      }
+      return param;
+    });
+    return { params, consumes };
+  }
+
+  const name = requestBody["x-ms-requestBody-name"] ?? "body";
+  delete requestBody.content;
+  delete requestBody["x-ms-requestBody-name"];
+  requestBody.name = name;
+  requestBody.in = "body";
+  if (schema !== undefined) {
+    convertSchema(schema);
+    requestBody.schema = schema;
+  }
+  return { params: [requestBody], consumes: consumes.length > 0 ? consumes : undefined };
+};
+
+const convertHeaders = (headers: any, components: any) => {
+  for (const header of Object.values<any>(headers ?? {})) {
+    if (typeof header === "object" && header !== null && header.$ref === undefined) {
+      const { schema } = header;
+      delete header.schema;
+      delete header.example;
+      delete header.examples;
+      moveSchemaFields(header, schema, components);
+    }
+  }
+};
+
+/**
+ * Converts the content of the response to the schema. Returns the media types of the content.
+ */
+const convertResponse = (response: any, components: any): string[] => {
+  if (typeof response !== "object" || response === null || response.$ref !== undefined) {
+    return [];
+  }
+  const content = response.content;
+  const mediaTypes = Object.keys(content ?? {});
+  const mediaType = selectMediaType(content);
+  if (mediaType !== undefined && content[mediaType]?.schema !== undefined) {
+    response.schema = content[mediaType].schema;
+    convertSchema(response.schema);
+  }
+  delete response.content;
+  delete response.links;
+  convertHeaders(response.headers, components);
+  if (response.description === undefined) {
+    response.description = "";
+  }
+  return mediaTypes;
+};
+
+const convertOperation = (
+  operation: any,
+  components: any,
+  requestBodyConsumes: { [name: string]: string[] }
+) => {
+  operation.parameters = convertParameters(operation.parameters, components) ?? [];
+
+  const requestBody = operation.requestBody;
+  if (typeof requestBody === "object" && requestBody !== null) {
+    if (typeof requestBody.$ref === "string") {
+      operation.parameters.push({ $ref: requestBody.$ref });
+      const match = /^#\/parameters\/(.+)RequestBody$/.exec(requestBody.$ref);
+      const consumes = match === null ? undefined : requestBodyConsumes[match[1]];
+      if (consumes !== undefined && consumes.length > 0) {
+        operation.consumes = consumes;
+      }
+    } else {
+      const { params, consumes } = convertRequestBody(requestBody, true);
+      operation.parameters.push(...params);
+      if (consumes !== undefined) {
+        operation.consumes = consumes;
+      }
+    }
+  }
+  delete operation.requestBody;
+  delete operation.callbacks;
+  delete operation.servers;
+
+  const produces = new Set<string>();
+  for (const response of Object.values(operation.responses ?? {})) {
+    convertResponse(response, components).forEach((m) => produces.add(m));
+  }
+  if (produces.size > 0) {
+    operation.produces = [...produces];
+  }
+};
+
+const convertServers = (doc: any) => {
+  const server = Array.isArray(doc.servers) ? doc.servers[0] : undefined;
+  delete doc.servers;
+  if (typeof server?.url !== "string") {
+    return;
+  }
+  let url: string = server.url;
+  const schemeMatch = /^(\w+):\/\//.exec(url);
+  if (schemeMatch !== null) {
+    url = url.substr(schemeMatch[0].length);
+  }
+  let host = "";
+  let basePath = url;
+  if (schemeMatch !== null || !url.startsWith("/")) {
+    const slashIdx = url.indexOf("/");
+    host = slashIdx === -1 ? url : url.substr(0, slashIdx);
+    basePath = slashIdx === -1 ? "" : url.substr(slashIdx);
+  }
+  if (basePath !== "" && basePath !== "/") {
+    doc.basePath = basePath;
+  }
+
+  const variables = server.variables ?? {};
+  if (/{[^}]+}/.test(host)) {
+    doc[xmsParameterizedHost] = {
+      hostTemplate: host,
+      // The scheme is part of the variable if the url doesn't have one, e.g. {endpoint}
+      useSchemePrefix: schemeMatch !== null,
+      parameters: Object.keys(variables).map((name) => {
+        const variable = variables[name];
+        const param: any = {
+          name,
+          in: "path",
+          required: true,
+          type: "string",
+          [xmsSkipUrlEncoding]: true,
+        };
+        for (const key of ["description", "enum", "default"]) {
+          if (variable[key] !== undefined) {
+            param[key] = variable[key];
+          }
+        }
+        return param;
+      }),
+    };
+    if (schemeMatch !== null) {
+      doc.schemes = [schemeMatch[1]];
+    }
+  } else if (host !== "") {
+    doc.host = host;
+    if (schemeMatch !== null) {
+      doc.schemes = [schemeMatch[1]];
+    }
+  }
+};
+
+export const convertOpenApi3 = (doc: any) => {
+  const version: string = doc.openapi;
+  convertRefs(doc);
+
+  delete doc.openapi;
+  doc.swagger = "2.0";
+  doc._openApiVersion = version;
+  convertServers(doc);
+
+  const components = doc.components ?? {};
+  if (components.schemas !== undefined) {
+    convertDiscriminatorMappings(components.schemas);
+    Object.values(components.schemas).forEach(convertSchema);
+    doc.definitions = components.schemas;
+    delete components.schemas;
+  }
+  // Keep the schemas reachable for the parameters referring to them
+  const schemaComponents = { schemas: doc.definitions };
+
+  const parameters: any = {};
+  for (const name of Object.keys(components.parameters ?? {})) {
+    const param = components.parameters[name];
+    convertParameter(param, schemaComponents);
+    parameters[name] = param;
+  }
+  const requestBodyConsumes: { [name: string]: string[] } = {};
+  for (const name of Object.keys(components.requestBodies ?? {})) {
+    // A $ref could only be replaced by one parameter, so the forms are kept as a body
+    const requestBody = components.requestBodies[name];
+    requestBodyConsumes[name] = Object.keys(requestBody.content ?? {});
+    parameters[requestBodyParamKey(name)] = convertRequestBody(requestBody, false).params[0];
+  }
+  if (Object.keys(parameters).length > 0) {
+    doc.parameters = parameters;
+  }
+  delete components.parameters;
+  delete components.requestBodies;
+
+  if (components.responses !== undefined) {
+    for (const response of Object.values(components.responses)) {
+      convertResponse(response, schemaComponents);
+    }
+    doc.responses = components.responses;
+    delete components.responses;
+  }
+  convertHeaders(components.headers, schemaComponents);
+
+  for (const pathTemplate of Object.keys(doc.paths ?? {})) {
+    const path = doc.paths[pathTemplate];
+    if (typeof path !== "object" || path === null) {
+      continue;
+    }
+    if (path.parameters !== undefined) {
+      path.parameters = convertParameters(path.parameters, schemaComponents);
+    }
+    delete path.servers;
+    delete path.summary;
+    delete path.description;
+    delete path.trace;
+    for (const method of lowerHttpMethods) {
+      if (path[method] !== undefined) {
+        convertOperation(path[method], schemaComponents, requestBodyConsumes);
+      }
+    }
+  }
+
+  if (Object.keys(components).length === 0) {
+    delete doc.components;
+  }
+};
@@ -0,0 +1,154 @@
+import { dirname, join as pathJoin } from "path";
+import {
+  FilePosition,
+  getInfo,
+  Json,
+  parseJson,
+  setInfo,
+  StringMap,
+} from "@azure-tools/openapi-tools-common";
+import * as fs from "fs-extra";
+import { getContentHash } from "./fileLoader";
+
+// Bump it when the layout of the cached files changes, so that old entries are not read.
+export const cacheFormatVersion = "v1";
+
+interface CacheEntry {
+  value: Json;
+  // Positions of objects, arrays and primitive properties, see collectPositions.
+  positions: number[];
+}
+
+const isContainer = (value: unknown): value is object =>
+  typeof value === "object" && value !== null;
+
+/**
+ * Collects the source positions set by parseJson. Each object or array appends its own line
+ * and column, then the line and column of each primitive property, in the order of
+ * Object.keys, before its child objects and arrays are visited.
+ */
+const collectPositions = (value: object, positions: number[]) => {
+  const info = getInfo(value as any)!;
+  positions.push(info.position.line, info.position.column);
+  for (const key of Object.keys(value)) {
+    const child = (value as any)[key];
+    if (!isContainer(child)) {
+      const position = info.primitiveProperties[key]!;
+      positions.push(position.line, position.column);
+    }
+  }
+  for (const key of Object.keys(value)) {
+    const child = (value as any)[key];
+    if (isContainer(child)) {
+      collectPositions(child, positions);
+    }
+  }
+};
+
+const restorePositions = (
+  value: object,
+  positions: number[],
+  state: { index: number },
+  url: string,
+  parent?: object,
+  property?: string
+) => {
+  const next = (): FilePosition => ({
+    line: positions[state.index++],
+    column: positions[state.index++],
+  });
+  const position = next();
+  const primitiveProperties: { [key: string]: FilePosition } = {};
+  const keys = Object.keys(value);
+  for (const key of keys) {
+    if (!isContainer((value as any)[key])) {
+      primitiveProperties[key] = next();
+    }
+  }
+  setInfo(
+    value as any,
+    parent === undefined
+      ? { isChild: false, position, url, primitiveProperties }
+      : {
+          isChild: true,
+          position,
+          parent: parent as any,
+          // parseJson uses number for array index
+          property: Array.isArray(parent) ? Number(property) : property!,
+          primitiveProperties: primitiveProperties as StringMap<FilePosition>,
+        }
+  );
+  for (const key of keys) {
+    const child = (value as any)[key];
+    if (isContainer(child)) {
+      restorePositions(child, positions, state, url, value, key);
+    }
+  }
+};
+
+const readCacheEntry = async (cachePath: string, url: string): Promise<Json | undefined> => {
+  let entry: CacheEntry;
+  try {
+    entry = JSON.parse(await fs.readFile(cachePath, "utf8"));
+  } catch {
+    // Missing, or partially written by a process which died before renaming the file.
+    return undefined;
+  }
+  if (isContainer(entry.value)) {
+    restorePositions(entry.value, entry.positions, { index: 0 }, url);
+  }
+  return entry.value;
+};
+
+/**
+ * Writes a file of the cache directory to a temporary file and renames it, so that other
+ * processes sharing the directory never read a partial file.
+ */
+export const writeCacheFile = async (
+  cachePath: string,
+  write: (tmpPath: string) => Promise<void>
+) => {
+  const tmpPath = `${cachePath}.${process.pid}.tmp`;
+  await fs.ensureDir(dirname(cachePath));
+  await write(tmpPath);
+  await fs.rename(tmpPath, cachePath);
+};
+
+const writeCacheEntry = async (cachePath: string, value: Json) => {
+  const positions: number[] = [];
+  if (isContainer(value)) {
+    collectPositions(value, positions);
+  }
+  const entry: CacheEntry = { value, positions };
+  await writeCacheFile(cachePath, (tmpPath) => fs.writeFile(tmpPath, JSON.stringify(entry)));
+};
+
+export const getParsedJsonCachePath = (cacheDirectory: string, fileString: string) => {
+  const hash = getContentHash(fileString);
+  return pathJoin(cacheDirectory, cacheFormatVersion, hash.substr(0, 2), `${hash}.json`);
+};
+
+/**
+ * Same as parseJson with source positions, but the result is kept in the cache directory by the
+ * hash of the file content. Later loads of the same content, from any path and by any process
+ * sharing the directory, skip parsing. Failures of writing the cache are ignored.
+ */
+export const parseJsonWithCache = async (
+  cacheDirectory: string,
+  url: string,
+  fileString: string
+): Promise<Json> => {
+  const cachePath = getParsedJsonCachePath(cacheDirectory, fileString);
+  const cached = await readCacheEntry(cachePath, url);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const value = parseJson(url, fileString);
+  try {
+    await writeCacheEntry(cachePath, value);
+  } catch {
+    // The cache is an optimization only, e.g. the directory could be read only.
+  }
+  return value;
+};
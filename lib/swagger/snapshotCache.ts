@@ -0,0 +1,139 @@
+import { join as pathJoin } from "path";
+import * as readline from "readline";
+import * as fs from "fs-extra";
+import {
+  decodeObjectGraph,
+  EncodedNode,
+  EncodedValue,
+  encodeObjectGraph,
+} from "../util/objectGraph";
+import { getContentHash } from "./fileLoader";
+import { cacheFormatVersion, writeCacheFile } from "./parsedJsonCache";
+
+interface SnapshotHeader {
+  // Content hashes of the files which the state is built from, keyed by the resolved path
+  files: { [filePath: string]: string };
+  root: EncodedValue;
+}
+
+// A single line of the whole graph could exceed the max string length
+const nodesPerLine = 1000;
+
+export const getSnapshotCachePath = (cacheDirectory: string, key: string) =>
+  pathJoin(cacheDirectory, cacheFormatVersion, "snapshot", `${getContentHash(key)}.jsonl`);
+
+/**
+ * Reads the lines of a file in order until onLine returns false.
+ */
+const readLines = (filePath: string, onLine: (line: string) => boolean | void) =>
+  new Promise<void>((resolve, reject) => {
+    const input = fs.createReadStream(filePath);
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    // Lines could still be emitted after close
+    let stopped = false;
+    const onError = (e: Error) => {
+      stopped = true;
+      reject(e);
+    };
+    // readline also emits the errors of the input
+    input.on("error", onError);
+    lines.on("error", onError);
+    lines.on("line", (line) => {
+      if (stopped) {
+        return;
+      }
+      try {
+        stopped = onLine(line) === false;
+      } catch (e) {
+        stopped = true;
+        reject(e);
+      }
+      if (stopped) {
+        lines.close();
+        input.destroy();
+      }
+    });
+    // Resolving after reject is a no-op. The file is closed after the pending read.
+    input.on("close", resolve);
+  });
+
+/**
+ * Keeps the state, an object graph of the loaded files, with the content hashes of the files,
+ * so that it's only restored if none of the files is changed. The graph is written in lines of
+ * encoded nodes to a temporary file which is renamed at last.
+ */
+export const writeSnapshotCache = async (
+  cachePath: string,
+  files: ReadonlyMap<string, string>,
+  state: unknown
+) => {
+  const { root, nodes } = encodeObjectGraph(state);
+  const header: SnapshotHeader = { files: {}, root };
+  for (const [filePath, hash] of files) {
+    header.files[filePath] = hash;
+  }
+  await writeCacheFile(cachePath, async (tmpPath) => {
+    const fd = await fs.open(tmpPath, "w");
+    try {
+      await fs.write(fd, JSON.stringify(header) + "\n");
+      let chunk: EncodedNode[] = [];
+      for (const node of nodes) {
+        chunk.push(node);
+        if (chunk.length === nodesPerLine) {
+          await fs.write(fd, JSON.stringify(chunk) + "\n");
+          chunk = [];
+        }
+      }
+      if (chunk.length > 0) {
+        await fs.write(fd, JSON.stringify(chunk) + "\n");
+      }
+    } finally {
+      await fs.close(fd);
+    }
+  });
+};
+
+/**
+ * Restores the state written by writeSnapshotCache. Returns undefined if there is no entry, or
+ * any of the files is changed, by the content hashes which loadFileHash returns.
+ */
+export const readSnapshotCache = async (
+  cachePath: string,
+  loadFileHash: (filePath: string) => Promise<string | undefined>
+): Promise<unknown | undefined> => {
+  let headerLine: string | undefined;
+  try {
+    await readLines(cachePath, (line) => {
+      headerLine = line;
+      return false;
+    });
+  } catch {
+    return undefined;
+  }
+  if (headerLine === undefined) {
+    return undefined;
+  }
+  const header: SnapshotHeader = JSON.parse(headerLine);
+  for (const filePath of Object.keys(header.files)) {
+    if ((await loadFileHash(filePath)) !== header.files[filePath]) {
+      return undefined;
+    }
+  }
+
+  const nodes: EncodedNode[] = [];
+  let isHeader = true;
+  await readLines(cachePath, (line) => {
+    if (isHeader) {
+      isHeader = false;
+      // The entry is replaced by another process meanwhile
+      if (line !== headerLine) {
+        throw new Error(`Cache entry ${cachePath} is changed while reading`);
+      }
+      return;
+    }
+    for (const node of JSON.parse(line) as EncodedNode[]) {
+      nodes.push(node);
+    }
+  });
+  return decodeObjectGraph(header.root, nodes);
+};
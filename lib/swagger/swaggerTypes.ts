@@ -21,6 +21,7 @@ import {
   xmsAzureResource,
   xmsLongRunningOperationOptions,
   xmsLongRunningOperationOptionsField,
+  xmsPageable,
 } from "../util/constants";
 import { $id } from "./jsonLoader";
 
@@ -152,6 +153,7 @@ export interface Operation {
   [xmsLongRunningOperation]?: boolean;
   [xmsLongRunningOperationOptions]?: { [xmsLongRunningOperationOptionsField]: string };
   [xmsExamples]?: { [description: string]: SwaggerExample };
+  [xmsPageable]?: XMsPageable;
 
   // TODO check why do we need provider
   provider?: string;
@@ -330,6 +332,13 @@ export interface XMsParameterizedHost {
   parameters: PathParameter[];
 }
 
+export interface XMsPageable {
+  // Null means the operation returns all the items in one page
+  nextLinkName?: string | null;
+  itemName?: string;
+  operationName?: string;
+}
+
 // ---------------------------- Example --------------------------------------
 export interface SwaggerExample {
   operationId?: string;
@@ -373,4 +382,6 @@ export interface SwaggerSpec {
 
   _filePath: string;
   _providerNamespace?: string;
+  // Version of the OpenAPI 3.x document converted to this spec
+  _openApiVersion?: string;
 }
@@ -0,0 +1,266 @@
+import { HttpHeaders } from "@azure/core-http";
+import * as _ from "lodash";
+import { terminalStates } from "../apiScenario/lro/constants";
+import {
+  LiveValidationIssue,
+  LiveValidator,
+  RequestResponsePair,
+} from "../liveValidation/liveValidator";
+import { issueFromErrorCode, OperationContext } from "../liveValidation/operationValidator";
+import { Operation } from "../swagger/swaggerTypes";
+import {
+  xmsLongRunningOperation,
+  xmsLongRunningOperationOptions,
+  xmsLongRunningOperationOptionsField,
+} from "../util/constants";
+import { TrafficValidationIssue } from "./trafficValidator";
+
+export interface LroFlowCall {
+  payloadFilePath: string;
+  payload: RequestResponsePair;
+}
+
+interface LroFlow {
+  initial: LroFlowCall;
+  operationInfo: OperationContext;
+  // Lower cased urls of the status monitor, from Azure-AsyncOperation or Operation-Location
+  statusUrls: Set<string>;
+  // Lower cased urls from Location
+  locationUrls: Set<string>;
+  polls: LroFlowCall[];
+  issues: LiveValidationIssue[];
+  // Lower cased terminal status, set once the polling completes
+  terminalStatus?: string;
+  statusResult?: LroFlowCall;
+  locationResult?: LroFlowCall;
+  originalUriResult?: LroFlowCall;
+}
+
+const statusMonitorHeaders = ["Azure-AsyncOperation", "Operation-Location"];
+
+const finalStateHeaders: { [finalStateVia: string]: string } = {
+  "azure-async-operation": "Azure-AsyncOperation",
+  "operation-location": "Operation-Location",
+  location: "Location",
+};
+
+/**
+ * Groups the recorded calls into the flows of long running operations, i.e. the initial call and
+ * the polling of the urls from its Azure-AsyncOperation or Location headers, then validates each
+ * flow against the spec of the initial operation once all the calls are added in recorded order.
+ */
+export class LroFlowValidator {
+  private flows: LroFlow[] = [];
+
+  public constructor(private liveValidator: LiveValidator) {}
+
+  /**
+   * Returns true if the call polls a flow added before. The status monitor could also be an
+   * operation of the spec, which the caller validates as any other call.
+   */
+  public addPollingCall(call: LroFlowCall): boolean {
+    const { liveRequest, liveResponse } = call.payload;
+    if (liveRequest.method.toUpperCase() !== "GET") {
+      return false;
+    }
+    const url = liveRequest.url.toLowerCase();
+    const flow = _.findLast(this.flows, (it) => it.statusUrls.has(url) || it.locationUrls.has(url));
+    if (flow === undefined) {
+      return false;
+    }
+    flow.polls.push(call);
+    addPollingUrls(flow, liveResponse.headers);
+    const statusCode = String(liveResponse.statusCode);
+    const operation = flow.operationInfo.operationMatch!.operation;
+    if (flow.statusUrls.has(url)) {
+      if (statusCode !== "200") {
+        return true;
+      }
+      const status = liveResponse.body?.status;
+      if (typeof status !== "string") {
+        flow.issues.push(
+          issueFromErrorCode("LRO_POLLING_STATUS_NOT_FOUND", { url }, operation.responses)
+        );
+      } else if (terminalStates.includes(status.toLowerCase())) {
+        flow.terminalStatus = status.toLowerCase();
+        flow.statusResult = call;
+        if (flow.terminalStatus !== "succeeded" && liveResponse.body?.error === undefined) {
+          flow.issues.push(
+            issueFromErrorCode("LRO_POLLING_ERROR_NOT_FOUND", { url, status }, operation.responses)
+          );
+        }
+      }
+    } else if (statusCode !== "202") {
+      // The Location polling completes with the final result
+      if (flow.terminalStatus === undefined) {
+        flow.terminalStatus = statusCode.startsWith("2") ? "succeeded" : "failed";
+      }
+      flow.locationResult = call;
+    }
+    return true;
+  }
+
+  /**
+   * Starts a flow if the call is the initial call of a long running operation, or takes it as the
+   * final GET on the original uri of a completed flow.
+   */
+  public addOperationCall(call: LroFlowCall, operationInfo: OperationContext) {
+    const { liveRequest, liveResponse } = call.payload;
+    if (liveRequest.method.toUpperCase() === "GET") {
+      const urlPath = getUrlPath(liveRequest.url);
+      const flow = _.findLast(
+        this.flows,
+        (it) =>
+          it.terminalStatus === "succeeded" &&
+          it.originalUriResult === undefined &&
+          getUrlPath(it.initial.payload.liveRequest.url) === urlPath
+      );
+      if (flow !== undefined) {
+        flow.originalUriResult = call;
+      }
+      return;
+    }
+    const operation = operationInfo.operationMatch?.operation;
+    const statusCode = String(liveResponse.statusCode);
+    if (operation?.[xmsLongRunningOperation] !== true || !["201", "202"].includes(statusCode)) {
+      return;
+    }
+    const flow: LroFlow = {
+      initial: call,
+      operationInfo,
+      statusUrls: new Set(),
+      locationUrls: new Set(),
+      polls: [],
+      issues: [],
+    };
+    addPollingUrls(flow, liveResponse.headers);
+    if (flow.statusUrls.size > 0 || flow.locationUrls.size > 0) {
+      this.flows.push(flow);
+    }
+  }
+
+  /**
+   * Validates the polling and the final result of each flow. The flows without any recorded
+   * polling are skipped, the initial calls of them are validated on their own.
+   */
+  public async validate(): Promise<TrafficValidationIssue[]> {
+    const result: TrafficValidationIssue[] = [];
+    for (const flow of this.flows) {
+      if (flow.polls.length === 0) {
+        continue;
+      }
+      const errors = [...flow.issues];
+      const operation = flow.operationInfo.operationMatch!.operation;
+      const initialHeaders = new HttpHeaders(flow.initial.payload.liveResponse.headers);
+      const finalStateViaOption =
+        operation[xmsLongRunningOperationOptions]?.[xmsLongRunningOperationOptionsField];
+      const finalStateVia =
+        finalStateViaOption?.toLowerCase() ?? getDefaultFinalStateVia(operation, initialHeaders);
+      const finalStateHeader =
+        finalStateViaOption === undefined ? undefined : finalStateHeaders[finalStateVia!];
+      if (finalStateHeader !== undefined && !initialHeaders.get(finalStateHeader)) {
+        errors.push(
+          issueFromErrorCode(
+            "LRO_FINAL_STATE_HEADER_NOT_FOUND",
+            { finalStateVia, header: finalStateHeader },
+            operation.responses
+          )
+        );
+      }
+
+      let finalResult: LroFlowCall | undefined;
+      if (flow.terminalStatus === undefined) {
+        errors.push(issueFromErrorCode("LRO_NOT_COMPLETED", {}, operation.responses));
+      } else if (flow.terminalStatus === "succeeded" && finalStateVia !== undefined) {
+        finalResult =
+          finalStateVia === "location"
+            ? flow.locationResult
+            : finalStateVia === "original-uri"
+            ? flow.originalUriResult
+            : flow.statusResult;
+        if (finalResult === undefined) {
+          errors.push(
+            issueFromErrorCode("LRO_FINAL_RESULT_NOT_FOUND", { finalStateVia }, operation.responses)
+          );
+        } else {
+          errors.push(...(await this.validateFinalResult(flow, finalResult)));
+        }
+      }
+
+      if (errors.length > 0) {
+        result.push({
+          payloadFilePath: flow.initial.payloadFilePath,
+          errors,
+          runtimeExceptions: [],
+          operationInfo: _.pick(flow.operationInfo, ["apiVersion", "operationId"]),
+          lroFlowPayloadFilePaths: _.uniq(
+            [...flow.polls, finalResult]
+              .filter((it) => it !== undefined)
+              .map((it) => it!.payloadFilePath)
+          ),
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * The final result is validated as the 200 response of the initial operation.
+   */
+  private async validateFinalResult(
+    flow: LroFlow,
+    finalResult: LroFlowCall
+  ): Promise<LiveValidationIssue[]> {
+    const operation = flow.operationInfo.operationMatch!.operation;
+    const { liveResponse } = finalResult.payload;
+    if (
+      operation.responses["200"]?.schema === undefined ||
+      String(liveResponse.statusCode) !== "200"
+    ) {
+      return [];
+    }
+    const { liveRequest } = flow.initial.payload;
+    const validationResult = await this.liveValidator.validateLiveResponse(
+      { statusCode: "200", headers: liveResponse.headers, body: liveResponse.body },
+      { url: liveRequest.url, method: liveRequest.method },
+      { includeOperationMatch: true },
+      flow.operationInfo
+    );
+    return validationResult.errors;
+  }
+}
+
+const addPollingUrls = (flow: LroFlow, rawHeaders: { [name: string]: string } | undefined) => {
+  const headers = new HttpHeaders(rawHeaders);
+  for (const headerName of statusMonitorHeaders) {
+    const url = headers.get(headerName);
+    if (url) {
+      flow.statusUrls.add(url.toLowerCase());
+    }
+  }
+  const location = headers.get("Location");
+  if (location) {
+    flow.locationUrls.add(location.toLowerCase());
+  }
+};
+
+/**
+ * The final result of a Put or Patch call is from the original uri by default, a Post call takes
+ * it from the Location if returned, and a Delete call has no result.
+ */
+const getDefaultFinalStateVia = (
+  operation: Operation,
+  initialHeaders: HttpHeaders
+): string | undefined => {
+  switch (operation._method) {
+    case "put":
+    case "patch":
+      return "original-uri";
+    case "post":
+      return initialHeaders.get("Location") ? "location" : "azure-async-operation";
+    default:
+      return undefined;
+  }
+};
+
+const getUrlPath = (url: string) => url.split("?")[0].toLowerCase();
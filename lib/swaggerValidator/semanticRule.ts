@@ -0,0 +1,128 @@
+import * as path from "path";
+import { getInfo, getRootObjectInfo } from "@azure-tools/openapi-tools-common";
+import { JsonLoader } from "../swagger/jsonLoader";
+import { isSuppressedInPath } from "../swagger/suppressionLoader";
+import {
+  LowerHttpMethods,
+  Operation,
+  Path,
+  refSelfSymbol,
+  Response,
+  SwaggerSpec,
+} from "../swagger/swaggerTypes";
+import { traverseSwagger } from "../transform/traverseSwagger";
+import { SemanticErrorDetail } from "./semanticValidator";
+
+export interface SemanticRuleContext {
+  // The x-ms-paths are merged into the paths of the spec, and the schemas are as written
+  spec: SwaggerSpec;
+  // Resolves the $ref of parameters and schemas
+  jsonLoader: JsonLoader;
+  /**
+   * Reports an error with the code of the rule at the position of the node, unless it is
+   * suppressed in the readme.
+   */
+  report(node: object, message: string, jsonPath?: string): void;
+}
+
+/**
+ * Custom check of the spec run by SwaggerSemanticValidator. The callbacks are the ones of
+ * traverseSwagger.
+ */
+export interface SemanticRule {
+  // Code of the errors reported by the rule, which could be suppressed in the readme like the
+  // built-in codes.
+  code: string;
+  onPath?: (path: Path, pathTemplate: string, context: SemanticRuleContext) => void;
+  onOperation?: (
+    operation: Operation,
+    path: Path,
+    method: LowerHttpMethods,
+    context: SemanticRuleContext
+  ) => void;
+  onResponse?: (
+    response: Response,
+    operation: Operation,
+    path: Path,
+    statusCode: string,
+    context: SemanticRuleContext
+  ) => void;
+}
+
+export const runSemanticRules = (
+  rules: readonly SemanticRule[],
+  spec: SwaggerSpec,
+  jsonLoader: JsonLoader,
+  errors: SemanticErrorDetail[]
+) => {
+  for (const rule of rules) {
+    const context: SemanticRuleContext = {
+      spec,
+      jsonLoader,
+      report: (node, message, jsonPath) => {
+        if (isSuppressedInPath(node, rule.code, message)) {
+          return;
+        }
+        const info = getInfo(node);
+        errors.push({
+          // Codes of custom rules are not in semanticValidationErrors
+          code: rule.code as SemanticErrorDetail["code"],
+          message,
+          url: info !== undefined ? getRootObjectInfo(info).url : spec._filePath,
+          position: info?.position,
+          jsonPath: jsonPath ?? (node as any)[refSelfSymbol],
+        });
+      },
+    };
+    const { onPath, onOperation, onResponse } = rule;
+    traverseSwagger(spec, {
+      onPath: onPath && ((p, pathTemplate) => onPath(p, pathTemplate, context)),
+      onOperation:
+        onOperation && ((operation, p, method) => onOperation(operation, p, method, context)),
+      onResponse:
+        onResponse &&
+        ((response, operation, p, statusCode) =>
+          onResponse(response, operation, p, statusCode, context)),
+    });
+  }
+};
+
+const requireModule = (modulePath: string) => {
+  const filePath = path.resolve(modulePath);
+  if (!filePath.endsWith(".ts")) {
+    return require(filePath);
+  }
+  // Modules are compiled on load if there is a TypeScript require hook, e.g. ts-node or jest.
+  if (require.extensions !== undefined && require.extensions[".ts"] === undefined) {
+    try {
+      require("ts-node/register");
+    } catch {
+      // Not installed
+    }
+  }
+  try {
+    return require(filePath);
+  } catch (e) {
+    throw new Error(
+      `Failed to load ${modulePath}: ${e.message}. Please install ts-node to load rules written in TypeScript, or compile them to js.`
+    );
+  }
+};
+
+/**
+ * Loads the rules from a js or ts module, which exports an array of rules either as
+ * module.exports, default or semanticRules.
+ */
+export const loadSemanticRules = (modulePath: string): SemanticRule[] => {
+  const mod = requireModule(modulePath);
+  const rules = Array.isArray(mod) ? mod : mod.default ?? mod.semanticRules;
+  if (!Array.isArray(rules)) {
+    throw new Error(`${modulePath} doesn't export an array of semantic rules.`);
+  }
+  for (const rule of rules) {
+    if (typeof rule?.code !== "string") {
+      throw new Error(`Every semantic rule of ${modulePath} must have a code.`);
+    }
+  }
+  return rules;
+};
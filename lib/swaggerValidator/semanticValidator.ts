@@ -44,6 +44,7 @@ import {
   SchemaValidatorOption,
 } from "./schemaValidator";
 import swagger2SchemaDoc from "./swagger-2.0.json";
+import { runSemanticRules, SemanticRule } from "./semanticRule";
 
 export interface SemanticErrorDetail {
   inner?: any; // Compatible with old NodeError. Always undefined.
@@ -61,9 +62,11 @@ export interface SemanticValidationError extends BaseValidationError<SemanticErr
   readonly "json-path"?: string;
 }
 
-export interface SemanticValidationOption extends SwaggerLoaderOption, SchemaValidatorOption {}
+export interface SemanticValidationOption extends SwaggerLoaderOption, SchemaValidatorOption {
+  semanticRules?: SemanticRule[];
+}
 
-const loadSuppression = [];
+const loadSuppression: string[] = [];
 for (const errorCode of Object.keys(semanticValidationErrors)) {
   const meta = semanticValidationErrors[errorCode as SemanticValidationErrorCode];
   if ("id" in meta) {
@@ -82,7 +85,7 @@ export class SwaggerSemanticValidator {
   private validateSwaggerSch!: SchemaValidateFunction;
 
   public constructor(
-    @inject(TYPES.opts) _opts: SemanticValidationOption,
+    @inject(TYPES.opts) private opts: SemanticValidationOption,
     private jsonLoader: JsonLoader,
     private fileLoader: FileLoader,
     private suppressionLoader: SuppressionLoader,
@@ -122,10 +125,13 @@ export class SwaggerSemanticValidator {
 
       await this.suppressionLoader.load(swagger);
 
-      // validate x-ms-* extensions
-      await this.validateSwaggerSchema(swagger, errors);
-      if (errors.length > 0) {
-        return errors;
+      // validate x-ms-* extensions, which is skipped for the OpenAPI 3.x documents since the
+      // swagger 2.0 schema doesn't allow the keywords like oneOf
+      if (swagger._openApiVersion === undefined) {
+        await this.validateSwaggerSchema(swagger, errors);
+        if (errors.length > 0) {
+          return errors;
+        }
       }
 
       // compile swagger schema
@@ -294,6 +300,8 @@ export class SwaggerSemanticValidator {
       pureObjectTransformer,
     ]);
     applySpecTransformers(spec, transformCtx);
+    // Custom rules check the schemas as written, before they are transformed for validation.
+    runSemanticRules(this.opts.semanticRules ?? [], spec, this.jsonLoader, errors);
     applyGlobalTransformers(transformCtx);
 
     await traverseSwaggerAsync(spec, {
@@ -560,8 +568,12 @@ export class SemanticValidator extends SpecValidator<CommonValidationResult> {
   public constructor(public specPath: string, specInJson?: any, options?: any) {
     super(specPath, specInJson, options);
     const container = inversifyGetContainer();
+    const semanticRules: SemanticRule[] = options?.semanticRules ?? [];
     this.validator = inversifyGetInstance(SwaggerSemanticValidator, {
       ...defaultOpts,
+      // Errors of the custom rules are suppressed by their codes
+      loadSuppression: [...loadSuppression, ...semanticRules.map((rule) => rule.code)],
+      semanticRules,
       container,
     });
     if (specInJson) {
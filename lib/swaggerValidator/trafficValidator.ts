@@ -2,6 +2,7 @@ import * as fs from "fs";
 import * as path from "path";
 import { resolve as pathResolve } from "path";
 import { glob } from "glob";
+import * as _ from "lodash";
 import {
   LiveValidationIssue,
   LiveValidator,
@@ -16,8 +17,25 @@ import { Operation, Path, LowerHttpMethods } from "../swagger/swaggerTypes";
 import { LiveValidatorLoader } from "../liveValidation/liveValidatorLoader";
 import { inversifyGetContainer, inversifyGetInstance } from "../inversifyUtils";
 import { getApiVersionFromSwaggerPath } from "../util/utils";
+import { TestRecordingLoader } from "../apiScenario/gen/testRecordingLoader";
+import { SingleRequestTracking } from "../apiScenario/gen/testScenarioGenerator";
+import { ResourceCall, ResourceLifecycleAnalyzer } from "../apiScenario/resourceLifecycleAnalyzer";
+import { LroFlowValidator } from "./lroFlowValidator";
 
-export interface TrafficValidationOptions extends Options {
+export interface TrafficValidatorOption {
+  /**
+   * Validate the recorded calls against the spec of this api-version instead of the recorded one,
+   * e.g. to check the traffic of an old api-version against a new one.
+   */
+  targetApiVersion?: string;
+  /**
+   * Validate the calls of an api-version without spec against the nearest api-version, the
+   * operationInfo of such calls is marked by isApproximateMatch.
+   */
+  apiVersionFallback?: boolean;
+}
+
+export interface TrafficValidationOptions extends Options, TrafficValidatorOption {
   sdkPackage?: string;
   sdkLanguage?: string;
   reportPath?: string;
@@ -31,6 +49,12 @@ export interface TrafficValidationIssue {
   errors?: LiveValidationIssue[];
   operationInfo?: OperationContext;
   runtimeExceptions?: RuntimeException[];
+  // The api-version of the recorded call, if it is validated against the target api-version
+  recordedApiVersion?: string;
+  // The polling and final calls, if the issues are of the flow of a long running operation
+  lroFlowPayloadFilePaths?: string[];
+  // The earlier calls of the resource, if the issue is found across the calls of a resource
+  relatedPayloadFilePaths?: string[];
 }
 
 export interface RuntimeException {
@@ -60,16 +84,25 @@ export class TrafficValidator {
   private specPath: string;
   private trafficPath: string;
   private loader?: LiveValidatorLoader;
+  private resourceLifecycleAnalyzer?: ResourceLifecycleAnalyzer;
+  // The operations loaded by the loader, by swagger path and operationId
+  private specOperations: Map<string, Operation> = new Map<string, Operation>();
   private trafficOperation: Map<string, string[]> = new Map<string, string[]>();
   private validationFailOperations: Map<string, string[]> = new Map<string, string[]>();
   private coverageData: Map<string, number> = new Map<string, number>();
   public operationSpecMapper: Map<string, string[]> = new Map<string, string[]>();
   public operationCoverageResult: OperationCoverageInfo[] = [];
   public operationUndefinedResult: number = 0;
+  private recordingLoader: TestRecordingLoader;
 
-  public constructor(specPath: string, trafficPath: string) {
+  public constructor(
+    specPath: string,
+    trafficPath: string,
+    private option: TrafficValidatorOption = {}
+  ) {
     this.specPath = specPath;
     this.trafficPath = trafficPath;
+    this.recordingLoader = inversifyGetInstance(TestRecordingLoader, {});
   }
 
   public async initialize() {
@@ -86,7 +119,7 @@ export class TrafficValidator {
     if (trafficPathStats.isFile()) {
       this.trafficFiles.push(this.trafficPath);
     } else if (trafficPathStats.isDirectory()) {
-      const searchPattern = path.join(this.trafficPath, "**/*.json");
+      const searchPattern = path.join(this.trafficPath, "**/*.{json,har,yaml,yml}");
       const matchedPaths = glob.sync(searchPattern, {
         nodir: true,
       });
@@ -104,6 +137,7 @@ export class TrafficValidator {
       git: {
         shouldClone: false,
       },
+      apiVersionFallback: this.option.apiVersionFallback,
     };
 
     this.liveValidator = new LiveValidator(liveValidationOptions);
@@ -116,7 +150,10 @@ export class TrafficValidator {
       ...liveValidationOptions,
       loadSuppression: Object.keys(apiValidationErrors),
     });
+    this.resourceLifecycleAnalyzer = container.get(ResourceLifecycleAnalyzer);
 
+    const targetApiVersion = this.option.targetApiVersion?.toLowerCase();
+    let targetApiVersionFound = false;
     const swaggerPaths = this.liveValidator.swaggerList;
     while (swaggerPaths.length > 0) {
       const swaggerPath = swaggerPaths.shift()!;
@@ -129,6 +166,9 @@ export class TrafficValidator {
         );
       }
       if (spec !== undefined) {
+        if (spec.info.version.toLowerCase() === targetApiVersion) {
+          targetApiVersionFound = true;
+        }
         // Get Swagger - operation mapper.
         if (this.operationSpecMapper.get(swaggerPath) === undefined) {
           this.operationSpecMapper.set(swaggerPath, []);
@@ -140,24 +180,50 @@ export class TrafficValidator {
               !this.operationSpecMapper.get(swaggerPath)?.includes(operation.operationId)
             ) {
               this.operationSpecMapper.get(swaggerPath)!.push(operation.operationId);
+              this.specOperations.set(`${swaggerPath}#${operation.operationId}`, operation);
             }
           },
         });
       }
     }
+    if (targetApiVersion !== undefined && !targetApiVersionFound) {
+      throw new Error(
+        `Can not find the spec of the target api-version ${this.option.targetApiVersion} in ${this.specPath}.`
+      );
+    }
   }
 
   public async validate(): Promise<TrafficValidationIssue[]> {
     let payloadFilePath;
+    const lroFlowValidator = new LroFlowValidator(this.liveValidator);
+    const resourceCalls: ResourceCall[] = [];
+    const resourceCallOperations = new Map<string, OperationContext>();
     try {
-      for (const trafficFile of this.trafficFiles) {
-        payloadFilePath = trafficFile;
-        const payload: RequestResponsePair = require(trafficFile);
-        const validationResult = await this.liveValidator.validateLiveRequestResponse(payload);
-        const operationInfo = validationResult.requestValidationResult?.operationInfo;
+      for await (const trafficPayload of this.loadTrafficPayloads()) {
+        payloadFilePath = trafficPayload.payloadFilePath;
+        // The polling of a long running operation is validated with its flow
+        const isPollingCall = lroFlowValidator.addPollingCall(trafficPayload);
+        const { targetApiVersion } = this.option;
+        const recordedApiVersion =
+          targetApiVersion !== undefined
+            ? getApiVersionOfUrl(trafficPayload.payload.liveRequest.url)
+            : undefined;
+        const payload =
+          targetApiVersion !== undefined
+            ? overrideApiVersion(trafficPayload.payload, targetApiVersion)
+            : trafficPayload.payload;
         const liveRequest = payload.liveRequest;
         const correlationId = liveRequest.headers?.["x-ms-correlation-request-id"] || "";
         const opInfo = await this.liveValidator.getOperationInfo(liveRequest, correlationId);
+        // Unless the status monitor is defined in the spec, the polling is not an operation call.
+        if (isPollingCall && opInfo.error !== undefined) {
+          continue;
+        }
+        const validationResult = await this.liveValidator.validateLiveRequestResponse(payload);
+        const operationInfo = validationResult.requestValidationResult?.operationInfo;
+        if (!isPollingCall && opInfo.error === undefined) {
+          lroFlowValidator.addOperationCall({ payloadFilePath, payload }, opInfo.info);
+        }
         let swaggerFile;
         if (liveRequest.url.includes("provider")) {
           // This is for validation of resource-manager
@@ -166,6 +232,16 @@ export class TrafficValidator {
           // This is for validation of data-plane
           swaggerFile = this.findSwaggerByOperationId(opInfo.info);
         }
+        resourceCalls.push({
+          source: payloadFilePath,
+          url: liveRequest.url,
+          method: liveRequest.method,
+          statusCode: Number(payload.liveResponse.statusCode),
+          requestBody: liveRequest.body,
+          responseBody: payload.liveResponse.body,
+          operation: this.specOperations.get(`${swaggerFile}#${opInfo.info.operationId}`),
+        });
+        resourceCallOperations.set(payloadFilePath, opInfo.info);
         if (swaggerFile !== undefined) {
           if (this.trafficOperation.get(swaggerFile) === undefined) {
             this.trafficOperation.set(swaggerFile, []);
@@ -190,7 +266,10 @@ export class TrafficValidator {
             }
           }
         } else {
-          console.log(`Error: Undefined operation ${JSON.stringify(opInfo.info)}`);
+          // The matched operation refers to its path and spec, which could not be serialized.
+          console.log(
+            `Error: Undefined operation ${JSON.stringify(_.omit(opInfo.info, "operationMatch"))}`
+          );
           this.operationUndefinedResult = this.operationUndefinedResult + 1;
         }
 
@@ -213,9 +292,24 @@ export class TrafficValidator {
             errors: errorResult,
             runtimeExceptions,
             operationInfo: operationInfo,
+            recordedApiVersion,
           });
         }
       }
+      this.trafficValidationResult.push(...(await lroFlowValidator.validate()));
+      for (const issue of await this.resourceLifecycleAnalyzer!.analyze(resourceCalls)) {
+        const getCallPath = _.last(issue.sources)!;
+        this.trafficValidationResult.push({
+          payloadFilePath: getCallPath,
+          errors: [issue.error],
+          runtimeExceptions: [],
+          operationInfo: _.pick(resourceCallOperations.get(getCallPath)!, [
+            "apiVersion",
+            "operationId",
+          ]),
+          relatedPayloadFilePaths: issue.sources.slice(0, -1),
+        });
+      }
     } catch (err) {
       const msg = `Detail error message:${err?.message}. ErrorStack:${err?.Stack}`;
       this.trafficValidationResult.push({
@@ -288,6 +382,36 @@ export class TrafficValidator {
     return this.trafficValidationResult;
   }
 
+  /**
+   * Each oav payload file holds a single request/response pair while a test recording is expanded
+   * to one pair per recorded request. Files in none of the recording formats are skipped.
+   */
+  private async *loadTrafficPayloads(): AsyncIterable<{
+    payloadFilePath: string;
+    payload: RequestResponsePair;
+  }> {
+    for (const trafficFile of this.trafficFiles) {
+      if (trafficFile.endsWith(".json")) {
+        const payload = require(trafficFile);
+        if (payload.liveRequest !== undefined) {
+          yield { payloadFilePath: trafficFile, payload };
+          continue;
+        }
+      }
+      if (!(await this.recordingLoader.isRecording(trafficFile))) {
+        console.log(`Skip traffic file in unknown format: ${trafficFile}`);
+        continue;
+      }
+      const recording = await this.recordingLoader.load(trafficFile);
+      for (const [index, request] of recording.requests.entries()) {
+        yield {
+          payloadFilePath: getRecordingEntryPath(trafficFile, index),
+          payload: requestTrackingToRequestResponsePair(request),
+        };
+      }
+    }
+  }
+
   private findSwaggerByOperationInfo(operationInfo: OperationContext) {
     let result = undefined;
     if (operationInfo.validationRequest === undefined) {
@@ -296,7 +420,8 @@ export class TrafficValidator {
     for (const key of this.operationSpecMapper.keys()) {
       const value = this.operationSpecMapper.get(key);
       if (
-        key.includes(operationInfo.validationRequest?.providerNamespace) &&
+        // The provider namespace of the request is in lower case
+        key.toLowerCase().includes(operationInfo.validationRequest?.providerNamespace) &&
         (key.includes(operationInfo.apiVersion) ||
           key.toLowerCase().includes(operationInfo.apiVersion))
       ) {
@@ -325,3 +450,54 @@ export class TrafficValidator {
     return result;
   }
 }
+
+/**
+ * Location of a single request in a recording file, e.g. "recording.har#entries[2]".
+ */
+export const getRecordingEntryPath = (filePath: string, index: number) =>
+  `${filePath}#entries[${index}]`;
+
+const apiVersionQueryRegex = /([?&]api-version=)([^&#]*)/i;
+
+const getApiVersionOfUrl = (url: string) => {
+  const match = apiVersionQueryRegex.exec(url);
+  return match === null ? undefined : decodeURIComponent(match[2]);
+};
+
+/**
+ * Replaces the api-version in the url and query of the request, so that the operation is searched
+ * in the spec of the api-version by its path template and method.
+ */
+const overrideApiVersion = (
+  payload: RequestResponsePair,
+  apiVersion: string
+): RequestResponsePair => {
+  const { liveRequest } = payload;
+  const value = encodeURIComponent(apiVersion);
+  const url = apiVersionQueryRegex.test(liveRequest.url)
+    ? liveRequest.url.replace(apiVersionQueryRegex, `$1${value}`)
+    : `${liveRequest.url}${liveRequest.url.includes("?") ? "&" : "?"}api-version=${value}`;
+  let query = liveRequest.query;
+  if (query !== undefined) {
+    query = _.omitBy(query, (_value, key) => key.toLowerCase() === "api-version");
+    query["api-version"] = apiVersion;
+  }
+  return { ...payload, liveRequest: { ...liveRequest, url, query } };
+};
+
+const requestTrackingToRequestResponsePair = (
+  request: SingleRequestTracking
+): RequestResponsePair => ({
+  liveRequest: {
+    url: request.url,
+    method: request.method,
+    headers: request.headers,
+    query: request.query,
+    body: request.body,
+  },
+  liveResponse: {
+    statusCode: String(request.responseCode),
+    headers: request.responseHeaders,
+    body: request.responseBody,
+  },
+});
@@ -3,6 +3,7 @@ import { Key, pathToRegexp } from "path-to-regexp";
 import { lowerHttpMethods, Parameter, PathParameter, Schema } from "../swagger/swaggerTypes";
 import { xmsParameterizedHost } from "../util/constants";
 import { OperationMatch } from "../liveValidation/operationSearcher";
+import { SchemaValidator } from "../swaggerValidator/schemaValidator";
 import { resolveNestedDefinitionTransformer } from "./resolveNestedDefinitionTransformer";
 import { SpecTransformer, TransformerType } from "./transformer";
 import { traverseSwagger } from "./traverseSwagger";
@@ -96,6 +97,22 @@ const buildPathRegex = (
   return regexpWithKeys;
 };
 
+/**
+ * Compiles the validator of the query part in a path template of x-ms-paths.
+ */
+export const compileQueryValidator = (pathTemplate: string, schemaValidator: SchemaValidator) => {
+  const queryMatch = urlParse(pathTemplate, true).query;
+  const querySchema: Schema = { type: "object", properties: {}, required: [] };
+  for (const queryKey of Object.keys(queryMatch)) {
+    const queryVal = queryMatch[queryKey];
+    querySchema.required!.push(queryKey);
+    querySchema.properties![queryKey] = {
+      enum: typeof queryVal === "string" ? [queryVal] : queryVal,
+    };
+  }
+  return schemaValidator.compile(querySchema);
+};
+
 export const pathRegexTransformer: SpecTransformer = {
   type: TransformerType.Spec,
   after: [resolveNestedDefinitionTransformer],
@@ -114,16 +131,7 @@ export const pathRegexTransformer: SpecTransformer = {
         const queryIdx = pathTemplate.indexOf("?");
         if (queryIdx !== -1) {
           // path in x-ms-paths has query part we need to match
-          const queryMatch = urlParse(pathStr, true).query;
-          const querySchema: Schema = { type: "object", properties: {}, required: [] };
-          for (const queryKey of Object.keys(queryMatch)) {
-            const queryVal = queryMatch[queryKey];
-            querySchema.required!.push(queryKey);
-            querySchema.properties![queryKey] = {
-              enum: typeof queryVal === "string" ? [queryVal] : queryVal,
-            };
-          }
-          path._validateQuery = schemaValidator.compile(querySchema);
+          path._validateQuery = compileQueryValidator(pathTemplate, schemaValidator);
           pathStr = pathTemplate.substr(0, queryIdx);
         }
 
@@ -17,6 +17,8 @@ export const xmsLongRunningOperationOptions = "x-ms-long-running-operation-optio
 
 export const xmsLongRunningOperationOptionsField = "final-state-via";
 
+export const xmsPageable = "x-ms-pageable";
+
 export const xmsDiscriminatorValue = "x-ms-discriminator-value";
 
 export const xmsEnum = "x-ms-enum";
@@ -137,6 +139,14 @@ export const ErrorCodes = {
     name: "RECOMMENDED_BOOLEAN_TYPE",
     id: "OAV134",
   },
+  MissingNextLinkInExample: {
+    name: "MISSING_NEXT_LINK_IN_EXAMPLE",
+    id: "OAV135",
+  },
+  ResourceExistsAfterDelete: {
+    name: "RESOURCE_EXISTS_AFTER_DELETE",
+    id: "OAV136",
+  },
 };
 
 export const knownTitleToResourceProviders: StringMap<string> = {
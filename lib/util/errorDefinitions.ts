@@ -21,10 +21,14 @@ export type OavAllErrorCode =
   | ApiValidationErrorCode
   | ModelValidationErrorCode;
 
-let allErrors: {
-  [code: string]: { severity: Severity; message: TemplateFunc<string>; id?: string };
-};
-export const getOavErrorMeta = <T extends OavAllErrorCode>(code: T, param: Record<string, any>) => {
+export interface OavErrorDefinition {
+  severity: Severity;
+  message: TemplateFunc<string>;
+  id?: string;
+}
+
+let allErrors: { [code: string]: OavErrorDefinition };
+const getAllErrors = () => {
   if (allErrors === undefined) {
     allErrors = {
       ...schemaValidationErrors,
@@ -34,7 +38,14 @@ export const getOavErrorMeta = <T extends OavAllErrorCode>(code: T, param: Recor
       ...modelValidationErrors,
     };
   }
-  const errorInfo = allErrors[code];
+  return allErrors;
+};
+
+export const getOavErrorDefinition = (code: string): OavErrorDefinition | undefined =>
+  getAllErrors()[code];
+
+export const getOavErrorMeta = <T extends OavAllErrorCode>(code: T, param: Record<string, any>) => {
+  const errorInfo = getAllErrors()[code];
   if (errorInfo === undefined) {
     throw new Error(`Error code "${code}" is not defined!`);
   }
@@ -227,6 +238,44 @@ export const trafficValidationErrors = {
     severity: Severity.Critical,
     message: strTemplate`Long running operation should return ${"header"} in header but not provided`,
   },
+  PAGEABLE_ITEM_NOT_FOUND: {
+    severity: Severity.Critical,
+    message: strTemplate`The response of pageable operation should return the items in array property ${"itemName"} but not provided`,
+  },
+  PAGEABLE_NEXT_LINK_NOT_FOUND: {
+    severity: Severity.Warning,
+    message: strTemplate`The response of pageable operation should return the next link in property ${"nextLinkName"}, which is null on the last page, but not provided`,
+  },
+  LRO_FINAL_STATE_HEADER_NOT_FOUND: {
+    severity: Severity.Critical,
+    message: strTemplate`Long running operation with final-state-via ${"finalStateVia"} should return ${"header"} in header of the initial response but not provided`,
+  },
+  LRO_POLLING_STATUS_NOT_FOUND: {
+    severity: Severity.Critical,
+    message: strTemplate`The response of polling ${"url"} should return the status of long running operation but not provided`,
+  },
+  LRO_POLLING_ERROR_NOT_FOUND: {
+    severity: Severity.Warning,
+    message: strTemplate`The response of polling ${"url"} should return the error of long running operation in status ${"status"} but not provided`,
+  },
+  LRO_NOT_COMPLETED: {
+    severity: Severity.Warning,
+    message: strTemplate`The polling of long running operation does not reach a terminal status in the recorded calls`,
+  },
+  LRO_FINAL_RESULT_NOT_FOUND: {
+    severity: Severity.Warning,
+    message: strTemplate`The final result of long running operation via ${"finalStateVia"} is not found in the recorded calls`,
+  },
+  ROUNDTRIP_INCONSISTENT_PROPERTY: {
+    severity: Severity.Critical,
+    message: strTemplate`The property's value returned by GET is different from what was set by PUT. Path: ${"path"}. Request: ${"oldValue"}. Response: ${"value"}`,
+    id: "OAV133",
+  },
+  RESOURCE_EXISTS_AFTER_DELETE: {
+    severity: Severity.Critical,
+    message: strTemplate`The resource ${"resourceId"} is still returned by GET after it's deleted successfully`,
+    id: "OAV136",
+  },
   INVALID_REQUEST_PARAMETER: {
     severity: Severity.Critical,
     message: strTemplate`The type of request parameter ${"param"} is invalid`,
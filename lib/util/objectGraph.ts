@@ -0,0 +1,190 @@
+import { getInfo, objectInfoSymbol, setInfo } from "@azure-tools/openapi-tools-common";
+
+/**
+ * A value in the encoded graph, the objects are referenced by their index in the nodes.
+ */
+export type EncodedValue = string | number | boolean | null | { "#": number } | { u: 0 };
+
+interface EncodedProperties {
+  [key: string]: EncodedValue;
+}
+
+export type EncodedNode =
+  | { a: EncodedValue[]; i?: EncodedValue }
+  | { m: Array<[EncodedValue, EncodedValue]> }
+  | { t: EncodedValue[] }
+  | { r: [string, string]; o: EncodedProperties }
+  | {
+      o: EncodedProperties;
+      // Properties keyed by the symbols of Symbol.for
+      y?: EncodedProperties;
+      // Source position info of openapi-tools-common
+      i?: EncodedValue;
+    };
+
+const encodedUndefined: EncodedValue = { u: 0 };
+
+const isPlainObject = (value: object) => {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Encodes the graph of plain objects, arrays, maps, sets and regexps into JSON values, keeping
+ * the shared and circular references, the properties of Symbol.for keys and the source
+ * positions. Functions and class instances are dropped. The nodes are encoded lazily in
+ * breadth first order, so that a large graph could be written in chunks.
+ */
+export const encodeObjectGraph = (root: unknown) => {
+  const ids = new Map<object, number>();
+  const queue: object[] = [];
+
+  // Returns undefined for the values which could not be encoded
+  const encodeValue = (value: unknown): EncodedValue | undefined => {
+    if (value === undefined) {
+      return encodedUndefined;
+    }
+    if (value === null || ["string", "number", "boolean"].includes(typeof value)) {
+      return value as EncodedValue;
+    }
+    if (typeof value !== "object") {
+      return undefined;
+    }
+    let id = ids.get(value!);
+    if (id === undefined) {
+      if (
+        !Array.isArray(value) &&
+        !(value instanceof Map) &&
+        !(value instanceof Set) &&
+        !(value instanceof RegExp) &&
+        !isPlainObject(value!)
+      ) {
+        return undefined;
+      }
+      id = queue.length;
+      ids.set(value!, id);
+      queue.push(value!);
+    }
+    return { "#": id };
+  };
+
+  const encodeProperties = (value: any) => {
+    const result: EncodedProperties = {};
+    for (const key of Object.keys(value)) {
+      const encoded = encodeValue(value[key]);
+      if (encoded !== undefined) {
+        result[key] = encoded;
+      }
+    }
+    return result;
+  };
+
+  const encodeNode = (value: any): EncodedNode => {
+    if (Array.isArray(value)) {
+      const info = getInfo(value);
+      return {
+        a: Array.from(value, (it) => encodeValue(it) ?? encodedUndefined),
+        ...(info !== undefined ? { i: encodeValue(info) } : {}),
+      };
+    }
+    if (value instanceof Map) {
+      return {
+        m: Array.from(value, ([k, v]): [EncodedValue, EncodedValue] => [
+          encodeValue(k) ?? encodedUndefined,
+          encodeValue(v) ?? encodedUndefined,
+        ]),
+      };
+    }
+    if (value instanceof Set) {
+      return { t: Array.from(value, (it) => encodeValue(it) ?? encodedUndefined) };
+    }
+    if (value instanceof RegExp) {
+      return { r: [value.source, value.flags], o: encodeProperties(value) };
+    }
+    const node: EncodedNode = { o: encodeProperties(value) };
+    for (const symbol of Object.getOwnPropertySymbols(value)) {
+      if (symbol === objectInfoSymbol) {
+        node.i = encodeValue(getInfo(value));
+        continue;
+      }
+      const symbolKey = Symbol.keyFor(symbol);
+      const encoded = encodeValue(value[symbol]);
+      if (symbolKey !== undefined && encoded !== undefined) {
+        if (node.y === undefined) {
+          node.y = {};
+        }
+        node.y[symbolKey] = encoded;
+      }
+    }
+    return node;
+  };
+
+  const rootValue = encodeValue(root) ?? encodedUndefined;
+  function* encodeNodes() {
+    // The queue grows while the nodes are encoded
+    for (let idx = 0; idx < queue.length; ++idx) {
+      yield encodeNode(queue[idx]);
+    }
+  }
+  return { root: rootValue, nodes: encodeNodes() };
+};
+
+/**
+ * Restores the graph encoded by encodeObjectGraph.
+ */
+export const decodeObjectGraph = (root: EncodedValue, nodes: EncodedNode[]): unknown => {
+  const objects = nodes.map((node): any =>
+    "a" in node
+      ? new Array(node.a.length)
+      : "m" in node
+      ? new Map()
+      : "t" in node
+      ? new Set()
+      : "r" in node
+      ? new RegExp(node.r[0], node.r[1])
+      : {}
+  );
+
+  const decodeValue = (value: EncodedValue): any => {
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+    return "#" in value ? objects[value["#"]] : undefined;
+  };
+
+  const decodeProperties = (target: any, properties: EncodedProperties) => {
+    for (const key of Object.keys(properties)) {
+      target[key] = decodeValue(properties[key]);
+    }
+  };
+
+  nodes.forEach((node, idx) => {
+    const target = objects[idx];
+    if ("a" in node) {
+      node.a.forEach((it, itemIdx) => (target[itemIdx] = decodeValue(it)));
+      if (node.i !== undefined) {
+        setInfo(target, decodeValue(node.i));
+      }
+    } else if ("m" in node) {
+      for (const [k, v] of node.m) {
+        target.set(decodeValue(k), decodeValue(v));
+      }
+    } else if ("t" in node) {
+      for (const it of node.t) {
+        target.add(decodeValue(it));
+      }
+    } else {
+      decodeProperties(target, node.o);
+      if ("y" in node && node.y !== undefined) {
+        for (const symbolKey of Object.keys(node.y)) {
+          target[Symbol.for(symbolKey)] = decodeValue(node.y[symbolKey]);
+        }
+      }
+      if ("i" in node && node.i !== undefined) {
+        setInfo(target, decodeValue(node.i));
+      }
+    }
+  });
+
+  return decodeValue(root);
+};
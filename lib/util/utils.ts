@@ -19,7 +19,9 @@ import {
   StringMap,
 } from "@azure-tools/openapi-tools-common";
 import { DataType, ParameterObject, SchemaObject } from "yasway";
+import { Operation } from "../swagger/swaggerTypes";
 import { getSchemaObjectInfo, setSchemaInfo } from "../validators/specTransformer";
+import { xmsPageable } from "./constants";
 import { log } from "./logging";
 
 /*
@@ -536,6 +538,26 @@ export function getJsonContentType(consumesOrProduces: string[]): string | undef
     : undefined;
 }
 
+/**
+ * Gets the property names of the x-ms-pageable operation, with the default itemName "value".
+ * nextLinkName is null if the operation returns all the items in one page.
+ *
+ * @param {Operation} operation The operation.
+ * @returns The property names, or undefined if the operation is not pageable.
+ */
+export function getPageableNames(
+  operation: Operation
+): { nextLinkName: string | null; itemName: string } | undefined {
+  const pageable = operation[xmsPageable];
+  if (pageable === undefined || pageable === null) {
+    return undefined;
+  }
+  return {
+    nextLinkName: pageable.nextLinkName ?? null,
+    itemName: pageable.itemName ?? "value",
+  };
+}
+
 /**
  * Determines whether the given string is url encoded
  * @param {string} str - The input string to be verified.
@@ -8,6 +8,7 @@ import * as path from "path";
 import * as openapiToolsCommon from "@azure-tools/openapi-tools-common";
 import { Suppression } from "@azure/openapi-markdown";
 import jsYaml from "js-yaml";
+import * as _ from "lodash";
 import * as jsonUtils from "./util/jsonUtils";
 import * as specResolver from "./validators/specResolver";
 import * as umlGeneratorLib from "./umlGenerator";
@@ -21,22 +22,45 @@ import {
 
 import { ModelValidationError } from "./util/modelValidationError";
 import { NewModelValidator as ModelValidator, SwaggerExampleErrorDetail} from "./swaggerValidator/modelValidator";
-import { NodeError } from "./util/validationError";
 import { WireFormatGenerator } from "./wireFormatGenerator";
 import { XMsExampleExtractor } from "./xMsExampleExtractor";
-import ExampleGenerator from "./generator/exampleGenerator";
+import ExampleGenerator, { ExampleGeneratorOptions } from "./generator/exampleGenerator";
 import { getSuppressions } from "./validators/suppressions";
 import { log } from "./util/logging";
 import { getInputFiles } from "./generator/util";
 import { SemanticValidator } from "./swaggerValidator/semanticValidator";
+import { SemanticRule } from "./swaggerValidator/semanticRule";
 import { ErrorCodeConstants} from "./util/errorDefinitions";
 import { TrafficValidationIssue, TrafficValidationOptions, TrafficValidator} from "./swaggerValidator/trafficValidator";
 import { ReportGenerator } from "./report/generateReport";
+import {
+  defaultOutputFormat,
+  getOutputFormatter,
+  printValidationOutput,
+  vsoLogIssue,
+} from "./report/outputFormatter";
+import { ValidationOutput } from "./report/validationOutput";
+import {
+  compareWithBaseline,
+  getExampleBaselineEntry,
+  getSemanticBaselineEntry,
+  readValidationBaseline,
+  ValidationBaselineEntry,
+  writeValidationBaseline,
+} from "./report/validationBaseline";
 
 export interface Options extends specResolver.Options, umlGeneratorLib.Options {
   consoleLogLevel?: unknown;
   logFilepath?: unknown;
   pretty?: boolean;
+  // Name of a registered output formatter, e.g. sarif, see outputFormatter.ts
+  outputFormat?: string;
+  // Only the errors not in the baseline file are reported, see validationBaseline.ts
+  baselinePath?: string;
+  // Writes all the errors to the baseline file instead of reporting them
+  updateBaseline?: boolean;
+  // Custom checks of validate-spec, see semanticRule.ts
+  semanticRules?: SemanticRule[];
 }
 
 export const getDocumentsFromCompositeSwagger = async (
@@ -75,14 +99,6 @@ export const getDocumentsFromCompositeSwagger = async (
   }
 };
 
-const vsoLogIssueWrapper = (issueType: string, message: string) => {
-  if (issueType === "error" || issueType === "warning") {
-    return `##vso[task.logissue type=${issueType}]${message}`;
-  } else {
-    return `##vso[task.logissue type=${issueType}]${message}`;
-  }
-};
-
 const validate = async <T>(
   options: Options | undefined,
   func: (options: Options) => Promise<T>
@@ -92,48 +108,59 @@ const validate = async <T>(
   }
   log.consoleLogLevel = options.consoleLogLevel || log.consoleLogLevel;
   log.filepath = options.logFilepath || log.filepath;
-  if (options.pretty) {
+  if (options.pretty || getExplicitFormatter(options) !== undefined) {
     log.consoleLogLevel = "off";
   }
+  if (options.updateBaseline && !options.baselinePath) {
+    throw new Error("The baseline file path is required to update the baseline.");
+  }
   return func(options);
 };
 
-type ErrorType = "error" | "warning";
+// The formatter chosen by outputFormat, which prints the issues instead of logging them.
+const getExplicitFormatter = (options: Options) =>
+  options.outputFormat === undefined || options.outputFormat === defaultOutputFormat
+    ? undefined
+    : getOutputFormatter(options.outputFormat);
 
-const prettyPrint = <T extends NodeError<T>>(
-  errors: readonly T[] | undefined,
-  errorType: ErrorType
-) => {
-  if (errors !== undefined) {
-    for (const error of errors) {
-      const yaml = jsYaml.dump(error);
-      if (process.env["Agent.Id"]) {
-        // eslint-disable-next-line no-console
-        console.error(vsoLogIssueWrapper(errorType, yaml));
-      } else {
-        // eslint-disable-next-line no-console
-        console.error(yaml);
-      }
-    }
-  }
+const prettyPrint = (output: ValidationOutput) => {
+  printValidationOutput(getOutputFormatter(defaultOutputFormat), output);
 };
 
-const prettyPrintInfo = <T>(
-  errors: readonly T[] | undefined,
-  errorType: ErrorType
-) => {
-  if (errors !== undefined) {
-    for (const error of errors) {
-      const yaml = jsYaml.dump(error);
-      if (process.env["Agent.Id"]) {
-        // eslint-disable-next-line no-console
-        console.error(vsoLogIssueWrapper(errorType, yaml));
-      } else {
-        // eslint-disable-next-line no-console
-        console.error(yaml);
-      }
-    }
+/**
+ * Returns the errors not in the baseline, and reports the baseline entries which are fixed.
+ * With updateBaseline, all the errors are written to the baseline and none is returned.
+ */
+const applyBaseline = async <T>(
+  o: Options,
+  specPath: string,
+  errors: readonly T[],
+  getEntry: (error: T, baseDirectory: string) => ValidationBaselineEntry
+): Promise<T[]> => {
+  if (!o.baselinePath) {
+    return [...errors];
+  }
+  const baseDirectory = path.dirname(path.resolve(specPath));
+  if (o.updateBaseline) {
+    await writeValidationBaseline(
+      o.baselinePath,
+      errors.map((it) => getEntry(it, baseDirectory))
+    );
+    logMessage(`Wrote ${errors.length} errors to the baseline ${o.baselinePath}.`, "info");
+    return [];
   }
+  const baseline = await readValidationBaseline(o.baselinePath);
+  const { newErrors, fixedEntries } = compareWithBaseline(baseline, errors, (it) =>
+    getEntry(it, baseDirectory)
+  );
+  if (fixedEntries.length > 0) {
+    logMessage(
+      `${fixedEntries.length} errors in the baseline ${o.baselinePath} are fixed, ` +
+        `please update the baseline to remove them:\n${jsYaml.dump(fixedEntries)}`,
+      "warning"
+    );
+  }
+  return newErrors;
 };
 
 export const validateSpec = async (specPath: string, options: Options | undefined) =>
@@ -143,20 +170,33 @@ export const validateSpec = async (specPath: string, options: Options | undefine
       await validator.initialize();
       log.info(`Semantically validating  ${specPath}:\n`);
       const validationResults = await validator.validateSpec();
-      if (o.pretty) {
-        if (validationResults.errors.length > 0) {
+      const errors = await applyBaseline(
+        o,
+        specPath,
+        validationResults.errors,
+        getSemanticBaselineEntry
+      );
+      if (o.baselinePath) {
+        validator.specValidationResult.validateSpec = { isValid: errors.length === 0, errors };
+        validator.specValidationResult.validityStatus = errors.length === 0;
+      }
+      const formatter = getExplicitFormatter(o);
+      if (formatter !== undefined) {
+        printValidationOutput(formatter, { semanticErrors: errors });
+      } else if (o.pretty) {
+        if (errors.length > 0) {
           logMessage(`Semantically validating ${specPath}`, "error");
         } else {
           logMessage(`Semantically validating ${specPath} without error`, "info");
         }
-        if (validationResults.errors.length > 0) {
+        if (errors.length > 0) {
           logMessage(`Errors reported:`, "error");
-          prettyPrint(validationResults.errors, "error");
+          prettyPrint({ semanticErrors: errors });
         }
       } else {
-        if (validationResults.errors.length > 0) {
+        if (errors.length > 0) {
           logMessage(`Errors reported:`, "error");
-          for (const error of validationResults.errors) {
+          for (const error of errors) {
             // eslint-disable-next-line no-console
             log.error(error);
           }
@@ -170,7 +210,14 @@ export const validateSpec = async (specPath: string, options: Options | undefine
       if (typeof err === "object") {
         outputMsg = jsYaml.dump(err);
       }
-      if (o.pretty) {
+      const formatter = getExplicitFormatter(o);
+      if (formatter !== undefined) {
+        printValidationOutput(formatter, {
+          runtimeExceptions: [
+            { code: ErrorCodeConstants.INTERNAL_ERROR, message: `${err?.message ?? outputMsg}` },
+          ],
+        });
+      } else if (o.pretty) {
         logMessage(`Semantically validating ${specPath}`);
         logMessage(`${outputMsg}`, "error");
       } else {
@@ -210,12 +257,15 @@ export async function validateExamples(
       await validator.initialize();
       log.info(`Validating "examples" and "x-ms-examples" in  ${specPath}:\n`);
       await validator.validateOperations(operationIds);
-      const errors = validator.result;
-      if (o.pretty) {
+      const errors = await applyBaseline(o, specPath, validator.result, getExampleBaselineEntry);
+      const formatter = getExplicitFormatter(o);
+      if (formatter !== undefined) {
+        printValidationOutput(formatter, { exampleErrors: errors });
+      } else if (o.pretty) {
         if (errors.length > 0) {
           logMessage(`Validating "examples" and "x-ms-examples" in ${specPath}`, "error");
           logMessage("Error reported:");
-          prettyPrint(errors, "error");
+          prettyPrint({ exampleErrors: errors });
         } else {
           logMessage("Validation completes without errors.", "info");
         }
@@ -233,7 +283,14 @@ export async function validateExamples(
     } catch (e) {
       logMessage(`Validating x-ms-examples in ${specPath}`, "error");
       logMessage("Unexpected runtime exception:");
-      if (o.pretty) {
+      const formatter = getExplicitFormatter(o);
+      if (formatter !== undefined) {
+        printValidationOutput(formatter, {
+          runtimeExceptions: [
+            { code: ErrorCodeConstants.INTERNAL_ERROR, message: `${e?.message}` },
+          ],
+        });
+      } else if (o.pretty) {
         logMessage(`Detail error:${e?.message}.ErrorStack:${e?.stack}`, "error");
       } else {
         log.error(`Detail error:${e?.message}.ErrorStack:${e?.stack}`);
@@ -261,8 +318,49 @@ export async function validateExamplesInCompositeSpec(
       compositeSpecPath,
       openapiToolsCommon.defaultErrorReport
     );
-    const promiseFactories = docs.map((doc) => async () => validateExamples(doc, undefined, o));
-    return utils.executePromisesSequentially(promiseFactories);
+    // The errors of all the documents are compared with one baseline, and printed once by the
+    // formatter, e.g. one SARIF log
+    const formatter = getExplicitFormatter(o);
+    const aggregate = formatter !== undefined || !!o.baselinePath;
+    const docOptions: Options = aggregate
+      ? {
+          ...o,
+          consoleLogLevel: "off",
+          pretty: false,
+          outputFormat: undefined,
+          baselinePath: undefined,
+        }
+      : o;
+    const promiseFactories = docs.map(
+      (doc) => async () => validateExamples(doc, undefined, docOptions)
+    );
+    if (!aggregate) {
+      return utils.executePromisesSequentially(promiseFactories);
+    }
+    // The documents turn off the console logging, which is restored after them
+    const consoleLogLevel = log.consoleLogLevel;
+    let results: readonly SwaggerExampleErrorDetail[][];
+    try {
+      results = await utils.executePromisesSequentially(promiseFactories);
+    } finally {
+      // eslint-disable-next-line require-atomic-updates
+      log.consoleLogLevel = consoleLogLevel;
+    }
+    const newErrors = new Set(
+      await applyBaseline(o, compositeSpecPath, _.flatten(results), getExampleBaselineEntry)
+    );
+    const docErrors = results.map((errors) => errors.filter((it) => newErrors.has(it)));
+    const output: ValidationOutput = { exampleErrors: _.flatten(docErrors) };
+    if (formatter !== undefined) {
+      printValidationOutput(formatter, output);
+    } else if (o.pretty) {
+      prettyPrint(output);
+    } else {
+      for (const error of output.exampleErrors!) {
+        log.error(error);
+      }
+    }
+    return docErrors;
   });
 }
 
@@ -290,7 +388,10 @@ export async function validateTrafficAgainstSpec(
     o.logFilepath = log.filepath;
     const trafficValidationResult: TrafficValidationIssue[] = [];
     try {
-      validator = new TrafficValidator(specPath, trafficPath);
+      validator = new TrafficValidator(specPath, trafficPath, {
+        targetApiVersion: options.targetApiVersion,
+        apiVersionFallback: options.apiVersionFallback,
+      });
       await validator.initialize();
       const result = await validator.validate();
       trafficValidationResult.push(...result);
@@ -311,17 +412,22 @@ export async function validateTrafficAgainstSpec(
       const generator = new ReportGenerator(trafficValidationResult, validator!.operationCoverageResult, validator!.operationUndefinedResult, options);
       await generator.generateHtmlReport();
     }
-    else if (trafficValidationResult.length > 0) {
-      if (o.pretty) {
-        prettyPrintInfo(trafficValidationResult, "error");
-      } else {
-        for (const error of trafficValidationResult) {
-          const errorInfo = JSON.stringify(error);
-          log.error(errorInfo);
+    const formatter = getExplicitFormatter(o);
+    if (formatter !== undefined) {
+      printValidationOutput(formatter, { trafficIssues: trafficValidationResult });
+    } else if (!options.reportPath) {
+      if (trafficValidationResult.length > 0) {
+        if (o.pretty) {
+          prettyPrint({ trafficIssues: trafficValidationResult });
+        } else {
+          for (const error of trafficValidationResult) {
+            const errorInfo = JSON.stringify(error);
+            log.error(errorInfo);
+          }
         }
+      } else {
+        log.info("No errors were found.");
       }
-    } else {
-      log.info("No errors were found.");
     }
     return trafficValidationResult;
   });
@@ -541,7 +647,7 @@ export async function generateExamples(
   operationIds?: string,
   readme?: string,
   tag?: string,
-  options?: Options
+  options?: Options & ExampleGeneratorOptions
 ): Promise<any> {
   if (!options) {
     options = {};
@@ -568,7 +674,11 @@ export async function generateExamples(
   log.consoleLogLevel = options.consoleLogLevel || log.consoleLogLevel;
   log.filepath = options.logFilepath || log.filepath;
   for (const file of wholeInputFiles) {
-    const generator = new ExampleGenerator(file, payloadDir);
+    const generator = new ExampleGenerator(file, payloadDir, {
+      seed: options.seed,
+      mockDataProviders: options.mockDataProviders,
+      rules: options.rules,
+    });
     if (operationIds) {
       const operationIdArray = operationIds.trim().split(",");
       for (const operationId of operationIdArray) {
@@ -585,7 +695,7 @@ export async function generateExamples(
 const logMessage = (message: string, level?: string) => {
   const logLevel = level || "error";
   if (process.env["Agent.Id"]) {
-    console.error(vsoLogIssueWrapper(`${logLevel}`, `${message}\n`));
+    console.error(vsoLogIssue(`${logLevel}`, `${message}\n`));
   } else {
     console.error(`${message}\n`);
   }
@@ -10,11 +10,13 @@ import {
   entries,
   mapEntries,
   keys,
-  values,
 } from "@azure-tools/openapi-tools-common";
 import swaggerParser from "@apidevtools/swagger-parser";
 import { log } from "./util/logging";
 import { kvPairsToObject } from "./util/utils";
+import { inversifyGetInstance } from "./inversifyUtils";
+import { TestRecordingLoader } from "./apiScenario/gen/testRecordingLoader";
+import { RequestTracking } from "./apiScenario/gen/testScenarioGenerator";
 
 interface Options {
   output?: string;
@@ -107,9 +109,9 @@ export class XMsExampleExtractor {
     outputExamples: string,
     // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
     api: any,
-    recordingFileName: string
+    recordingFileName: string,
+    recording: RequestTracking
   ): void {
-    const recording = JSON.parse(fs.readFileSync(recordingFileName).toString());
     const paths = api.paths;
     let pathIndex = 0;
     let pathParams: MutableStringMap<number> = {};
@@ -138,18 +140,17 @@ export class XMsExampleExtractor {
 
       // for this API path (and method), try to find it in the recording file, and get
       // the data
-      const recordingEntries: StringMap<any> = recording.Entries;
       let entryIndex = 0;
       let queryParams: any = {};
-      for (const recordingEntry of values(recordingEntries)) {
+      for (const recordingEntry of recording.requests) {
         entryIndex++;
-        const parsedUrl = new URL(recordingEntry.RequestUri, "https://management.azure.com");
+        const parsedUrl = new URL(recordingEntry.url, "https://management.azure.com");
         let recordingPath = parsedUrl.href || "";
 
         queryParams = kvPairsToObject(parsedUrl.searchParams) || {};
         const hostUrl = parsedUrl ? parsedUrl.protocol! + "//" + parsedUrl.hostname! : undefined;
 
-        const headerParams = recordingEntry.RequestHeaders;
+        const headerParams = recordingEntry.headers;
 
         // if command-line included check for API version, validate api-version from URI in
         // recordings matches the api-version of the spec
@@ -175,13 +176,13 @@ export class XMsExampleExtractor {
             }
 
             // found a match in the recording
-            const requestMethodFromRecording = recordingEntry.RequestMethod;
+            const requestMethodFromRecording = recordingEntry.method;
             const infoFromOperation = paths[path][requestMethodFromRecording.toLowerCase()];
             if (typeof infoFromOperation !== "undefined") {
               // need to consider each method in operation
               const fileNameArray = recordingFileName.split("/");
               let fileName = fileNameArray[fileNameArray.length - 1];
-              fileName = fileName.split(".json")[0];
+              fileName = fileName.replace(/\.[^/.]+$/, "");
               fileName = fileName.replace(/\//g, "-");
               const exampleFileName = `${fileName}-${requestMethodFromRecording}-example-${pathIndex}${entryIndex}.json`;
               const ref = {
@@ -219,31 +220,14 @@ export class XMsExampleExtractor {
               for (const param of keys(infoFromOperation.parameters)) {
                 if (params[param].in === "body") {
                   const bodyParamName = params[param].name;
-                  const bodyParamValue = recordingEntry.RequestBody;
-                  const bodyParamExample: MutableStringMap<unknown> = {};
-                  bodyParamExample[bodyParamName] = bodyParamValue;
-
-                  exampleL.parameters[bodyParamName] =
-                    bodyParamValue !== "" ? JSON.parse(bodyParamValue) : "";
+                  exampleL.parameters[bodyParamName] = recordingEntry.body ?? "";
                 }
               }
 
-              const parseResponseBody = (body: any) => {
-                try {
-                  return JSON.parse(body);
-                } catch (err) {
-                  return body;
-                }
-              };
-
               for (const _v of keys(infoFromOperation.responses)) {
-                const statusCodeFromRecording = recordingEntry.StatusCode;
-                let responseBody = recordingEntry.ResponseBody;
-                if (typeof responseBody === "string" && responseBody !== "") {
-                  responseBody = parseResponseBody(responseBody);
-                }
+                const statusCodeFromRecording = recordingEntry.responseCode;
                 exampleL.responses[statusCodeFromRecording] = {
-                  body: responseBody,
+                  body: recordingEntry.responseBody ?? "",
                 };
               }
               log.info(
@@ -285,6 +269,7 @@ export class XMsExampleExtractor {
     this.getFileList(this.recordings, filesArray);
 
     const recordingFiles = filesArray;
+    const recordingLoader = inversifyGetInstance(TestRecordingLoader, {});
 
     try {
       const api = await swaggerParser.parse(this.specPath);
@@ -292,7 +277,8 @@ export class XMsExampleExtractor {
         log.debug(`Processing recording file: ${recordingFileName}`);
 
         try {
-          this.extractOne(relativeExamplesPath, outputExamples, api, recordingFileName);
+          const recording = await recordingLoader.load(recordingFileName);
+          this.extractOne(relativeExamplesPath, outputExamples, api, recordingFileName, recording);
           log.info(`Writing updated swagger with x-ms-examples at ${outputSwagger}`);
           fs.writeFileSync(outputSwagger, JSON.stringify(api, null, 2));
         } catch (err) {
@@ -0,0 +1,202 @@
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs-extra";
+import { ApiScenarioRestRunner } from "../../lib/apiScenario/apiScenarioRestRunner";
+import { inversifyGetInstance } from "../../lib/inversifyUtils";
+import { MockArmService } from "../../lib/mockServer/mockArmService";
+import { MockServer } from "../../lib/mockServer/mockServer";
+
+jest.setTimeout(99999);
+
+const specRoot = path.resolve("test/mockServer/specification");
+const widgetRoot = path.join(
+  specRoot,
+  "widget/resource-manager/Microsoft.Widget/stable/2021-01-01"
+);
+
+describe("ApiScenarioRestRunner", () => {
+  let server: MockServer;
+  let baseUrl: string;
+  let outputFolder: string;
+
+  beforeAll(async () => {
+    server = new MockServer(
+      MockArmService.create({
+        swaggerFilePaths: [
+          path.join(widgetRoot, "widget.json"),
+          path.join(
+            specRoot,
+            "resources/resource-manager/Microsoft.Resources/stable/2021-01-01/resources.json"
+          ),
+        ],
+        lroPollCount: 0,
+      }),
+      { port: 0, host: "localhost" }
+    );
+    baseUrl = `http://localhost:${(await server.start()).port}`;
+    outputFolder = fs.mkdtempSync(path.join(os.tmpdir(), "apiScenarioRestRunner-"));
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    fs.removeSync(outputFolder);
+  });
+
+  const createRunner = (
+    scenarioFileName: string,
+    markdownReportPath?: string,
+    junitReportPath?: string,
+    env: { [key: string]: string } = {}
+  ) =>
+    inversifyGetInstance(ApiScenarioRestRunner, {
+      name: `Microsoft.Widget/2021-01-01/${path.basename(scenarioFileName, ".yaml")}`,
+      scenarioDef: path.join(widgetRoot, "scenarios", scenarioFileName),
+      swaggerFilePaths: [path.join(widgetRoot, "widget.json")],
+      fileRoot: widgetRoot,
+      checkUnderFileRoot: false,
+      useJsonParser: false,
+      eraseXmsExamples: false,
+      eraseDescription: false,
+      env: { subscriptionId: "subid", location: "eastus", ...env },
+      outputFolder,
+      markdownReportPath,
+      junitReportPath,
+      baseUrl,
+      runId: "test-run",
+      credential: {
+        getToken: async () => ({ token: "fake", expiresOnTimestamp: Date.now() + 3600000 }),
+      },
+    });
+
+  it("should run api scenario in process and generate reports", async () => {
+    const markdownReportPath = path.join(outputFolder, "report.md");
+    const junitReportPath = path.join(outputFolder, "junit.xml");
+    const {
+      rawReports: [rawReport],
+      failedScenarioCount,
+    } = await createRunner("widget.yaml", markdownReportPath, junitReportPath).run();
+
+    expect(failedScenarioCount).toBe(0);
+
+    const steps = rawReport.executions
+      .filter((it) => it.annotation.type === "simple" || it.annotation.type === "LRO")
+      .map((it) => [it.annotation.step, it.annotation.type, it.response.statusCode]);
+    expect(steps).toEqual([
+      ["Create_widget", "LRO", 201],
+      ["Get_widget", "simple", 200],
+      ["List_widgets", "simple", 200],
+      ["Delete_widget", "LRO", 202],
+    ]);
+    expect(rawReport.executions.filter((it) => it.annotation.type === "generated-get").length).toBe(
+      2
+    );
+    expect(rawReport.executions.some((it) => it.annotation.type === "poller")).toBe(true);
+    expect(rawReport.executions[0].request.headers.authorization).toBe("<bearer token>");
+    expect(rawReport.variables.widgetColor).toBe("blue");
+    expect(rawReport.variables.subscriptionId).toBe("subid");
+
+    const report = JSON.parse(
+      fs.readFileSync(
+        path.join(outputFolder, "Microsoft.Widget/2021-01-01/widget/test-run/widget_0/report.json"),
+        "utf8"
+      )
+    );
+    expect(report.stepResult.map((it: any) => it.stepName)).toEqual([
+      "Create_widget",
+      "Get_widget",
+      "List_widgets",
+      "Delete_widget",
+    ]);
+    expect(report.stepResult.every((it: any) => it.runtimeError.length === 0)).toBe(true);
+    expect(report.stepResult.every((it: any) => it.assertionResult.length === 0)).toBe(true);
+    expect(fs.readFileSync(markdownReportPath, "utf8")).toContain("Create_widget");
+    expect(fs.readFileSync(junitReportPath, "utf8")).toContain("Create_widget");
+  });
+
+  it("should run steps in loops, retry and skip steps by conditions", async () => {
+    const {
+      rawReports: [rawReport],
+    } = await createRunner("widgetControl.yaml").run();
+
+    const steps = rawReport.executions
+      .filter((it) => it.annotation.type === "simple" || it.annotation.type === "LRO")
+      .map((it) => [
+        it.annotation.step,
+        it.annotation.itemName,
+        it.request.url.split("?")[0].split("/").pop(),
+        it.response.statusCode,
+      ]);
+    expect(steps).toEqual([
+      ["Create_widgets", "Create_widgets", "widgetA", 201],
+      ["Create_widgets", "Create_widgets", "widgetA", 200],
+      ["Create_widgets", "Create_widgets_1", "widgetB", 201],
+      ["Create_widgets", "Create_widgets_1", "widgetB", 200],
+      ["Get_widget", "Get_widget", "widgetB", 200],
+    ]);
+
+    const report = JSON.parse(
+      fs.readFileSync(
+        path.join(
+          outputFolder,
+          "Microsoft.Widget/2021-01-01/widgetControl/test-run/widgetControl_0/report.json"
+        ),
+        "utf8"
+      )
+    );
+    expect(report.stepResult.map((it: any) => [it.stepName, it.statusCode])).toEqual([
+      ["Create_widgets", 200],
+      ["Create_widgets", 200],
+      ["Get_widget", 200],
+    ]);
+  });
+
+  it("should count the failed scenarios instead of throwing", async () => {
+    const {
+      rawReports: [rawReport],
+      failedScenarioCount,
+    } = await createRunner("widgetMissing.yaml").run();
+
+    expect(failedScenarioCount).toBe(1);
+    expect(rawReport.executions.map((it) => it.response.statusCode)).toContain(404);
+  });
+
+  const runRawCallScenario = async (expectedColor: string) => {
+    const {
+      rawReports: [rawReport],
+    } = await createRunner("widgetRawCall.yaml", undefined, undefined, { expectedColor }).run();
+    expect(
+      rawReport.executions
+        .filter((it) => it.annotation.type === "raw-call")
+        .map((it) => [it.annotation.step, it.request.method, it.response.statusCode])
+    ).toEqual([["Get_widget_raw", "GET", 200]]);
+
+    const report = JSON.parse(
+      fs.readFileSync(
+        path.join(
+          outputFolder,
+          "Microsoft.Widget/2021-01-01/widgetRawCall/test-run/widgetRawCall_0/report.json"
+        ),
+        "utf8"
+      )
+    );
+    return report.stepResult.find((it: any) => it.stepName === "Get_widget_raw");
+  };
+
+  it("should pass the response assertions of raw call steps", async () => {
+    const stepResult = await runRawCallScenario("blue");
+
+    expect(stepResult.runtimeError).toEqual([]);
+    expect(stepResult.assertionResult).toEqual([]);
+  });
+
+  it("should report the failed response assertions of raw call steps", async () => {
+    const stepResult = await runRawCallScenario("red");
+
+    expect(stepResult.assertionResult.map((it: any) => [it.code, it.message])).toEqual([
+      [
+        "RESPONSE_ASSERTION_FAILED",
+        'The response assertion failed. Path: $.properties.color. Expected: equals "red". Actual: blue',
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs-extra";
+import { ApiScenarioLoader } from "../../lib/apiScenario/apiScenarioLoader";
+import { ApiScenarioYamlLoader } from "../../lib/apiScenario/apiScenarioYamlLoader";
+import { RawResponse, RawStepRawCall } from "../../lib/apiScenario/apiScenarioTypes";
+import { generateJUnitCaseReport } from "../../lib/apiScenario/markdownReport";
+import { PostmanTestScript } from "../../lib/apiScenario/postmanTestScript";
+import { StepResult } from "../../lib/apiScenario/reportGenerator";
+import {
+  evaluateResponseAssertion,
+  toAssertionPathArray,
+} from "../../lib/apiScenario/responseAssertion";
+import { FileLoader } from "../../lib/swagger/fileLoader";
+
+const response: RawResponse = {
+  statusCode: 200,
+  headers: { "Content-Type": "application/json; charset=utf-8" },
+  body: JSON.stringify({
+    name: "widget1",
+    properties: { color: "blue", size: 3, tags: [{ name: "a" }, { name: "b" }] },
+  }),
+};
+
+describe("responseAssertion", () => {
+  it("Should evaluate response assertions", () => {
+    expect(
+      evaluateResponseAssertion({ jsonPath: "$.properties.color", equals: "blue" }, response)
+        .failures
+    ).toEqual([]);
+    expect(
+      evaluateResponseAssertion({ jsonPath: "$.name", matches: "^widget\\d$" }, response).failures
+    ).toEqual([]);
+    expect(
+      evaluateResponseAssertion(
+        { jsonPath: "$.properties.size", greaterThan: 1, lessThanOrEqual: 3 },
+        response
+      ).failures
+    ).toEqual([]);
+    expect(
+      evaluateResponseAssertion({ jsonPath: "$.properties.missing", exists: false }, response)
+        .failures
+    ).toEqual([]);
+    expect(
+      evaluateResponseAssertion({ header: "content-type", matches: "json" }, response).failures
+    ).toEqual([]);
+
+    const wildcard = evaluateResponseAssertion(
+      { jsonPath: "$.properties.tags[*].name", equals: ["a", "b"] },
+      response
+    );
+    expect(wildcard.failures).toEqual([]);
+    expect(wildcard.actual).toEqual(["a", "b"]);
+  });
+
+  it("Should report failed comparisons with the actual value", () => {
+    const result = evaluateResponseAssertion(
+      { jsonPath: "$.properties.size", equals: 5, lessThan: 4, greaterThan: 4 },
+      response
+    );
+    expect(result.target).toBe("$.properties.size");
+    expect(result.actual).toBe(3);
+    expect(result.failures).toEqual(["equals 5", "greaterThan 4"]);
+
+    const missing = evaluateResponseAssertion(
+      { header: "x-ms-request-id", exists: true },
+      response
+    );
+    expect(missing.target).toBe("header x-ms-request-id");
+    expect(missing.actual).toBeUndefined();
+    expect(missing.failures).toEqual(["exists true"]);
+  });
+
+  it("Should generate postman test script of response assertions", () => {
+    const script = new PostmanTestScript().generateScript({
+      name: "response assertions",
+      types: ["StatusCodeAssertion", "ResponseAssertion"],
+      assertions: [{ jsonPath: "$.properties.color", equals: "blue" }],
+    });
+    expect(script).toContain("const assertResponse = ");
+    expect(script).toContain(
+      `assertResponse({"jsonPath":"$.properties.color","equals":"blue"}, ["properties","color"]);`
+    );
+  });
+
+  it("Should reject JSONPath expressions which the postman test script could not evaluate", async () => {
+    expect(toAssertionPathArray("$..tags[*].name")).toEqual(["..", "tags", "*", "name"]);
+    for (const jsonPath of ["$.tags[?(@.name)]", "$.tags[0:1]", "$.tags[0,1]"]) {
+      expect(() => toAssertionPathArray(jsonPath)).toThrow("Unsupported JSONPath token");
+    }
+
+    const scenarioFolder = fs.mkdtempSync(path.join(os.tmpdir(), "responseAssertion-"));
+    const scenarioFilePath = path.join(scenarioFolder, "scenario.yaml");
+    fs.writeFileSync(
+      scenarioFilePath,
+      `scope: ResourceGroup
+scenarios:
+  - scenario: filter
+    steps:
+      - step: Get_widget
+        method: GET
+        rawUrl: https://example.com/widgets/widget1
+        requestHeaders: {}
+        requestBody: ""
+        assertions:
+          - jsonPath: $.properties.tags[?(@.name == "a")]
+            exists: true
+`
+    );
+    const loader = ApiScenarioLoader.create({
+      fileRoot: scenarioFolder,
+      checkUnderFileRoot: false,
+      useJsonParser: false,
+    });
+    try {
+      await expect(loader.load(scenarioFilePath)).rejects.toThrow(
+        "Failed to load step Get_widget: Unsupported JSONPath token"
+      );
+    } finally {
+      fs.removeSync(scenarioFolder);
+    }
+  });
+
+  it("Should render failed assertions in junit case report", () => {
+    const sr = {
+      operationId: "Widgets_Get",
+      runtimeError: [],
+      responseDiffResult: [],
+      assertionResult: [
+        {
+          code: "RESPONSE_ASSERTION_FAILED",
+          jsonPath: "$.properties.size",
+          severity: "Error",
+          message:
+            "The response assertion failed. Path: $.properties.size. Expected: equals 5. Actual: 3",
+          detail: '{\n  "jsonPath": "$.properties.size",\n  "equals": 5\n}',
+          actual: 3,
+        },
+      ],
+      statusCode: 200,
+      stepName: "Get_widget",
+    } as StepResult;
+    const body = generateJUnitCaseReport(sr);
+    expect(body).toContain("Get_widget:  1 Validation Error(s)");
+    expect(body).toContain("RESPONSE_ASSERTION_FAILED");
+    expect(body).toContain("Expected: equals 5. Actual: 3");
+  });
+
+  const loadRawCallStep = async (expectedName: string) => {
+    const fileLoader = new FileLoader({});
+    fileLoader.preloadExtraFile(
+      "scenario.yaml",
+      `scope: ResourceGroup
+scenarios:
+  - scenario: rawCall
+    steps:
+      - step: Get_widget
+        method: GET
+        rawUrl: https://example.com/widgets/widget1
+        requestHeaders: {}
+        requestBody: ""
+        assertions:
+          - jsonPath: $.name
+            equals: ${expectedName}
+`
+    );
+    const scenarioDef = await new ApiScenarioYamlLoader(fileLoader).load("scenario.yaml");
+    return scenarioDef.scenarios[0].steps[0] as RawStepRawCall;
+  };
+
+  it("Should pass response assertions of raw call steps", async () => {
+    const step = await loadRawCallStep("widget1");
+    expect(step.assertions).toEqual([{ jsonPath: "$.name", equals: "widget1" }]);
+    expect(evaluateResponseAssertion(step.assertions![0], response).failures).toEqual([]);
+  });
+
+  it("Should fail response assertions of raw call steps", async () => {
+    const step = await loadRawCallStep("widget2");
+    const result = evaluateResponseAssertion(step.assertions![0], response);
+    expect(result.actual).toBe("widget1");
+    expect(result.failures).toEqual(['equals "widget2"']);
+  });
+});
@@ -0,0 +1,75 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as path from "path";
+import { LiveValidator } from "../lib/liveValidation/liveValidator";
+
+const createValidator = async (apiVersionFallback?: boolean) => {
+  const validator = new LiveValidator({
+    directory: path.resolve(__dirname, "apiVersionFallback/specification"),
+    swaggerPathsPattern: ["**/*.json"],
+    git: { shouldClone: false },
+    loadValidatorInBackground: false,
+    apiVersionFallback,
+  });
+  await validator.initialize();
+  return validator;
+};
+
+const getPayload = (apiVersion: string, name: string = "widget1") => ({
+  liveRequest: {
+    url: `https://management.azure.com/subscriptions/00000000-0000-0000-0000-000000000000/providers/Microsoft.Fallback/widgets/${name}?api-version=${apiVersion}`,
+    method: "GET",
+    headers: {},
+  },
+  liveResponse: {
+    statusCode: "200",
+    headers: { "Content-Type": "application/json" },
+    body: { name, size: 3 },
+  },
+});
+
+describe("LiveValidator with apiVersionFallback", () => {
+  it("should not match the operation of another api-version by default", async () => {
+    const validator = await createValidator();
+    const result = await validator.validateLiveRequestResponse(getPayload("2021-09-01"));
+    expect(result.requestValidationResult.runtimeException?.code).toBe(
+      "OPERATION_NOT_FOUND_IN_CACHE_WITH_API"
+    );
+  });
+
+  it("should match the closest older stable api-version", async () => {
+    const validator = await createValidator(true);
+    const result = await validator.validateLiveRequestResponse(getPayload("2021-09-01"));
+    expect(result.requestValidationResult.isSuccessful).toBe(true);
+    expect(result.responseValidationResult.isSuccessful).toBe(true);
+    expect(result.requestValidationResult.operationInfo).toEqual({
+      apiVersion: "2021-01-01",
+      operationId: "Widgets_Get",
+      isApproximateMatch: true,
+      requestedApiVersion: "2021-09-01",
+    });
+  });
+
+  it("should prefer the older stable api-versions to the preview and newer ones", async () => {
+    const validator = await createValidator(true);
+    const result = await validator.validateLiveRequestResponse(getPayload("2021-08-01-preview"));
+    expect(result.requestValidationResult.operationInfo.apiVersion).toBe("2021-01-01");
+
+    // There is no older stable api-version than 2021-01-01
+    const older = await validator.validateLiveRequestResponse(getPayload("2020-01-01"));
+    expect(older.requestValidationResult.operationInfo.apiVersion).toBe("2021-01-01");
+
+    const newest = await validator.validateLiveRequestResponse(getPayload("2023-01-01"));
+    expect(newest.requestValidationResult.operationInfo.apiVersion).toBe("2022-01-01");
+  });
+
+  it("should not mark the exact match as approximate", async () => {
+    const validator = await createValidator(true);
+    const result = await validator.validateLiveRequestResponse(getPayload("2021-06-01-preview"));
+    expect(result.requestValidationResult.operationInfo).toEqual({
+      apiVersion: "2021-06-01-preview",
+      operationId: "Widgets_Get",
+    });
+  });
+});
@@ -1,7 +1,9 @@
 import assert from "assert";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 import ExampleGenerator from "../lib/generator/exampleGenerator";
+import { registerExampleRule } from "../lib/generator/exampleRule";
 import { ModelValidationError } from "../lib/util/modelValidationError";
 import { generateExamples } from "../lib/validate";
 import { log } from "../lib/util/logging";
@@ -133,3 +135,165 @@ export function getSpecFilePaths(repoDir: string) {
   });
   return specPath;
 }
+
+describe("example rules", () => {
+  const widgetSpec = {
+    swagger: "2.0",
+    info: { title: "WidgetClient", version: "2021-01-01" },
+    host: "management.azure.com",
+    schemes: ["https"],
+    consumes: ["application/json"],
+    produces: ["application/json"],
+    paths: {
+      "/subscriptions/{subscriptionId}/providers/Microsoft.Widget/widgets/{widgetName}": {
+        put: {
+          operationId: "Widgets_CreateOrUpdate",
+          parameters: [
+            { name: "subscriptionId", in: "path", required: true, type: "string" },
+            { name: "widgetName", in: "path", required: true, type: "string" },
+            { name: "api-version", in: "query", required: true, type: "string" },
+            {
+              name: "widget",
+              in: "body",
+              required: true,
+              schema: { $ref: "#/definitions/Widget" },
+            },
+          ],
+          responses: {
+            "200": { description: "OK", schema: { $ref: "#/definitions/Widget" } },
+          },
+        },
+      },
+    },
+    definitions: {
+      Widget: {
+        type: "object",
+        properties: {
+          color: { type: "string", enum: ["red", "green", "blue"] },
+          size: { type: "integer", minimum: 1, maximum: 10 },
+          label: { type: "string", minLength: 2, maxLength: 8 },
+          shape: { $ref: "#/definitions/Shape" },
+        },
+      },
+      Shape: {
+        type: "object",
+        discriminator: "kind",
+        required: ["kind"],
+        properties: { kind: { type: "string" } },
+      },
+      Circle: {
+        "x-ms-discriminator-value": "Circle",
+        allOf: [{ $ref: "#/definitions/Shape" }],
+        properties: { radius: { type: "integer" } },
+      },
+      Square: {
+        "x-ms-discriminator-value": "Square",
+        allOf: [{ $ref: "#/definitions/Shape" }],
+        properties: { side: { type: "integer" } },
+      },
+    },
+  };
+
+  let specFilePath: string;
+  beforeEach(() => {
+    const specDir = fs.mkdtempSync(path.join(os.tmpdir(), "oav-example-rules-"));
+    specFilePath = path.join(specDir, "widget.json");
+    fs.writeFileSync(specFilePath, JSON.stringify(widgetSpec, null, 2));
+  });
+
+  const readExample = (name: string) =>
+    JSON.parse(
+      fs.readFileSync(
+        path.join(
+          path.dirname(specFilePath),
+          "examples",
+          `Widgets_CreateOrUpdate_${name}_Gen.json`
+        ),
+        "utf8"
+      )
+    );
+
+  it("should generate one example per enum value", async () => {
+    const errors = await new ExampleGenerator(specFilePath, undefined, {
+      seed: 1,
+      rules: ["EachEnumValue"],
+    }).generateAll();
+    assert.strictEqual(errors.length, 0);
+    const colors = ["EachEnumValue", "EachEnumValue1", "EachEnumValue2"].map(
+      (name) => readExample(name).parameters.widget.color
+    );
+    expect(colors).toEqual(["red", "green", "blue"]);
+    const spec = JSON.parse(fs.readFileSync(specFilePath, "utf8"));
+    expect(Object.keys(spec.paths[Object.keys(spec.paths)[0]].put["x-ms-examples"]).sort()).toEqual(
+      [
+        "Widgets_CreateOrUpdate_EachEnumValue1_Gen",
+        "Widgets_CreateOrUpdate_EachEnumValue2_Gen",
+        "Widgets_CreateOrUpdate_EachEnumValue_Gen",
+      ]
+    );
+  });
+
+  it("should generate one example per discriminator subtype", async () => {
+    const errors = await new ExampleGenerator(specFilePath, undefined, {
+      seed: 1,
+      rules: ["EachDiscriminatorSubtype"],
+    }).generateAll();
+    assert.strictEqual(errors.length, 0);
+    const shapes = ["EachDiscriminatorSubtype", "EachDiscriminatorSubtype1"].map(
+      (name) => readExample(name).parameters.widget.shape
+    );
+    expect(shapes.map((shape) => shape.kind).sort()).toEqual(["Circle", "Square"]);
+  });
+
+  it("should generate lower and upper boundary values", async () => {
+    const errors = await new ExampleGenerator(specFilePath, undefined, {
+      seed: 1,
+      rules: ["BoundaryValues"],
+    }).generateAll();
+    assert.strictEqual(errors.length, 0);
+    expect(readExample("BoundaryValues").parameters.widget).toMatchObject({
+      size: 1,
+      label: "aa",
+    });
+    expect(readExample("BoundaryValues1").parameters.widget).toMatchObject({
+      size: 10,
+      label: "aaaaaaaa",
+    });
+  });
+
+  it("should generate upper boundary values of one-sided bounds", async () => {
+    const spec = JSON.parse(JSON.stringify(widgetSpec));
+    spec.definitions.Widget.properties.size = { type: "integer", maximum: 10 };
+    spec.definitions.Widget.properties.label = { type: "string", maxLength: 8 };
+    fs.writeFileSync(specFilePath, JSON.stringify(spec, null, 2));
+    const errors = await new ExampleGenerator(specFilePath, undefined, {
+      seed: 1,
+      rules: ["BoundaryValues"],
+    }).generateAll();
+    assert.strictEqual(errors.length, 0);
+    expect(readExample("BoundaryValues1").parameters.widget).toMatchObject({
+      size: 10,
+      label: "aaaaaaaa",
+    });
+  });
+
+  it("should generate examples of registered rules", async () => {
+    registerExampleRule("WithoutLabel", {
+      onSchema: (context) => context.propertyName !== "label",
+    });
+    const errors = await new ExampleGenerator(specFilePath, undefined, {
+      seed: 1,
+      rules: ["WithoutLabel"],
+    }).generateAll();
+    assert.strictEqual(errors.length, 0);
+    const widget = readExample("WithoutLabel").parameters.widget;
+    expect(widget.label).toBeUndefined();
+    expect(widget.color).toEqual("red");
+  });
+
+  it("should reject unknown rules", () => {
+    expect(() => new ExampleGenerator(specFilePath, undefined, { rules: ["Unknown"] })).toThrow(
+      "Unknown example rule: Unknown"
+    );
+  });
+});
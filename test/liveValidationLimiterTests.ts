@@ -0,0 +1,60 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { LiveValidationLimiter } from "../lib/liveValidation/liveValidationLimiter";
+import { LiveValidationIssue } from "../lib/liveValidation/liveValidator";
+
+const issue = (code: string, schemaPath: string) =>
+  ({ code, schemaPath, pathsInPayload: [], message: code } as unknown as LiveValidationIssue);
+
+describe("Live validation limiter", () => {
+  it("should sample by operationId, falling back to *", () => {
+    let random = 0.5;
+    const limiter = new LiveValidationLimiter(
+      { samplingRates: { Op_Get: 0.6, "*": 0.1 } },
+      () => random
+    );
+    expect(limiter.getSkipReason("microsoft.test", "Op_Get")).toBeUndefined();
+    expect(limiter.getSkipReason("microsoft.test", "Op_Put")).toBe("sampling");
+    random = 0.05;
+    expect(limiter.getSkipReason("microsoft.test", "Op_Put")).toBeUndefined();
+  });
+
+  it("should skip the validations of a provider over its budget until it refills", () => {
+    const limiter = new LiveValidationLimiter({ providerBudgetInMsPerSecond: 100 });
+    expect(limiter.getSkipReason("microsoft.noisy", "Op_Get", 0)).toBeUndefined();
+    limiter.consumeBudget("microsoft.noisy", 150, 0);
+    expect(limiter.getSkipReason("microsoft.noisy", "Op_Get", 100)).toBe("providerBudget");
+    // Other providers have their own budget
+    expect(limiter.getSkipReason("microsoft.quiet", "Op_Get", 100)).toBeUndefined();
+    expect(limiter.getSkipReason("microsoft.noisy", "Op_Get", 600)).toBeUndefined();
+  });
+
+  it("should collapse identical issues and count the ones suppressed in the window", () => {
+    const limiter = new LiveValidationLimiter({ issueDedupeWindowInMs: 1000 });
+    const issues = [
+      issue("INVALID_TYPE", "/a"),
+      issue("INVALID_TYPE", "/a"),
+      issue("INVALID_TYPE", "/b"),
+    ];
+    expect(
+      limiter.dedupeIssues("Op_Get", issues, 0).map((it) => [it.schemaPath, it.count])
+    ).toEqual([
+      ["/a", 2],
+      ["/b", 1],
+    ]);
+    // The same issues of another operation are not identical
+    expect(limiter.dedupeIssues("Op_Put", issues, 10)).toHaveLength(2);
+    expect(limiter.dedupeIssues("Op_Get", issues, 500)).toEqual([]);
+    expect(limiter.dedupeIssues("Op_Get", [issue("INVALID_TYPE", "/a")], 1000)).toMatchObject([
+      { schemaPath: "/a", count: 3 },
+    ]);
+    // The input is not modified
+    expect(issues[0].count).toBeUndefined();
+  });
+
+  it("should return the issues as is without dedupe window", () => {
+    const issues = [issue("INVALID_TYPE", "/a"), issue("INVALID_TYPE", "/a")];
+    expect(new LiveValidationLimiter({}).dedupeIssues("Op_Get", issues)).toBe(issues);
+  });
+});
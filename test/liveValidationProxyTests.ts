@@ -0,0 +1,122 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { LiveValidator } from "../lib/liveValidation/liveValidator";
+import {
+  LiveValidationProxy,
+  validationIssueCountHeader,
+  validationOperationIdHeader,
+  validationResultHeader,
+} from "../lib/liveValidation/liveValidationProxy";
+
+jest.setTimeout(99999);
+
+const storageAccountUrl =
+  "/subscriptions/rs/resourceGroups/rsg/providers/Microsoft.Storage/storageAccounts/test?api-version=2015-05-01-preview";
+
+const get = async (
+  port: number,
+  urlPath: string
+): Promise<{ statusCode: number; headers: http.IncomingHttpHeaders; body: any }> =>
+  new Promise((resolve, reject) => {
+    const req = http.request({ host: "localhost", port, method: "GET", path: urlPath }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("end", () =>
+        resolve({
+          statusCode: res.statusCode!,
+          headers: res.headers,
+          body: JSON.parse(Buffer.concat(chunks).toString("utf8")),
+        })
+      );
+    });
+    req.on("error", reject);
+    req.end();
+  });
+
+describe("Live validation proxy", () => {
+  let upstream: http.Server;
+  let proxy: LiveValidationProxy;
+  let port: number;
+  let issueFilePath: string;
+  let provisioningState: unknown;
+
+  beforeAll(async () => {
+    upstream = http.createServer((_req, res) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          location: "testLocation",
+          properties: { accountType: "Standard_LRS", provisioningState },
+          type: "Microsoft.Storage/storageAccounts",
+        })
+      );
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, "localhost", resolve));
+    const upstreamPort = (upstream.address() as AddressInfo).port;
+
+    issueFilePath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "oav-proxy-")),
+      "validation-issues.jsonl"
+    );
+    const validator = new LiveValidator({
+      directory:
+        "./test/liveValidation/swaggers/specification/storage/resource-manager/Microsoft.Storage/2015-05-01-preview",
+      swaggerPathsPattern: ["*.json"],
+      loadValidatorInBackground: false,
+    });
+    proxy = new LiveValidationProxy(validator, {
+      port: 0,
+      host: "localhost",
+      upstream: `http://localhost:${upstreamPort}`,
+      issueFilePath,
+      addValidationHeaders: true,
+    });
+    port = (await proxy.start()).port;
+  });
+
+  afterAll(async () => {
+    await proxy.stop();
+    await new Promise((resolve) => upstream.close(resolve));
+  });
+
+  it("should forward valid traffic without recording issues", async () => {
+    provisioningState = "Succeeded";
+    const result = await get(port, storageAccountUrl);
+    assert.strictEqual(result.statusCode, 200);
+    assert.strictEqual(result.body.properties.provisioningState, "Succeeded");
+    assert.strictEqual(result.headers[validationResultHeader], "passed");
+    assert.strictEqual(
+      result.headers[validationOperationIdHeader],
+      "StorageAccounts_GetProperties"
+    );
+    assert.strictEqual(fs.existsSync(issueFilePath), false);
+  });
+
+  it("should record issues of invalid traffic", async () => {
+    provisioningState = 123;
+    const result = await get(port, storageAccountUrl);
+    assert.strictEqual(result.statusCode, 200);
+    assert.strictEqual(result.body.properties.provisioningState, 123);
+    assert.strictEqual(result.headers[validationResultHeader], "failed");
+    assert.strictEqual(result.headers[validationIssueCountHeader], "2");
+
+    const records = fs
+      .readFileSync(issueFilePath, "utf8")
+      .split("\n")
+      .filter((line) => line.length > 0)
+      .map((line) => JSON.parse(line));
+    assert.strictEqual(records.length, 1);
+    assert.strictEqual(records[0].operationId, "StorageAccounts_GetProperties");
+    assert.deepStrictEqual(
+      records[0].responseErrors.map((error: any) => error.code),
+      ["INVALID_TYPE", "ENUM_MISMATCH"]
+    );
+  });
+});
@@ -0,0 +1,181 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as assert from "assert";
+import * as http from "http";
+import { LiveValidator } from "../lib/liveValidation/liveValidator";
+import { LiveValidationServer } from "../lib/liveValidation/liveValidationServer";
+import { IssueCount, ValidationCount } from "../lib/liveValidation/liveValidationStatistics";
+
+jest.setTimeout(99999);
+
+const request = async (
+  port: number,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<{ statusCode: number; body: any }> =>
+  new Promise((resolve, reject) => {
+    const req = http.request({ host: "localhost", port, method, path }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("end", () => {
+        const text = Buffer.concat(chunks).toString("utf8");
+        resolve({
+          statusCode: res.statusCode!,
+          body: res.headers["content-type"]?.startsWith("text/plain") ? text : JSON.parse(text),
+        });
+      });
+    });
+    req.on("error", reject);
+    if (body !== undefined) {
+      req.write(JSON.stringify(body));
+    }
+    req.end();
+  });
+
+const liveRequest = {
+  url: "/subscriptions/rs/resourceGroups/rsg/providers/Microsoft.Storage/storageAccounts/test?api-version=2015-05-01-preview",
+  method: "get",
+  headers: {
+    "content-type": "application/json",
+  },
+  query: {
+    "api-version": "2015-05-01-preview",
+  },
+};
+
+const liveResponse = {
+  statusCode: "200",
+  headers: {
+    "content-type": "application/json",
+  },
+  body: {
+    location: "testLocation",
+    properties: {
+      accountType: "Standard_LRS",
+      provisioningState: 123,
+    },
+    type: "Microsoft.Storage/storageAccounts",
+  },
+};
+
+describe("Live validation server", () => {
+  let server: LiveValidationServer;
+  let port: number;
+
+  beforeAll(async () => {
+    const validator = new LiveValidator({
+      directory:
+        "./test/liveValidation/swaggers/specification/storage/resource-manager/Microsoft.Storage/2015-05-01-preview",
+      swaggerPathsPattern: ["*.json"],
+      loadValidatorInBackground: false,
+    });
+    server = new LiveValidationServer(validator, { port: 0, host: "localhost" });
+    port = (await server.start()).port;
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it("should report readiness", async () => {
+    const result = await request(port, "GET", "/ready");
+    assert.strictEqual(result.statusCode, 200);
+    assert.strictEqual(result.body.ready, true);
+  });
+
+  it("should validate request and response pair", async () => {
+    const result = await request(port, "POST", "/validate", { liveRequest, liveResponse });
+    assert.strictEqual(result.statusCode, 200);
+    assert.strictEqual(result.body.requestValidationResult.isSuccessful, true);
+    assert.strictEqual(result.body.responseValidationResult.isSuccessful, false);
+    assert.strictEqual(result.body.responseValidationResult.errors[0].code, "INVALID_TYPE");
+    assert.strictEqual(
+      result.body.responseValidationResult.operationInfo.operationId,
+      "StorageAccounts_GetProperties"
+    );
+  });
+
+  it("should validate request only", async () => {
+    const result = await request(port, "POST", "/validate/request", liveRequest);
+    assert.strictEqual(result.statusCode, 200);
+    assert.strictEqual(result.body.isSuccessful, true);
+  });
+
+  it("should validate response only", async () => {
+    const result = await request(port, "POST", "/validate/response", {
+      liveResponse,
+      specOperation: { url: liveRequest.url, method: liveRequest.method },
+    });
+    assert.strictEqual(result.statusCode, 200);
+    assert.strictEqual(result.body.isSuccessful, false);
+  });
+
+  it("should filter errors by includeErrors", async () => {
+    const result = await request(port, "POST", "/validate?includeErrors=INVALID_FORMAT", {
+      liveRequest,
+      liveResponse,
+    });
+    assert.strictEqual(result.statusCode, 200);
+    assert.deepStrictEqual(result.body.responseValidationResult.errors, []);
+  });
+
+  it("should reject invalid input", async () => {
+    const notFound = await request(port, "POST", "/unknown", {});
+    assert.strictEqual(notFound.statusCode, 404);
+    const wrongMethod = await request(port, "GET", "/validate");
+    assert.strictEqual(wrongMethod.statusCode, 405);
+    const missingSpecOperation = await request(port, "POST", "/validate/response", {
+      liveResponse,
+    });
+    assert.strictEqual(missingSpecOperation.statusCode, 400);
+    const unknownCode = await request(port, "POST", "/validate?includeErrors=INVALID_FORMAT,FOO", {
+      liveRequest,
+      liveResponse,
+    });
+    assert.strictEqual(unknownCode.statusCode, 400);
+    assert.strictEqual(unknownCode.body.code, "INVALID_INCLUDE_ERRORS");
+    assert.strictEqual(unknownCode.body.message, "Unknown error codes in includeErrors: FOO");
+  });
+
+  it("should expose statistics of the validations above", async () => {
+    await request(port, "POST", "/validate/request", {
+      ...liveRequest,
+      url: "/subscriptions/rs/providers/Microsoft.Unknown2/things?api-version=2020-01-01",
+    });
+
+    const statistics = await request(port, "GET", "/statistics");
+    assert.strictEqual(statistics.statusCode, 200);
+    const counts = (statistics.body.validations as ValidationCount[]).map(
+      (it) => `${it.operationId} ${it.kind} ${it.outcome} ${it.count}`
+    );
+    expect(counts.sort()).toEqual([
+      "StorageAccounts_GetProperties request success 3",
+      "StorageAccounts_GetProperties response failure 2",
+      "StorageAccounts_GetProperties response success 1",
+      "unknownOperationId request exception 1",
+    ]);
+    const issues = (statistics.body.issues as IssueCount[]).map(
+      (it) => `${it.providerNamespace} ${it.apiVersion} ${it.kind} ${it.code} ${it.count}`
+    );
+    expect(issues.sort()).toEqual([
+      "microsoft.storage 2015-05-01-preview response ENUM_MISMATCH 2",
+      "microsoft.storage 2015-05-01-preview response INVALID_TYPE 2",
+    ]);
+    expect(statistics.body.unmatchedOperations).toEqual([
+      {
+        providerNamespace: "microsoft.unknown2",
+        apiVersion: "2020-01-01",
+        code: "OPERATION_NOT_FOUND_IN_CACHE_WITH_PROVIDER",
+        count: 1,
+      },
+    ]);
+
+    const metrics = await request(port, "GET", "/metrics");
+    assert.strictEqual(metrics.statusCode, 200);
+    expect(metrics.body).toContain(
+      'oav_live_validation_issues_total{provider="microsoft.storage",api_version="2015-05-01-preview",operation_id="StorageAccounts_GetProperties",kind="response",code="INVALID_TYPE"} 2'
+    );
+  });
+});
@@ -0,0 +1,72 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { LiveValidationStatistics } from "../lib/liveValidation/liveValidationStatistics";
+import { ValidationRequest } from "../lib/liveValidation/operationValidator";
+
+const validationRequest = {
+  providerNamespace: "microsoft.test",
+  apiVersion: "2020-01-01",
+} as ValidationRequest;
+
+describe("Live validation statistics", () => {
+  it("should aggregate latency into histogram buckets", () => {
+    const statistics = new LiveValidationStatistics();
+    for (const durationInMs of [0, 3, 3, 7000]) {
+      statistics.recordValidation("request", validationRequest, "Op_Get", [], true, durationInMs);
+    }
+    const snapshot = statistics.getSnapshot();
+    expect(snapshot.latencies).toHaveLength(1);
+    const histogram = snapshot.latencies[0];
+    expect(histogram.bucketCounts).toEqual([1, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1]);
+    expect(histogram.sumInMs).toBe(7006);
+    expect(histogram.count).toBe(4);
+
+    const metrics = statistics.toPrometheus();
+    const labels = 'provider="microsoft.test",api_version="2020-01-01",operation_id="Op_Get"';
+    expect(metrics).toContain(
+      `oav_live_validation_duration_seconds_bucket{${labels},kind="request",le="0.005"} 3`
+    );
+    expect(metrics).toContain(
+      `oav_live_validation_duration_seconds_bucket{${labels},kind="request",le="5"} 3`
+    );
+    expect(metrics).toContain(
+      `oav_live_validation_duration_seconds_bucket{${labels},kind="request",le="+Inf"} 4`
+    );
+    expect(metrics).toContain(
+      `oav_live_validation_duration_seconds_sum{${labels},kind="request"} 7.006`
+    );
+    expect(metrics).toContain("# TYPE oav_live_validation_duration_seconds histogram");
+  });
+
+  it("should count outcomes and issues separately, and reset", () => {
+    const statistics = new LiveValidationStatistics();
+    statistics.recordValidation(
+      "response",
+      validationRequest,
+      "Op_Get",
+      ["INVALID_TYPE", "INVALID_TYPE"],
+      false,
+      1
+    );
+    statistics.recordValidation("response", validationRequest, "Op_Get", [], undefined, 1);
+    statistics.recordUnmatchedOperation(undefined, 'CODE"WITH\\QUOTE');
+
+    const snapshot = statistics.getSnapshot();
+    expect(snapshot.validations.map((it) => [it.outcome, it.count])).toEqual([
+      ["failure", 1],
+      ["exception", 1],
+    ]);
+    expect(snapshot.issues.map((it) => [it.code, it.count])).toEqual([["INVALID_TYPE", 2]]);
+    expect(statistics.toPrometheus()).toContain(
+      'oav_live_validation_unmatched_operations_total{provider="microsoft.unknown",api_version="unknown-api-version",code="CODE\\"WITH\\\\QUOTE"} 1'
+    );
+
+    // The snapshot is a copy
+    snapshot.issues[0].count = 100;
+    expect(statistics.getSnapshot().issues[0].count).toBe(2);
+
+    statistics.reset();
+    expect(statistics.getSnapshot().validations).toEqual([]);
+  });
+});
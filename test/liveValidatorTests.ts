@@ -4,6 +4,7 @@
 import * as assert from "assert";
 import * as os from "os";
 import * as path from "path";
+import * as fs from "fs-extra";
 import * as lodash from "lodash";
 import { ResponsesObject } from "yasway";
 import { LiveValidator } from "../lib/liveValidation/liveValidator";
@@ -583,6 +584,185 @@ describe("Live Validator", () => {
     });
   });
 
+  describe("Reload swagger files", () => {
+    const directory = path.join(os.tmpdir(), `oav-reload-${process.pid}`);
+    const specContent = (apiVersion: string) =>
+      JSON.stringify({
+        swagger: "2.0",
+        info: { title: "sometitle", version: apiVersion },
+        paths: {
+          "/providers/Microsoft.Test/widgets": {
+            get: {
+              operationId: "Widgets_List",
+              parameters: [{ name: "api-version", in: "query", required: true, type: "string" }],
+              responses: { "200": { description: "OK" } },
+            },
+          },
+        },
+      });
+    const writeSpec = async (fileName: string, content: string, mtime: number) => {
+      const filePath = path.join(directory, fileName);
+      await fs.outputFile(filePath, content);
+      await fs.utimes(filePath, mtime, mtime);
+    };
+    const apiVersions = (validator: LiveValidator) => [
+      ...(validator.operationSearcher.cache.get("microsoft.test")?.keys() ?? []),
+    ];
+
+    beforeEach(async () => {
+      await fs.remove(directory);
+      await writeSpec("a.json", specContent("2020-01-01"), 1000);
+    });
+    afterAll(async () => {
+      await fs.remove(directory);
+    });
+
+    it("should add, replace and remove swagger files", async () => {
+      const validator = new LiveValidator({
+        directory,
+        swaggerPathsPattern: ["*.json"],
+        loadValidatorInBackground: false,
+      });
+      await validator.initialize();
+      expect(apiVersions(validator)).toEqual(["2020-01-01"]);
+
+      await writeSpec("b.json", specContent("2021-01-01"), 1000);
+      await validator.addSwagger(path.join(directory, "b.json"));
+      expect(apiVersions(validator)).toEqual(["2020-01-01", "2021-01-01"]);
+      const result = await validator.validateLiveRequest({
+        url: "/providers/Microsoft.Test/widgets?api-version=2021-01-01",
+        method: "get",
+      });
+      expect(result.isSuccessful).toBe(true);
+      expect(result.operationInfo.operationId).toBe("Widgets_List");
+
+      await writeSpec("b.json", specContent("2022-01-01"), 1000);
+      await validator.replaceSwagger(path.join(directory, "b.json"));
+      expect(apiVersions(validator)).toEqual(["2020-01-01", "2022-01-01"]);
+
+      // The previous operations are kept if the file fails to load
+      await writeSpec("b.json", "{", 1000);
+      await expect(validator.replaceSwagger(path.join(directory, "b.json"))).rejects.toThrow();
+      expect(apiVersions(validator)).toEqual(["2020-01-01", "2022-01-01"]);
+
+      validator.removeSwagger(path.join(directory, "a.json"));
+      expect(apiVersions(validator)).toEqual(["2022-01-01"]);
+      expect(validator.swaggerList).toEqual([path.join(directory, "b.json")]);
+      await expect(validator.addSwagger(path.join(directory, "b.json"))).rejects.toThrow(
+        "is already loaded"
+      );
+    });
+
+    it("should reload the changed swagger files", async () => {
+      const validator = new LiveValidator({
+        directory,
+        swaggerPathsPattern: ["*.json"],
+        loadValidatorInBackground: false,
+      });
+      await validator.initialize();
+      expect(await validator.reloadChangedSwaggers()).toEqual({
+        added: [],
+        replaced: [],
+        removed: [],
+      });
+
+      await writeSpec("a.json", specContent("2020-06-01"), 2000);
+      await writeSpec("b.json", specContent("2021-01-01"), 1000);
+      expect(await validator.reloadChangedSwaggers()).toEqual({
+        added: [path.join(directory, "b.json")],
+        replaced: [path.join(directory, "a.json")],
+        removed: [],
+      });
+      expect(apiVersions(validator)).toEqual(["2020-06-01", "2021-01-01"]);
+
+      // The files added out of the directory are not removed
+      const externalPath = path.join(`${directory}-external`, "c.json");
+      await fs.outputFile(externalPath, specContent("2022-01-01"));
+      await validator.addSwagger(externalPath);
+      await fs.remove(path.join(directory, "a.json"));
+      try {
+        expect(await validator.reloadChangedSwaggers()).toEqual({
+          added: [],
+          replaced: [],
+          removed: [path.join(directory, "a.json")],
+        });
+      } finally {
+        await fs.remove(path.dirname(externalPath));
+      }
+      expect(apiVersions(validator)).toEqual(["2021-01-01", "2022-01-01"]);
+    });
+
+    it("should transform a reloaded swagger file with the files it references only", async () => {
+      const petPath = "/providers/Microsoft.Test/pets/{name}";
+      await writeSpec(
+        "a.json",
+        JSON.stringify({
+          swagger: "2.0",
+          info: { title: "pets", version: "2020-01-01" },
+          paths: {
+            [petPath]: {
+              get: {
+                operationId: "Pets_Get",
+                parameters: [
+                  { name: "name", in: "path", required: true, type: "string" },
+                  { name: "api-version", in: "query", required: true, type: "string" },
+                ],
+                responses: { "200": { description: "OK", schema: { $ref: "#/definitions/Pet" } } },
+              },
+            },
+          },
+          definitions: {
+            Pet: {
+              type: "object",
+              discriminator: "kind",
+              properties: { kind: { type: "string" } },
+              required: ["kind"],
+            },
+          },
+        }),
+        1000
+      );
+      await writeSpec(
+        "b.json",
+        JSON.stringify({
+          swagger: "2.0",
+          info: { title: "dogs", version: "2020-01-01" },
+          paths: {},
+          definitions: {
+            Dog: {
+              "x-ms-discriminator-value": "dog",
+              allOf: [{ $ref: "./a.json#/definitions/Pet" }],
+              properties: { bark: { type: "string" } },
+            },
+          },
+        }),
+        1000
+      );
+      const validator = new LiveValidator({
+        directory,
+        swaggerPathsPattern: ["*.json"],
+        loadValidatorInBackground: false,
+      });
+      await validator.initialize();
+      const validateDog = async () => {
+        const result = await validator.validateLiveResponse(
+          {
+            statusCode: "200",
+            headers: { "content-type": "application/json" },
+            body: { kind: "dog", bark: 1 },
+          },
+          { url: "/providers/Microsoft.Test/pets/dog1?api-version=2020-01-01", method: "get" }
+        );
+        return result.errors.map((it) => it.code);
+      };
+      expect(await validateDog()).toEqual(["INVALID_TYPE"]);
+
+      // The subtype in b.json is unknown to a.json loaded alone
+      await validator.replaceSwagger(path.join(directory, "a.json"));
+      expect(await validateDog()).toEqual(["DISCRIMINATOR_VALUE_NOT_FOUND"]);
+    });
+  });
+
   describe("Initialize cache and validate", () => {
     const livePaths = glob
       .sync("test/liveValidation/swaggers/**/live/*.json")
@@ -634,6 +814,59 @@ describe("Live Validator", () => {
       assert.strictEqual((errors[0] as any).code, "INVALID_RESPONSE_CODE");
     });
 
+    describe("sampling and dedupe", () => {
+      const unknownStatusCodePair = () => ({
+        liveRequest: {
+          url: "https://xxx.com/providers/someprovider?api-version=2018-01-01",
+          method: "get",
+          headers: {
+            "content-type": "application/json",
+          },
+        },
+        liveResponse: {
+          statusCode: "300",
+          headers: {
+            "content-Type": "application/json",
+          },
+        },
+      });
+
+      it("should skip the validations sampled out", async () => {
+        const validator = new LiveValidator({
+          directory: "./test/liveValidation/swaggers/specification/defaultIsErrorOnly",
+          swaggerPathsPattern: ["test.json"],
+          samplingRates: { "*": 0 },
+        });
+        await validator.initialize();
+        const result = await validator.validateLiveRequestResponse(unknownStatusCodePair());
+        expect(result.requestValidationResult.skipReason).toBe("sampling");
+        expect(result.responseValidationResult.skipReason).toBe("sampling");
+        expect(result.responseValidationResult.isSuccessful).toBeUndefined();
+        expect(result.responseValidationResult.errors).toEqual([]);
+        expect(
+          validator.statistics.getSnapshot().validations.map((it) => [it.kind, it.outcome])
+        ).toEqual([["request", "skipped"]]);
+      });
+
+      it("should report identical issues once in the dedupe window", async () => {
+        const validator = new LiveValidator({
+          directory: "./test/liveValidation/swaggers/specification/defaultIsErrorOnly",
+          swaggerPathsPattern: ["test.json"],
+          issueDedupeWindowInMs: 60000,
+        });
+        await validator.initialize();
+        const first = await validator.validateLiveRequestResponse(unknownStatusCodePair());
+        expect(first.responseValidationResult.errors.map((it) => [it.code, it.count])).toEqual([
+          ["INVALID_RESPONSE_CODE", 1],
+        ]);
+        const second = await validator.validateLiveRequestResponse(unknownStatusCodePair());
+        expect(second.responseValidationResult.isSuccessful).toBe(false);
+        expect(second.responseValidationResult.errors).toEqual([]);
+        // Statistics count every occurrence
+        expect(validator.statistics.getSnapshot().issues.map((it) => it.count)).toEqual([2]);
+      });
+    });
+
     // should be case insensitive for paramter name and the value of api version, resource provider
     it("should be case-insensitive for parameter name, resource provider and API version", async () => {
       const options = {
@@ -1150,6 +1383,118 @@ describe("Live validator snapshot validation", () => {
     expect(result).toMatchSnapshot();
   });
 
+  test(`should return the same result with the specs restored from cache directory`, async () => {
+    const cacheDirectory = path.join(os.tmpdir(), `oav-cache-${process.pid}`);
+    const getValidator = (messages: string[], cacheDirectory?: string) =>
+      new LiveValidator(
+        {
+          directory: `${__dirname}/liveValidation/swaggers/`,
+          isPathCaseSensitive: false,
+          useRelativeSourceLocationUrl: true,
+          swaggerPathsPattern: [
+            "specification/apimanagement/resource-manager/Microsoft.ApiManagement/preview/2018-01-01/*.json",
+            "specification/contoso/resource-manager/Microsoft.Contoso/**/*.json",
+          ],
+          git: {
+            shouldClone: false,
+          },
+          cacheDirectory,
+        },
+        (message) => messages.push(message)
+      );
+    const payloads = [
+      ...errors.map((error) => `${lodash.camelCase(error)}_input.json`),
+      "readonlyProperty_input.json",
+      "discriminator_invalid_format_input.json",
+    ].map((fileName) => require(`${__dirname}/liveValidation/payloads/${fileName}`));
+    // The source info functions of the params in the errors are not comparable
+    const validateAll = async (liveValidator: LiveValidator) => {
+      const results = [];
+      for (const payload of payloads) {
+        results.push(await liveValidator.validateLiveRequestResponse(payload));
+      }
+      return JSON.parse(JSON.stringify(results));
+    };
+    try {
+      const liveValidator = getValidator([]);
+      await liveValidator.initialize();
+      const expected = await validateAll(liveValidator);
+
+      // The first run fills the cache and the second run restores from it.
+      for (const restored of [false, true]) {
+        const messages: string[] = [];
+        const cachedValidator = getValidator(messages, cacheDirectory);
+        await cachedValidator.initialize();
+        expect(messages.some((it) => it.startsWith("Restore specs from cache"))).toBe(restored);
+        expect(cachedValidator.swaggerList).toEqual(liveValidator.swaggerList);
+        expect(await validateAll(cachedValidator)).toEqual(expected);
+      }
+      expect(glob.sync(`${cacheDirectory}/**/*.jsonl`)).toHaveLength(1);
+    } finally {
+      await fs.remove(cacheDirectory);
+    }
+  });
+
+  test(`should load the specs again if any file referenced is changed`, async () => {
+    const cacheDirectory = path.join(os.tmpdir(), `oav-cache-${process.pid}`);
+    const directory = path.join(os.tmpdir(), `oav-cache-specs-${process.pid}`);
+    const writeSpecs = async (sizeType: string) => {
+      await fs.outputJson(path.join(directory, "widget.json"), {
+        swagger: "2.0",
+        info: { title: "widget", version: "2021-01-01" },
+        paths: {
+          "/providers/Microsoft.Test/widgets/{name}": {
+            get: {
+              operationId: "Widgets_Get",
+              parameters: [
+                { name: "name", in: "path", required: true, type: "string" },
+                { name: "api-version", in: "query", required: true, type: "string" },
+              ],
+              responses: {
+                "200": { description: "OK", schema: { $ref: "./common.json#/definitions/Widget" } },
+              },
+            },
+          },
+        },
+      });
+      await fs.outputJson(path.join(directory, "common.json"), {
+        swagger: "2.0",
+        info: { title: "common", version: "1.0" },
+        paths: {},
+        definitions: { Widget: { type: "object", properties: { size: { type: sizeType } } } },
+      });
+    };
+    const validate = async () => {
+      const messages: string[] = [];
+      const liveValidator = new LiveValidator(
+        { directory, swaggerPathsPattern: ["widget.json"], cacheDirectory },
+        (message) => messages.push(message)
+      );
+      await liveValidator.initialize();
+      const result = await liveValidator.validateLiveResponse(
+        { statusCode: "200", headers: { "content-type": "application/json" }, body: { size: 1 } },
+        { url: "/providers/Microsoft.Test/widgets/a?api-version=2021-01-01", method: "get" }
+      );
+      return [
+        messages.some((it) => it.startsWith("Restore specs from cache")),
+        result.errors.map((it) => it.code),
+      ];
+    };
+    try {
+      await writeSpecs("integer");
+      expect(await validate()).toEqual([false, []]);
+      expect(await validate()).toEqual([true, []]);
+
+      await writeSpecs("string");
+      expect(await validate()).toEqual([false, ["INVALID_TYPE"]]);
+      expect(await validate()).toEqual([true, ["INVALID_TYPE"]]);
+      expect(glob.sync(`${cacheDirectory}/**/*.jsonl`)).toHaveLength(1);
+    } finally {
+      await fs.remove(cacheDirectory);
+      await fs.remove(directory);
+    }
+  });
+
   test(`should pass discriminator tests`, async () => {
     const options = {
       directory: `${__dirname}/liveValidation/swaggers/`,
@@ -1168,6 +1513,30 @@ describe("Live validator snapshot validation", () => {
     expect(result).toMatchSnapshot();
   });
 
+  test(`should not flag the list responses omitting the next link on the last page`, async () => {
+    const options = {
+      directory: `${__dirname}/liveValidation/swaggers/`,
+      isPathCaseSensitive: false,
+      useRelativeSourceLocationUrl: true,
+      swaggerPathsPattern: [
+        "specification/hybridnetwork/resource-manager/2020-01-01-preview/*.json",
+      ],
+      git: {
+        shouldClone: false,
+      },
+    };
+    const liveValidator = new LiveValidator(options);
+    await liveValidator.initialize();
+
+    const payload = require(`${__dirname}/liveValidation/payloads/MultiplepathPayload_input.json`);
+    expect(payload.liveResponse.body.nextLink).toBeUndefined();
+    const result = await liveValidator.validateLiveRequestResponse(payload);
+    expect(result.responseValidationResult.operationInfo.operationId).toBe("VendorSkus_List");
+    expect(result.responseValidationResult.errors.map((it) => it.code)).not.toContain(
+      "PAGEABLE_NEXT_LINK_NOT_FOUND"
+    );
+  });
+
   /**
    * this case is invalid because we can detect unresolved reference erro in the stage of resolve spec
    * TODO: this error code should be removed from the doc later
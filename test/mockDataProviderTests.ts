@@ -0,0 +1,60 @@
+import Mocker from "../lib/generator/mocker";
+import { MockRandom } from "../lib/generator/mockDataProvider";
+
+describe("mock data providers", () => {
+  it("should generate realistic values by format and property name", () => {
+    const mocker = new Mocker({ seed: 1 });
+    expect(mocker.mock({ type: "string", format: "uuid" }, "name")).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    );
+    expect(mocker.mock({ type: "string" }, "id")).toMatch(
+      /^\/subscriptions\/[^/]+\/resourceGroups\/[^/]+\/providers\//
+    );
+    expect(mocker.mock({ type: "string", "x-ms-arm-id-details": {} }, "target")).toMatch(
+      /^\/subscriptions\//
+    );
+    expect(mocker.mock({ type: "string" }, "location")).toMatch(/^[a-z0-9]+$/);
+    expect(mocker.mock({ type: "string", format: "email" }, "contact")).toMatch(/@contoso\.com$/);
+    expect(mocker.mock({ type: "string" }, "privateIpAddress")).toMatch(/^10(\.\d+){3}$/);
+  });
+
+  it("should not use providers for enums, patterns or too long values", () => {
+    const mocker = new Mocker({ seed: 1 });
+    expect(mocker.mock({ type: "string", enum: ["a", "b"] }, "location")).toEqual("a");
+    expect(mocker.mock({ type: "string", pattern: "^[0-9]{3}$" }, "location")).toMatch(
+      /^[0-9]{3}$/
+    );
+    expect(mocker.mock({ type: "string", maxLength: 5 }, "id")).toMatch(/^a{1,5}$/);
+  });
+
+  it("should prefer custom providers", () => {
+    const mocker = new Mocker({
+      mockDataProviders: [
+        { name: "vmSize", namePattern: /^vmSize$/, mock: () => "Standard_D2s_v3" },
+      ],
+    });
+    expect(mocker.mock({ type: "string" }, "vmSize")).toEqual("Standard_D2s_v3");
+  });
+
+  it("should generate the same values with the same seed", () => {
+    const specs = [
+      { type: "string", format: "date-time" },
+      { type: "string", format: "uuid" },
+      { type: "string", pattern: "^[a-z]{5,10}$" },
+      { type: "integer", minimum: 1, maximum: 1000 },
+      { type: "number" },
+    ];
+    const mockAll = (seed: number) => {
+      const mocker = new Mocker({ seed });
+      return specs.map((spec) => mocker.mock(spec, "value"));
+    };
+    expect(mockAll(42)).toEqual(mockAll(42));
+    expect(mockAll(42)).not.toEqual(mockAll(43));
+  });
+
+  it("should restore Math.random after seeded callbacks", () => {
+    const original = Math.random;
+    new MockRandom(1).withMathRandom(() => Math.random());
+    expect(Math.random).toBe(original);
+  });
+});
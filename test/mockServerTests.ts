@@ -0,0 +1,177 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as assert from "assert";
+import * as path from "path";
+import { RequestPrepareOptions, ServiceClient } from "@azure/core-http";
+import { BaseResult, LROPoller, lroPolicy } from "../lib/apiScenario/lro";
+import { MockArmService } from "../lib/mockServer/mockArmService";
+import { MockServer } from "../lib/mockServer/mockServer";
+
+jest.setTimeout(99999);
+
+const swaggerFilePath = path.resolve(
+  "test/mockServer/specification/widget/resource-manager/Microsoft.Widget/stable/2021-01-01/widget.json"
+);
+
+const endpoint = "https://management.azure.com";
+const widgetsPath = "/subscriptions/subid/resourceGroups/rg1/providers/Microsoft.Widget/widgets";
+const apiVersion = "?api-version=2021-01-01";
+
+describe("Mock ARM service", () => {
+  let service: MockArmService;
+
+  beforeAll(async () => {
+    service = MockArmService.create({ swaggerFilePaths: [swaggerFilePath], seed: 1 });
+    await service.initialize();
+  });
+
+  it("should keep resource state across PUT, GET, PATCH and DELETE", async () => {
+    const resourceUrl = `${endpoint}${widgetsPath}/state1${apiVersion}`;
+    const notFound = await service.handle({ method: "GET", url: resourceUrl });
+    assert.strictEqual(notFound.statusCode, 404);
+    assert.strictEqual(notFound.body.error.code, "ResourceNotFound");
+
+    const created = await service.handle({
+      method: "PUT",
+      url: resourceUrl,
+      body: { location: "westus", properties: { color: "red" } },
+    });
+    assert.strictEqual(created.statusCode, 201);
+    assert.strictEqual(created.body.properties.provisioningState, "Accepted");
+
+    const got = await service.handle({ method: "GET", url: resourceUrl });
+    assert.strictEqual(got.statusCode, 200);
+    assert.strictEqual(got.body.id, `${widgetsPath}/state1`);
+    assert.strictEqual(got.body.name, "state1");
+    assert.strictEqual(got.body.location, "westus");
+    assert.strictEqual(got.body.properties.color, "red");
+    assert.strictEqual(got.body.properties.size, 3);
+    assert.strictEqual(got.body.properties.provisioningState, "Succeeded");
+
+    const updated = await service.handle({
+      method: "PATCH",
+      url: resourceUrl,
+      body: { tags: { env: "test" } },
+    });
+    assert.strictEqual(updated.statusCode, 200);
+    assert.deepStrictEqual(updated.body.tags, { env: "test" });
+    assert.strictEqual(updated.body.properties.color, "red");
+
+    const replaced = await service.handle({
+      method: "PUT",
+      url: resourceUrl,
+      body: { location: "westus", type: "Microsoft.Other/things", properties: { color: "green" } },
+    });
+    assert.strictEqual(replaced.statusCode, 200);
+    assert.strictEqual(replaced.body.id, `${widgetsPath}/state1`);
+    assert.strictEqual(replaced.body.type, "Microsoft.Widget/widgets");
+    assert.strictEqual(replaced.body.tags, undefined);
+    assert.strictEqual(replaced.body.properties.color, "green");
+    assert.strictEqual(service.getResource(`${widgetsPath}/state1`).tags, undefined);
+
+    const deleted = await service.handle({ method: "DELETE", url: resourceUrl });
+    assert.strictEqual(deleted.statusCode, 202);
+    assert.ok(deleted.headers.Location);
+    assert.strictEqual(service.getResource(`${widgetsPath}/state1`), undefined);
+
+    const deletedAgain = await service.handle({ method: "DELETE", url: resourceUrl });
+    assert.strictEqual(deletedAgain.statusCode, 204);
+  });
+
+  it("should list the created resources", async () => {
+    for (const name of ["list1", "list2"]) {
+      await service.handle({
+        method: "PUT",
+        url: `${endpoint}${widgetsPath}/${name}${apiVersion}`,
+        body: { location: "eastus" },
+      });
+    }
+    const list = await service.handle({
+      method: "GET",
+      url: `${endpoint}${widgetsPath}${apiVersion}`,
+    });
+    assert.strictEqual(list.statusCode, 200);
+    assert.deepStrictEqual(
+      list.body.value.map((widget: any) => widget.name),
+      ["list1", "list2"]
+    );
+  });
+
+  it("should mock the response of operations without examples", async () => {
+    const response = await service.handle({
+      method: "POST",
+      url: `${endpoint}${widgetsPath}/widget1/regenerateKey${apiVersion}`,
+    });
+    assert.strictEqual(response.statusCode, 200);
+    assert.strictEqual(typeof response.body.keyName, "string");
+    assert.strictEqual(typeof response.body.value, "string");
+  });
+
+  it("should return 404 for unknown operations", async () => {
+    const response = await service.handle({
+      method: "GET",
+      url: `${endpoint}/subscriptions/subid/providers/Microsoft.Unknown/things${apiVersion}`,
+    });
+    assert.strictEqual(response.statusCode, 404);
+  });
+});
+
+describe("Mock server", () => {
+  let server: MockServer;
+  let client: ServiceClient;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = new MockServer(
+      MockArmService.create({ swaggerFilePaths: [swaggerFilePath], lroPollCount: 2 }),
+      { port: 0, host: "localhost" }
+    );
+    baseUrl = `http://localhost:${(await server.start()).port}`;
+    client = new ServiceClient(undefined, {
+      requestPolicyFactories: (defaultFactories) => [lroPolicy(), ...defaultFactories],
+    });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  const sendOperation = async (request: RequestPrepareOptions): Promise<BaseResult> => ({
+    _response: await client.sendRequest(request),
+  });
+
+  const pollUntilDone = async (request: RequestPrepareOptions, finalStateVia: any) => {
+    const result = await sendOperation(request);
+    const poller = new LROPoller({
+      initialRequestOptions: request,
+      initialOperationResult: result,
+      sendOperation,
+      finalStateVia,
+      intervalInMs: 0,
+    });
+    return poller.pollUntilDone();
+  };
+
+  it("should run long running operations through the LRO poller", async () => {
+    const url = `${baseUrl}${widgetsPath}/lro1${apiVersion}`;
+    const created = await pollUntilDone(
+      {
+        url,
+        method: "PUT",
+        body: { location: "eastus", properties: { color: "yellow" } },
+      },
+      "azure-async-operation"
+    );
+    assert.strictEqual(created._response.status, 200);
+    const widget = created._response.parsedBody ?? JSON.parse(created._response.bodyAsText!);
+    assert.strictEqual(widget.name, "lro1");
+    assert.strictEqual(widget.properties.provisioningState, "Succeeded");
+
+    const deleted = await pollUntilDone({ url, method: "DELETE" }, "location");
+    assert.ok(deleted._response.status < 300);
+
+    const got = await sendOperation({ url, method: "GET" });
+    assert.strictEqual(got._response.status, 404);
+  });
+});
@@ -0,0 +1,161 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as path from "path";
+import * as fs from "fs-extra";
+import { LiveValidator } from "../lib/liveValidation/liveValidator";
+import { convertOpenApi3 } from "../lib/swagger/openApi3Converter";
+import { TrafficValidator } from "../lib/swaggerValidator/trafficValidator";
+import * as validate from "../lib/validate";
+
+const specDir = path.resolve(__dirname, "openApi3/specification");
+const specPath = `${specDir}/widget/resource-manager/Microsoft.Widget/stable/2023-01-01/widget.json`;
+const trafficPath = path.resolve(__dirname, "openApi3/payloads");
+
+describe("OpenAPI 3", () => {
+  it("should convert the documents to the swagger 2.0 shape", () => {
+    const doc: any = {
+      openapi: "3.1.0",
+      servers: [
+        { url: "https://{account}.widget.azure.com/api", variables: { account: { default: "a" } } },
+      ],
+      paths: {
+        "/widgets": {
+          post: {
+            parameters: [
+              {
+                name: "ids",
+                in: "query",
+                schema: { type: "array", items: { type: "string" } },
+                explode: false,
+              },
+              { name: "session", in: "cookie", schema: { type: "string" } },
+            ],
+            requestBody: {
+              content: {
+                "multipart/form-data": {
+                  schema: {
+                    type: "object",
+                    required: ["file"],
+                    properties: { file: { type: "string", format: "binary" } },
+                  },
+                },
+              },
+            },
+            responses: {
+              "200": {
+                description: "OK",
+                content: { "application/json": { schema: { $ref: "#/components/schemas/Size" } } },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Size: { type: ["integer", "null"], exclusiveMinimum: 0 },
+          Kind: { const: "widget" },
+        },
+      },
+    };
+    convertOpenApi3(doc);
+    expect(doc).toEqual({
+      swagger: "2.0",
+      _openApiVersion: "3.1.0",
+      basePath: "/api",
+      schemes: ["https"],
+      "x-ms-parameterized-host": {
+        hostTemplate: "{account}.widget.azure.com",
+        useSchemePrefix: true,
+        parameters: [
+          {
+            name: "account",
+            in: "path",
+            required: true,
+            type: "string",
+            "x-ms-skip-url-encoding": true,
+            default: "a",
+          },
+        ],
+      },
+      paths: {
+        "/widgets": {
+          post: {
+            parameters: [
+              {
+                name: "ids",
+                in: "query",
+                type: "array",
+                items: { type: "string" },
+                collectionFormat: "csv",
+              },
+              { name: "file", in: "formData", required: true, type: "file" },
+            ],
+            consumes: ["multipart/form-data"],
+            produces: ["application/json"],
+            responses: {
+              "200": { description: "OK", schema: { $ref: "#/definitions/Size" } },
+            },
+          },
+        },
+      },
+      definitions: {
+        Size: { type: "integer", "x-nullable": true, minimum: 0, exclusiveMinimum: true },
+        Kind: { enum: ["widget"] },
+      },
+    });
+  });
+
+  it("should validate the spec", async () => {
+    const result = await validate.validateSpec(specPath, {});
+    expect(result.validateSpec?.errors).toEqual([]);
+    expect(result.validityStatus).toBe(true);
+  });
+
+  it("should validate the examples", async () => {
+    const result = await validate.validateExamples(specPath, undefined, {});
+    expect(result.map((it) => [it.code, it.operationId, it.message])).toEqual([
+      ["INVALID_TYPE", "Widgets_CreateOrUpdate", "Expected type number but found type string"],
+      ["INVALID_TYPE", "Widgets_CreateOrUpdate", "Expected type string but found type boolean"],
+      ["INVALID_TYPE", "Widgets_CreateOrUpdate", "Expected type integer but found type boolean"],
+      ["ONE_OF_MISSING", "Widgets_CreateOrUpdate", "Data does not match any schemas from 'oneOf'"],
+      ["XMS_EXAMPLE_NOTFOUND_ERROR", "Widgets_Update", "x-ms-example not found in Widgets_Update."],
+    ]);
+  });
+
+  it("should validate the live requests and responses", async () => {
+    const validator = new LiveValidator({
+      directory: specDir,
+      swaggerPathsPattern: ["**/*.json"],
+      git: { shouldClone: false },
+    });
+    await validator.initialize();
+
+    const getResult = await validator.validateLiveRequestResponse(
+      await fs.readJson(`${trafficPath}/Widgets_Get.json`)
+    );
+    expect(getResult.requestValidationResult.isSuccessful).toBe(true);
+    expect(getResult.responseValidationResult.isSuccessful).toBe(true);
+
+    const updateResult = await validator.validateLiveRequestResponse(
+      await fs.readJson(`${trafficPath}/Widgets_Update.json`)
+    );
+    expect(updateResult.requestValidationResult.isSuccessful).toBe(true);
+    expect(updateResult.responseValidationResult.errors.map((it) => it.code)).toEqual([
+      "INVALID_TYPE",
+    ]);
+  });
+
+  it("should validate the traffic", async () => {
+    const validator = new TrafficValidator(`${specDir}/widget`, trafficPath);
+    await validator.initialize();
+    const result = await validator.validate();
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      operationInfo: { apiVersion: "2023-01-01", operationId: "Widgets_Update" },
+    });
+    expect(result[0].errors?.map((it) => [it.code, it.jsonPathsInPayload[0]])).toEqual([
+      ["INVALID_TYPE", "$.properties.shape.side"],
+    ]);
+  });
+});
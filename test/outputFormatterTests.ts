@@ -0,0 +1,135 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as path from "path";
+import jsYaml from "js-yaml";
+import {
+  detectOutputFormat,
+  getOutputFormatter,
+  registerOutputFormatter,
+} from "../lib/report/outputFormatter";
+import { ValidationOutput } from "../lib/report/validationOutput";
+import { SemanticErrorDetail } from "../lib/swaggerValidator/semanticValidator";
+import { Severity } from "../lib/util/severity";
+import * as validate from "../lib/validate";
+
+const testPath = __dirname;
+
+const polymorphicSpecPath = `${testPath}/modelValidation/swaggers/specification/polymorphic/polymorphicSwagger.json`;
+
+const semanticError: SemanticErrorDetail = {
+  code: "UNRESOLVABLE_REFERENCE",
+  message: "Reference could not be resolved: #/definitions/Foo",
+  url: path.join(process.cwd(), "specification", "foo.json"),
+  position: { line: 12, column: 7 },
+  jsonPath: "$.definitions.Bar",
+};
+
+describe("Output formatter", () => {
+  it("should detect the format from the environment", () => {
+    expect(detectOutputFormat({ "Agent.Id": "1" })).toBe("azure-pipelines");
+    expect(detectOutputFormat({ GITHUB_ACTIONS: "true" })).toBe("github-actions");
+    expect(detectOutputFormat({})).toBe("yaml");
+  });
+
+  it("should throw on unknown format", () => {
+    expect(() => getOutputFormatter("junit")).toThrow(/Unknown output format "junit"/);
+  });
+
+  it("should print GitHub Actions annotations at the example positions", async () => {
+    const spy = jest.spyOn(console, "log").mockImplementation(() => undefined);
+    try {
+      await validate.validateExamples(polymorphicSpecPath, "CircularAnimal_IncorrectSibling_List", {
+        consoleLogLevel: "off",
+        outputFormat: "github-actions",
+      });
+      const lines = spy.mock.calls.map((it) => it[0]);
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatch(
+        /^::error file=test\/modelValidation\/swaggers\/specification\/polymorphic\/examples\/.+\.json,line=\d+,col=\d+,title=OBJECT_ADDITIONAL_PROPERTIES::Additional properties not allowed/
+      );
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("should escape GitHub Actions workflow command values", () => {
+    const [line] = getOutputFormatter("github-actions").format({
+      semanticErrors: [{ ...semanticError, message: "100% broken\nsecond line" }],
+    });
+    expect(line).toBe(
+      "::error file=specification/foo.json,line=12,col=7,title=UNRESOLVABLE_REFERENCE::100%25 broken%0Asecond line"
+    );
+  });
+
+  it("should format GitLab code quality report", () => {
+    const [report] = getOutputFormatter("gitlab").format({
+      semanticErrors: [semanticError],
+      runtimeExceptions: [{ code: "INTERNAL_ERROR", message: "failed" }],
+    });
+    const issues = JSON.parse(report);
+    expect(issues).toEqual([
+      {
+        description: semanticError.message,
+        check_name: "UNRESOLVABLE_REFERENCE",
+        fingerprint: expect.stringMatching(/^[0-9a-f]{32}$/),
+        severity: "critical",
+        location: { path: "specification/foo.json", lines: { begin: 12 } },
+      },
+    ]);
+  });
+
+  it("should format compact lines with the severity of the issue", () => {
+    const output: ValidationOutput = {
+      trafficIssues: [
+        {
+          payloadFilePath: "payload.json",
+          errors: [
+            {
+              code: "PII_MISMATCH",
+              severity: Severity.Warning,
+              message: "The value contains PII data",
+              pathsInPayload: [],
+              jsonPathsInPayload: [],
+              schemaPath: "",
+              source: { url: "specification/foo.json", position: { line: 3, column: 1 } },
+            },
+          ],
+          runtimeExceptions: [{ code: "RUNTIME_ERROR", message: "failed" }],
+        },
+      ],
+    };
+    expect(getOutputFormatter("compact").format(output)).toEqual([
+      "specification/foo.json:3:1: warning PII_MISMATCH: The value contains PII data",
+      "error RUNTIME_ERROR: failed",
+    ]);
+  });
+
+  it("should keep printing the issues as yaml by default", () => {
+    const formatter = getOutputFormatter("yaml");
+    expect(formatter.stream).toBe("stderr");
+    expect(formatter.format({ semanticErrors: [semanticError] })).toEqual([
+      jsYaml.dump(semanticError),
+    ]);
+  });
+
+  it("should use the registered formatter", async () => {
+    registerOutputFormatter("codes", {
+      stream: "stdout",
+      format: (output) => (output.exampleErrors ?? []).map((it) => it.code),
+    });
+    const spy = jest.spyOn(console, "log").mockImplementation(() => undefined);
+    try {
+      await validate.validateExamples(polymorphicSpecPath, "CircularAnimal_IncorrectSibling_List", {
+        consoleLogLevel: "off",
+        outputFormat: "codes",
+      });
+      expect(spy.mock.calls).toEqual([
+        ["OBJECT_ADDITIONAL_PROPERTIES"],
+        ["OBJECT_ADDITIONAL_PROPERTIES"],
+      ]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
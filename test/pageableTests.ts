@@ -0,0 +1,149 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as http from "http";
+import { AddressInfo } from "net";
+import { URL } from "url";
+import * as path from "path";
+import { ApiScenarioRestClient } from "../lib/apiScenario/apiScenarioRestClient";
+import { StepRestCall } from "../lib/apiScenario/apiScenarioTypes";
+import { VariableEnv } from "../lib/apiScenario/variableEnv";
+import { ExampleQualityValidator } from "../lib/exampleQualityValidator/exampleQualityValidator";
+import { LiveValidator } from "../lib/liveValidation/liveValidator";
+
+const specDir = path.resolve(__dirname, "liveValidation/pageable/specification");
+const specPath = `${specDir}/pageable/resource-manager/Microsoft.Pageable/stable/2021-01-01/pageable.json`;
+const listPath =
+  "/subscriptions/00000000-0000-0000-0000-000000000000/providers/Microsoft.Pageable/foos";
+// The response schema of the bars doesn't define the next link
+const barListPath =
+  "/subscriptions/00000000-0000-0000-0000-000000000000/providers/Microsoft.Pageable/bars";
+const foo = {
+  id: `${listPath}/foo1`,
+  name: "foo1",
+};
+
+describe("x-ms-pageable", () => {
+  it("should validate the item and next link properties of the live list responses", async () => {
+    const validator = new LiveValidator({
+      directory: specDir,
+      swaggerPathsPattern: ["**/*.json"],
+      git: { shouldClone: false },
+    });
+    await validator.initialize();
+    const validateListResponse = async (body: any, path: string = listPath) => {
+      const result = await validator.validateLiveRequestResponse({
+        liveRequest: {
+          url: `https://management.azure.com${path}?api-version=2021-01-01`,
+          method: "GET",
+          headers: {},
+        },
+        liveResponse: {
+          statusCode: "200",
+          headers: { "Content-Type": "application/json" },
+          body,
+        },
+      });
+      return result.responseValidationResult.errors.map((it) => [it.code, it.message]);
+    };
+
+    expect(await validateListResponse({ value: [foo], nextLink: `${listPath}?page=2` })).toEqual(
+      []
+    );
+    expect(await validateListResponse({ value: [foo], nextLink: null })).toEqual([]);
+    expect(await validateListResponse({ nextLink: null })).toEqual([
+      [
+        "PAGEABLE_ITEM_NOT_FOUND",
+        "The response of pageable operation should return the items in array property value but not provided",
+      ],
+    ]);
+    // The last page could omit the next link defined in the response schema
+    expect(await validateListResponse({ value: [foo] })).toEqual([]);
+    expect(await validateListResponse({ value: [foo] }, barListPath)).toEqual([
+      [
+        "PAGEABLE_NEXT_LINK_NOT_FOUND",
+        "The response of pageable operation should return the next link in property nextLink, which is null on the last page, but not provided",
+      ],
+    ]);
+  });
+
+  it("should flag the list examples missing the next link", async () => {
+    const validator = ExampleQualityValidator.create({ swaggerFilePaths: [specPath] });
+    const result = await validator.validateSwaggerExamples();
+    expect(result).toMatchObject([
+      {
+        code: "MISSING_NEXT_LINK_IN_EXAMPLE",
+        severity: "Warning",
+        jsonPath: "/responses/200/body",
+        exampleName: "List foos",
+      },
+    ]);
+  });
+
+  describe("ApiScenarioRestClient", () => {
+    let server: http.Server;
+    let endpoint: string;
+
+    beforeAll(async () => {
+      // Serves 3 pages of foos
+      server = http.createServer((req, res) => {
+        const page = Number(new URL(req.url!, "http://localhost").searchParams.get("page") ?? 1);
+        res.setHeader("Content-Type", "application/json");
+        res.end(
+          JSON.stringify({
+            value: [foo],
+            nextLink: page < 3 ? `${endpoint}${listPath}?page=${page + 1}` : null,
+          })
+        );
+      });
+      await new Promise<void>((resolve) => server.listen(0, "localhost", resolve));
+      endpoint = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    const sendListRequest = async (pageLimit: number | undefined) => {
+      const client = new ApiScenarioRestClient(
+        { getToken: async () => ({ token: "fake", expiresOnTimestamp: Date.now() + 3600000 }) },
+        { endpoint }
+      );
+      const step = {
+        type: "restCall",
+        step: "List_foos",
+        exampleFile: "Foos_List.json",
+        operation: {
+          operationId: "Foos_List",
+          _method: "get",
+          "x-ms-pageable": { nextLinkName: "nextLink" },
+        },
+        outputVariables: {},
+        assertions: [],
+        pageLimit,
+      } as unknown as StepRestCall;
+      await client.sendExampleRequest(
+        { method: "GET", path: listPath, headers: {}, query: { "api-version": "2021-01-01" } },
+        step,
+        { env: new VariableEnv(), scope: "ResourceGroup", armDeployments: [] }
+      );
+      return client.executions.map((it) => [it.annotation.type, it.request.url.split("?")[1]]);
+    };
+
+    it("should follow the next links up to the page limit", async () => {
+      expect(await sendListRequest(2)).toEqual([
+        ["simple", "api-version=2021-01-01"],
+        ["next-page", "page=2"],
+      ]);
+      expect(await sendListRequest(5)).toEqual([
+        ["simple", "api-version=2021-01-01"],
+        ["next-page", "page=2"],
+        ["next-page", "page=3"],
+      ]);
+    });
+
+    it("should get only the first page without page limit", async () => {
+      expect(await sendListRequest(undefined)).toEqual([["simple", "api-version=2021-01-01"]]);
+    });
+  });
+});
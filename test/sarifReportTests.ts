@@ -0,0 +1,121 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as path from "path";
+import { LiveValidationIssue } from "../lib/liveValidation/liveValidator";
+import { SarifLog, SarifReportBuilder } from "../lib/report/sarifReport";
+import { Severity } from "../lib/util/severity";
+import * as validate from "../lib/validate";
+
+const testPath = __dirname;
+
+const captureSarif = async (func: () => Promise<unknown>): Promise<SarifLog> => {
+  const spy = jest.spyOn(console, "log").mockImplementation(() => undefined);
+  try {
+    await func();
+    expect(spy).toHaveBeenCalledTimes(1);
+    return JSON.parse(spy.mock.calls[0][0]);
+  } finally {
+    spy.mockRestore();
+  }
+};
+
+describe("SARIF report", () => {
+  it("should report example errors at the example with the schema as related location", async () => {
+    const specPath = `${testPath}/modelValidation/swaggers/specification/polymorphic/polymorphicSwagger.json`;
+    const sarif = await captureSarif(async () =>
+      validate.validateExamples(specPath, "CircularAnimal_IncorrectSibling_List", {
+        consoleLogLevel: "off",
+        outputFormat: "sarif",
+      })
+    );
+
+    expect(sarif.version).toBe("2.1.0");
+    const run = sarif.runs[0];
+    expect(run.tool.driver.rules).toEqual([
+      { id: "OBJECT_ADDITIONAL_PROPERTIES", defaultConfiguration: { level: "error" } },
+    ]);
+    expect(run.invocations[0].executionSuccessful).toBe(true);
+    expect(run.results).toHaveLength(2);
+    const result = run.results[0];
+    expect(result.ruleId).toBe("OBJECT_ADDITIONAL_PROPERTIES");
+    expect(result.ruleIndex).toBe(0);
+    expect(result.level).toBe("error");
+    expect(result.properties?.exampleJsonPath).toBe(
+      "$responses.200.body.value[3].siblings[0].sanctuary"
+    );
+    const location = result.locations[0].physicalLocation;
+    expect(location.artifactLocation.uri).toMatch(
+      /^test\/modelValidation\/swaggers\/specification\/polymorphic\/examples\/.+\.json$/
+    );
+    expect(location.region?.startLine).toBeGreaterThan(1);
+    expect(result.relatedLocations?.[0].physicalLocation.artifactLocation.uri).toBe(
+      "test/modelValidation/swaggers/specification/polymorphic/polymorphicSwagger.json"
+    );
+  });
+
+  it("should report semantic errors", async () => {
+    const specPath = `${testPath}/semanticValidation/specification/validateSwaggerSchema/UNRESOLVABLE_REFERENCE.json`;
+    const sarif = await captureSarif(async () =>
+      validate.validateSpec(specPath, { outputFormat: "sarif" })
+    );
+    const result = sarif.runs[0].results[0];
+    expect(result.ruleId).toBe("UNRESOLVABLE_REFERENCE");
+    expect(result.locations[0].physicalLocation.artifactLocation.uri).toBe(
+      "test/semanticValidation/specification/validateSwaggerSchema/UNRESOLVABLE_REFERENCE.json"
+    );
+  });
+
+  it("should report live validation issues and runtime exceptions", () => {
+    const report = new SarifReportBuilder(path.join(testPath, "liveValidation"));
+    const issue = {
+      code: "PII_MISMATCH",
+      severity: Severity.Warning,
+      message: "The value contains PII data",
+      schemaPath: "/definitions/Foo/properties/name",
+      pathsInPayload: ["/body/name"],
+      jsonPathsInPayload: ["$.body.name"],
+      documentationUrl: "https://example.com/PII_MISMATCH",
+      source: {
+        url: path.join(testPath, "liveValidation", "swaggers", "foo.json"),
+        position: { line: 10, column: 5 },
+      },
+    } as LiveValidationIssue;
+    report.addTrafficValidationIssues([
+      {
+        payloadFilePath: path.join(path.parse(testPath).root, "traffic", "payload.json"),
+        errors: [issue],
+        runtimeExceptions: [{ code: "RUNTIME_ERROR", message: "failed" }],
+      },
+    ]);
+
+    const run = report.build().runs[0];
+    expect(run.tool.driver.rules).toEqual([
+      {
+        id: "PII_MISMATCH",
+        defaultConfiguration: { level: "warning" },
+        helpUri: "https://example.com/PII_MISMATCH",
+      },
+    ]);
+    expect(run.results[0]).toMatchObject({
+      level: "warning",
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "swaggers/foo.json" },
+            region: { startLine: 10, startColumn: 5 },
+          },
+        },
+      ],
+      relatedLocations: [
+        { physicalLocation: { artifactLocation: { uri: "file:///traffic/payload.json" } } },
+      ],
+    });
+    expect(run.invocations[0]).toEqual({
+      executionSuccessful: false,
+      toolExecutionNotifications: [
+        { level: "error", message: { text: "failed" }, descriptor: { id: "RUNTIME_ERROR" } },
+      ],
+    });
+  });
+});
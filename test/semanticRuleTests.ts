@@ -0,0 +1,43 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { loadSemanticRules } from "../lib/swaggerValidator/semanticRule";
+import * as validate from "../lib/validate";
+
+const testPath = __dirname;
+
+const specPath = `${testPath}/semanticValidation/specification/customRules/customRules.json`;
+
+describe("Custom semantic rules", () => {
+  it("should report the errors of the rules loaded from a module", async () => {
+    const semanticRules = loadSemanticRules(`${testPath}/semanticValidation/customRules.js`);
+    const result = await validate.validateSpec(specPath, { semanticRules });
+    expect(result.validityStatus).toBe(false);
+    // Bars_List is suppressed in the readme
+    expect(result.validateSpec?.errors).toMatchObject([
+      {
+        code: "PAGEABLE_LIST_OPERATION",
+        message: "List operation Foos_List must be pageable.",
+        url: specPath,
+        position: { line: 10, column: 14 },
+      },
+      {
+        code: "PROPERTIES_BAG_NAMING",
+        message: "The properties bag props must be named properties.",
+        url: specPath,
+        position: { line: 41, column: 12 },
+      },
+    ]);
+  });
+
+  it("should pass without the rules", async () => {
+    const result = await validate.validateSpec(specPath, {});
+    expect(result.validityStatus).toBe(true);
+  });
+
+  it("should throw on a module without rules", () => {
+    expect(() =>
+      loadSemanticRules(`${testPath}/semanticValidation/specification/customRules/customRules.json`)
+    ).toThrow("doesn't export an array of semantic rules");
+  });
+});
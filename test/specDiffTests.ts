@@ -0,0 +1,112 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import {
+  diffSpecs,
+  formatSpecDiffAsMarkdown,
+  hasBreakingChanges,
+  SpecDiffChange,
+  SpecDiffResult,
+} from "../lib/specDiff/specDiff";
+
+const oldSpecPath = `${__dirname}/specDiff/old.json`;
+const newSpecPath = `${__dirname}/specDiff/new.json`;
+
+const summarize = (changes: SpecDiffChange[]) =>
+  changes.map((it) => [it.code, it.breaking, it.location]);
+
+describe("Spec diff", () => {
+  let result: SpecDiffResult;
+
+  beforeAll(async () => {
+    result = await diffSpecs(oldSpecPath, newSpecPath);
+  });
+
+  const getChanges = (operationId: string, locationPrefix?: string) =>
+    result.changes.filter(
+      (it) =>
+        it.operationId === operationId &&
+        (locationPrefix === undefined || it.location?.startsWith(locationPrefix))
+    );
+
+  it("should report no change for the same spec", async () => {
+    const sameResult = await diffSpecs(oldSpecPath, oldSpecPath);
+    expect(sameResult.changes).toEqual([]);
+    expect(hasBreakingChanges(sameResult)).toBe(false);
+  });
+
+  it("should report the removed and added operations", () => {
+    expect(
+      result.changes
+        .filter((it) => it.code === "OPERATION_REMOVED" || it.code === "OPERATION_ADDED")
+        .map((it) => [it.code, it.breaking, it.operationId])
+    ).toEqual([
+      ["OPERATION_REMOVED", true, "Foos_CheckNameAvailability"],
+      ["OPERATION_ADDED", false, "Operations_List"],
+    ]);
+  });
+
+  it("should match the operations regardless of the path parameter names", () => {
+    expect(getChanges("Foos_Delete")).toMatchObject([
+      {
+        code: "RESPONSE_CODE_ADDED",
+        breaking: true,
+        operation: "DELETE /subscriptions/{subscriptionId}/providers/Microsoft.Foo/foos/{fooName}",
+        location: "response.202",
+      },
+      { code: "RESPONSE_CODE_ADDED", breaking: false, location: "response.404" },
+    ]);
+  });
+
+  it("should report the changes of the request schemas", () => {
+    expect(summarize(getChanges("Foos_CreateOrUpdate", "request"))).toEqual([
+      ["TYPE_CHANGED", true, "request.body.properties.size"],
+      ["ENUM_NARROWED", true, "request.body.properties.tier"],
+      ["ENUM_WIDENED", false, "request.body.properties.tier"],
+      ["PROPERTY_RENAMED", true, "request.body.properties.displayName"],
+      ["FORMAT_CHANGED", true, "request.body.properties.createdAt"],
+      ["ENUM_NARROWED", true, "request.body.properties.tags[*]"],
+      ["REQUIRED_PROPERTY_ADDED", true, "request.body.properties.location"],
+    ]);
+  });
+
+  it("should classify the changes of the response schemas for the clients receiving them", () => {
+    expect(summarize(getChanges("Foos_CreateOrUpdate", "response"))).toEqual([
+      ["TYPE_CHANGED", true, "response.200.properties.size"],
+      ["ENUM_NARROWED", false, "response.200.properties.tier"],
+      ["ENUM_WIDENED", true, "response.200.properties.tier"],
+      ["PROPERTY_RENAMED", true, "response.200.properties.displayName"],
+      ["FORMAT_CHANGED", true, "response.200.properties.createdAt"],
+      ["ENUM_NARROWED", false, "response.200.properties.tags[*]"],
+      ["REQUIRED_PROPERTY_ADDED", false, "response.200.properties.location"],
+      ["RESPONSE_CODE_REMOVED", true, "response.201"],
+    ]);
+    expect(getChanges("Foos_CreateOrUpdate")[0]).toMatchObject({
+      code: "LONG_RUNNING_OPERATION_CHANGED",
+      breaking: true,
+      oldValue: true,
+      newValue: false,
+    });
+  });
+
+  it("should report the changes of the parameters", () => {
+    expect(summarize(getChanges("Foos_List", "request"))).toEqual([
+      ["FORMAT_CHANGED", true, "request.query.$top"],
+      ["REQUIRED_PARAMETER_ADDED", true, "request.query.$filter"],
+      ["PARAMETER_ADDED", false, "request.query.$skipToken"],
+    ]);
+  });
+
+  it("should format the changes as markdown", () => {
+    const markdown = formatSpecDiffAsMarkdown(result);
+    const breakingCount = result.changes.filter((it) => it.breaking).length;
+    expect(markdown).toContain(`## Breaking changes (${breakingCount})`);
+    expect(markdown).toContain(
+      `## Non-breaking changes (${result.changes.length - breakingCount})`
+    );
+    expect(markdown).toContain(
+      "| PROPERTY_RENAMED | PUT /subscriptions/{subscriptionId}/providers/Microsoft.Foo/foos/{fooName} | request.body.properties.displayName | The property displayName is renamed to title. |"
+    );
+    expect(markdown.indexOf("OPERATION_REMOVED")).toBeLessThan(markdown.indexOf("OPERATION_ADDED"));
+  });
+});
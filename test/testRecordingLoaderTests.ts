@@ -0,0 +1,105 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as path from "path";
+import { TestRecordingLoader } from "../lib/apiScenario/gen/testRecordingLoader";
+import { inversifyGetInstance } from "../lib/inversifyUtils";
+import { getRecordingEntryPath, TrafficValidator } from "../lib/swaggerValidator/trafficValidator";
+
+const payloadDir = path.resolve(process.cwd(), "test/liveValidation/payloads");
+const harFilePath = path.join(payloadDir, "har/tables.har");
+const testProxyFilePath = path.join(payloadDir, "recordings/tables.testproxy.json");
+const nockFilePath = path.join(payloadDir, "recordings/tables.nock.json");
+const vcrpyFilePath = path.join(payloadDir, "recordings/tables.vcrpy.yaml");
+const specPath = path.resolve(
+  process.cwd(),
+  "test/liveValidation/swaggers/specification/cosmos-db/data-plane/Microsoft.Tables/preview/2019-02-02/table.json"
+);
+
+describe("TestRecordingLoader", () => {
+  const loader = inversifyGetInstance(TestRecordingLoader, {});
+
+  it("should load HAR entries", async () => {
+    const recording = await loader.load(harFilePath);
+    expect(recording.requests.length).toEqual(2);
+    const [request] = recording.requests;
+    expect(request.method).toEqual("GET");
+    expect(request.query).toEqual({ "api-version": "2019-02-02" });
+    expect(request.headers["x-ms-version"]).toEqual("2019-02-02");
+    expect(request.body).toBeUndefined();
+    expect(request.responseCode).toEqual(200);
+    expect(request.responseBody).toEqual({ value: [{ TableName: "uttableb8e52e37" }] });
+  });
+
+  it("should decode base64 encoded HAR response content", async () => {
+    const recording = await loader.load(harFilePath);
+    expect(recording.requests[1].responseBody).toEqual({ value: [{ TableName: 123 }] });
+  });
+
+  it("should load test-proxy recordings", async () => {
+    const recording = await loader.load(testProxyFilePath);
+    expect(recording.requests.length).toEqual(2);
+    expect(recording.requests[0].headers["x-ms-version"]).toEqual("2019-02-02");
+    expect(recording.requests[0].body).toBeUndefined();
+    expect(recording.requests[1].responseBody).toEqual({ value: [{ TableName: 123 }] });
+  });
+
+  it("should load nock recordings and skip compressed responses", async () => {
+    const recording = await loader.load(nockFilePath);
+    expect(recording.requests.length).toEqual(2);
+    expect(recording.requests[0].url).toEqual(
+      "https://fakeendpoint.table.core.windows.net/Tables?api-version=2019-02-02"
+    );
+    expect(recording.requests[0].responseHeaders["x-ms-version"]).toEqual("2019-02-02");
+    expect(recording.requests[0].responseBody).toEqual({
+      value: [{ TableName: "uttableb8e52e37" }],
+    });
+    expect(recording.requests[1].responseBody).toBeUndefined();
+  });
+
+  it("should load vcrpy yaml cassettes", async () => {
+    const recording = await loader.load(vcrpyFilePath);
+    expect(recording.requests.length).toEqual(1);
+    expect(recording.requests[0].headers.DataServiceVersion).toEqual("3.0");
+    expect(recording.requests[0].responseBody).toEqual({
+      value: [{ TableName: "uttableb8e52e37" }],
+    });
+  });
+
+  it("should detect whether a file is a recording", async () => {
+    expect(await loader.isRecording(nockFilePath)).toBe(true);
+    expect(await loader.isRecording(specPath)).toBe(false);
+  });
+
+  it("should prefer registered formats", async () => {
+    const customLoader = inversifyGetInstance(TestRecordingLoader, {});
+    customLoader.register({
+      formatName: "custom",
+      canLoad: (content) => Array.isArray(content.Entries),
+      load: async () => ({ requests: [], description: "custom" }),
+    });
+    expect(customLoader.getFormatNames()[0]).toEqual("custom");
+    expect((await customLoader.load(testProxyFilePath)).description).toEqual("custom");
+  });
+});
+
+describe("TrafficValidator with recordings", () => {
+  it("should validate HAR traffic and report the entry index", async () => {
+    const validator = new TrafficValidator(specPath, harFilePath);
+    await validator.initialize();
+    const result = await validator.validate();
+    expect(result.length).toEqual(1);
+    expect(result[0].payloadFilePath).toEqual(getRecordingEntryPath(harFilePath, 1));
+    expect(result[0].operationInfo?.operationId).toEqual("Table_Query");
+    expect(result[0].errors?.map((error) => error.code)).toEqual(["INVALID_TYPE"]);
+  });
+
+  it("should validate test-proxy recordings", async () => {
+    const validator = new TrafficValidator(specPath, testProxyFilePath);
+    await validator.initialize();
+    const result = await validator.validate();
+    expect(result.length).toEqual(1);
+    expect(result[0].payloadFilePath).toEqual(getRecordingEntryPath(testProxyFilePath, 1));
+    expect(result[0].errors?.map((error) => error.code)).toEqual(["INVALID_TYPE"]);
+  });
+});
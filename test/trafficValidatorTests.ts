@@ -0,0 +1,176 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as path from "path";
+import { CoverageView } from "../lib/report/generateReport";
+import { TrafficValidator } from "../lib/swaggerValidator/trafficValidator";
+
+const specPath = path.resolve(__dirname, "trafficValidation/specification/foo");
+const trafficPath = path.resolve(__dirname, "trafficValidation/payloads");
+
+describe("TrafficValidator with target api-version", () => {
+  it("should validate the traffic against the recorded api-version by default", async () => {
+    const validator = new TrafficValidator(specPath, trafficPath);
+    await validator.initialize();
+    expect(await validator.validate()).toEqual([]);
+  });
+
+  it("should report the incompatibilities with the target api-version", async () => {
+    const validator = new TrafficValidator(specPath, trafficPath, {
+      targetApiVersion: "2022-01-01",
+    });
+    await validator.initialize();
+    const result = await validator.validate();
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      operationInfo: { apiVersion: "2022-01-01", operationId: "Foos_CreateOrUpdate" },
+      recordedApiVersion: "2021-01-01",
+    });
+    expect(result[0].errors?.map((it) => [it.code, it.jsonPathsInPayload[0]])).toEqual([
+      // Request
+      ["INVALID_TYPE", "$.properties.size"],
+      ["OBJECT_MISSING_REQUIRED_PROPERTY", "$.properties.location"],
+      // Response
+      ["INVALID_TYPE", "$.properties.size"],
+      ["OBJECT_MISSING_REQUIRED_PROPERTY", "$.properties.location"],
+    ]);
+    expect(result[0].errors?.[0].source.url).toContain("2022-01-01");
+    expect(
+      validator.operationCoverageResult.map((it) => [it.apiVersion, it.coveredOperaions])
+    ).toEqual([
+      ["2021-01-01", 0],
+      ["2022-01-01", 1],
+    ]);
+  });
+
+  it("should throw if there is no spec of the target api-version", async () => {
+    const validator = new TrafficValidator(specPath, trafficPath, {
+      targetApiVersion: "2023-01-01",
+    });
+    await expect(validator.initialize()).rejects.toThrow(
+      "Can not find the spec of the target api-version 2023-01-01"
+    );
+  });
+});
+
+describe("TrafficValidator with long running operations", () => {
+  const lroSpecPath = path.resolve(__dirname, "trafficValidation/lro/specification/lro");
+  const lroTrafficPath = path.resolve(__dirname, "trafficValidation/lro/payloads");
+
+  it("should report the issues of the polling and the final result per flow", async () => {
+    const validator = new TrafficValidator(lroSpecPath, lroTrafficPath);
+    await validator.initialize();
+    const result = await validator.validate();
+    const flowIssues = result.filter((it) => it.lroFlowPayloadFilePaths !== undefined);
+    expect(
+      flowIssues.map((it) => [
+        path.basename(it.payloadFilePath!),
+        it.lroFlowPayloadFilePaths!.map((filePath) => path.basename(filePath)),
+        it.errors!.map((error) => error.code),
+      ])
+    ).toEqual([
+      [
+        "05_Widgets_CreateOrUpdate.json",
+        ["06_OperationStatus.json", "07_OperationStatus.json", "08_Widgets_Get.json"],
+        ["LRO_POLLING_STATUS_NOT_FOUND", "INVALID_TYPE"],
+      ],
+      [
+        "09_Widgets_Restart.json",
+        ["10_OperationStatus.json"],
+        ["LRO_FINAL_STATE_HEADER_NOT_FOUND", "LRO_FINAL_RESULT_NOT_FOUND"],
+      ],
+      ["11_Widgets_Delete.json", ["12_OperationResult.json"], ["LRO_NOT_COMPLETED"]],
+    ]);
+    expect(flowIssues[0].operationInfo).toEqual({
+      apiVersion: "2021-01-01",
+      operationId: "Widgets_CreateOrUpdate",
+    });
+    expect(flowIssues[0].errors![1].jsonPathsInPayload).toEqual(["$.properties.size"]);
+  });
+
+  it("should not validate the polling calls which are not operations of the spec", async () => {
+    const validator = new TrafficValidator(lroSpecPath, lroTrafficPath);
+    await validator.initialize();
+    const result = await validator.validate();
+    expect(
+      result
+        .filter(
+          (it) =>
+            it.lroFlowPayloadFilePaths === undefined && it.relatedPayloadFilePaths === undefined
+        )
+        .map((it) => path.basename(it.payloadFilePath!))
+    ).toEqual(["08_Widgets_Get.json"]);
+    expect(validator.operationUndefinedResult).toBe(0);
+  });
+});
+
+describe("TrafficValidator with the status monitor defined in the spec", () => {
+  const statusMonitorSpecPath = path.resolve(
+    __dirname,
+    "trafficValidation/lroStatusMonitor/specification/lro"
+  );
+  const statusMonitorTrafficPath = path.resolve(
+    __dirname,
+    "trafficValidation/lroStatusMonitor/payloads"
+  );
+
+  it("should validate the polling calls against the status monitor operation", async () => {
+    const validator = new TrafficValidator(statusMonitorSpecPath, statusMonitorTrafficPath);
+    await validator.initialize();
+    const result = await validator.validate();
+    expect(
+      result.map((it) => [
+        path.basename(it.payloadFilePath!),
+        it.operationInfo?.operationId,
+        it.errors!.map((error) => error.code),
+      ])
+    ).toEqual([["02_OperationStatuses_Get.json", "OperationStatuses_Get", ["INVALID_TYPE"]]]);
+    expect(validator.operationUndefinedResult).toBe(0);
+    expect(
+      validator.operationCoverageResult.map((it) => [it.coveredOperaions, it.totalOperations])
+    ).toEqual([[3, 3]]);
+  });
+});
+
+describe("TrafficValidator with resource lifecycle", () => {
+  const lroSpecPath = path.resolve(__dirname, "trafficValidation/lro/specification/lro");
+  const lifecycleTrafficPath = path.resolve(__dirname, "trafficValidation/lifecycle/payloads");
+
+  it("should report the issues across the calls of a resource", async () => {
+    const validator = new TrafficValidator(lroSpecPath, lifecycleTrafficPath);
+    await validator.initialize();
+    const result = await validator.validate();
+    expect(
+      result.map((it) => [
+        path.basename(it.payloadFilePath!),
+        it.relatedPayloadFilePaths!.map((filePath) => path.basename(filePath)),
+        it.errors!.map((error) => [error.code, error.jsonPathsInPayload[0]]),
+      ])
+    ).toEqual([
+      [
+        "02_Widgets_Get.json",
+        ["01_Widgets_CreateOrUpdate.json"],
+        [["ROUNDTRIP_INCONSISTENT_PROPERTY", "$.properties.size"]],
+      ],
+      [
+        "04_Widgets_Get.json",
+        ["03_Widgets_Delete.json"],
+        [["RESOURCE_EXISTS_AFTER_DELETE", undefined]],
+      ],
+    ]);
+    expect(result[0].errors![0].message).toContain("Request: 1. Response: 2");
+  });
+
+  it("should report the issues with the operation of the GET call", async () => {
+    const validator = new TrafficValidator(lroSpecPath, lifecycleTrafficPath);
+    await validator.initialize();
+    const result = await validator.validate();
+    expect(result.map((it) => it.operationInfo)).toEqual([
+      { apiVersion: "2021-01-01", operationId: "Widgets_Get" },
+      { apiVersion: "2021-01-01", operationId: "Widgets_Get" },
+    ]);
+
+    const view = new CoverageView(result, validator.operationCoverageResult);
+    expect(view.getTotalErrors()).toBe(2);
+  });
+});
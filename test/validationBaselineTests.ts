@@ -0,0 +1,134 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs-extra";
+import {
+  compareWithBaseline,
+  ValidationBaseline,
+  ValidationBaselineEntry,
+} from "../lib/report/validationBaseline";
+import { log } from "../lib/util/logging";
+import * as validate from "../lib/validate";
+
+const testPath = __dirname;
+
+const polymorphicSpecPath = `${testPath}/modelValidation/swaggers/specification/polymorphic/polymorphicSwagger.json`;
+const operationIds = "CircularAnimal_IncorrectSibling_List";
+
+describe("Validation baseline", () => {
+  const directory = path.join(os.tmpdir(), `oav-baseline-${process.pid}`);
+  const baselinePath = path.join(directory, "baseline.json");
+
+  beforeEach(async () => {
+    await fs.remove(directory);
+  });
+  afterAll(async () => {
+    await fs.remove(directory);
+  });
+
+  it("should match the errors with the entries one to one", () => {
+    const entry = (jsonPath: string): ValidationBaselineEntry => ({
+      code: "INVALID_TYPE",
+      operationId: "Op_Get",
+      example: "examples/get.json",
+      jsonPath,
+    });
+    const baseline: ValidationBaseline = { entries: [entry("$.a"), entry("$.b")] };
+    const errors = ["$.a", "$.a", "$.c"];
+    const { newErrors, fixedEntries } = compareWithBaseline(baseline, errors, entry);
+    expect(newErrors).toEqual(["$.a", "$.c"]);
+    expect(fixedEntries).toEqual([entry("$.b")]);
+  });
+
+  it("should report only the example errors not in the baseline, and the fixed entries", async () => {
+    const options = { consoleLogLevel: "off", baselinePath };
+    const updated = await validate.validateExamples(polymorphicSpecPath, operationIds, {
+      ...options,
+      updateBaseline: true,
+    });
+    expect(updated).toEqual([]);
+    const baseline: ValidationBaseline = await fs.readJson(baselinePath);
+    expect(baseline.entries).toEqual([
+      {
+        code: "OBJECT_ADDITIONAL_PROPERTIES",
+        operationId: operationIds,
+        example: expect.stringMatching(/^examples\/.+\.json$/),
+        jsonPath: "$responses.200.body.value[3].siblings[0].sanctuary",
+      },
+      {
+        code: "OBJECT_ADDITIONAL_PROPERTIES",
+        operationId: operationIds,
+        example: expect.stringMatching(/^examples\/.+\.json$/),
+        jsonPath: "$responses.200.body.value[4].siblings[0].sanctuary",
+      },
+    ]);
+
+    expect(await validate.validateExamples(polymorphicSpecPath, operationIds, options)).toEqual([]);
+
+    const fixedEntry = { code: "INVALID_TYPE", operationId: operationIds, jsonPath: "$.fixed" };
+    await fs.writeJson(baselinePath, { entries: [baseline.entries[0], fixedEntry] });
+    const spy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    try {
+      const errors = await validate.validateExamples(polymorphicSpecPath, operationIds, options);
+      expect(errors.map((it) => it.exampleJsonPath)).toEqual([
+        "$responses.200.body.value[4].siblings[0].sanctuary",
+      ]);
+      const messages = spy.mock.calls.map((it) => String(it[0])).join("\n");
+      expect(messages).toContain("1 errors in the baseline");
+      expect(messages).toContain("jsonPath: $.fixed");
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("should restore the console log level after the documents of a composite spec", async () => {
+    const compositeSpecPath = path.join(directory, "compositeSwagger.json");
+    await fs.outputJson(compositeSpecPath, {
+      documents: [`./${path.relative(directory, polymorphicSpecPath).replace(/\\/g, "/")}`],
+    });
+    await fs.writeJson(baselinePath, { entries: [] });
+    const spy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const consoleLogLevel = log.consoleLogLevel;
+    try {
+      const results = await validate.validateExamplesInCompositeSpec(compositeSpecPath, {
+        consoleLogLevel: "warn",
+        baselinePath,
+      });
+      expect(results[0].length).toBeGreaterThan(0);
+      expect(log.consoleLogLevel).toBe("warn");
+    } finally {
+      log.consoleLogLevel = consoleLogLevel;
+      spy.mockRestore();
+    }
+  });
+
+  it("should pass semantic validation with the errors in the baseline", async () => {
+    const specPath = `${testPath}/semanticValidation/specification/validateSwaggerSchema/UNRESOLVABLE_REFERENCE.json`;
+    await validate.validateSpec(specPath, { baselinePath, updateBaseline: true });
+    const baseline: ValidationBaseline = await fs.readJson(baselinePath);
+    expect(baseline.entries[0]).toMatchObject({
+      code: "UNRESOLVABLE_REFERENCE",
+      file: "UNRESOLVABLE_REFERENCE.json",
+    });
+
+    const result = await validate.validateSpec(specPath, { baselinePath });
+    expect(result.validityStatus).toBe(true);
+    expect(result.validateSpec?.errors).toEqual([]);
+  });
+
+  it("should require the baseline file unless updating it", async () => {
+    await expect(
+      validate.validateExamples(polymorphicSpecPath, operationIds, {
+        consoleLogLevel: "off",
+        updateBaseline: true,
+      })
+    ).rejects.toThrow("The baseline file path is required");
+    const errors = await validate.validateExamples(polymorphicSpecPath, operationIds, {
+      consoleLogLevel: "off",
+      baselinePath,
+    });
+    expect(errors[0].code).toBe("INTERNAL_ERROR");
+  });
+});
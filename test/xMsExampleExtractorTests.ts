@@ -1,5 +1,9 @@
 import assert from "assert";
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs-extra";
 import * as validate from "../lib/validate";
+import { XMsExampleExtractor } from "../lib/xMsExampleExtractor";
 
 describe("xMsExampleExtractor", () => {
   it("simple", async () => {
@@ -8,4 +12,37 @@ describe("xMsExampleExtractor", () => {
     const result = await validate.extractXMsExamples(specPath, recordings, {});
     assert.deepStrictEqual(result, {});
   });
+
+  it("should extract the entries of .NET recordings in recorded order", async () => {
+    const specPath = "./test/xMsExamplesExtractor/databox.json";
+    const recording = fs.readJsonSync(
+      "./test/xMsExamplesExtractor/SessionRecords/DataBox.Tests.Tests.ValidateAddressTest/TestValidateAddress.json"
+    );
+    // An entry with an empty body, responded earlier than the entry recorded before it
+    const [entry] = recording.Entries;
+    recording.Entries.push({
+      ...entry,
+      RequestBody: "",
+      ResponseHeaders: { ...entry.ResponseHeaders, Date: ["Fri, 13 Apr 2018 10:00:00 GMT"] },
+    });
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "xMsExampleExtractor-"));
+    try {
+      const recordings = path.join(tempDir, "SessionRecords");
+      fs.outputJsonSync(path.join(recordings, "TestValidateAddress.json"), recording);
+      const output = path.join(tempDir, "output");
+      const result = await new XMsExampleExtractor(specPath, recordings, { output }).extract();
+      assert.deepStrictEqual(result, {});
+
+      const readExample = (fileName: string) =>
+        fs.readJsonSync(path.join(output, "examples", fileName));
+      expect(readExample("TestValidateAddress-POST-example-41.json").parameters).toMatchObject({
+        validateAddress: JSON.parse(entry.RequestBody),
+      });
+      expect(readExample("TestValidateAddress-POST-example-42.json").parameters).toMatchObject({
+        validateAddress: "",
+      });
+    } finally {
+      fs.removeSync(tempDir);
+    }
+  });
 });